@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import handler from '../../pages/api/easton';
+import { findPuzzle } from '../../lib/puzzleData';
+import { addDays, latestReleasedDateISO } from '../../lib/timezone';
+import { EastonEntry } from '../../lib/types';
+import { callRoute } from '../apiHelpers';
+
+const DATE = '2025-09-02';
+const term = findPuzzle(DATE)!.word.toLowerCase();
+const listedDates = (body: unknown) => (body as EastonEntry).puzzles.map(p => p.date);
+
+describe('/api/easton?term=', () => {
+  it("lists a puzzle only once the player's day has moved past it", async () => {
+    const during = await callRoute(handler, { term, today: DATE });
+    expect(during.status).toBe(200);
+    expect(listedDates(during.body)).not.toContain(DATE);
+
+    const after = await callRoute(handler, { term, today: addDays(DATE, 1) });
+    expect(listedDates(after.body)).toContain(DATE);
+  });
+
+  it('never lists an unreleased puzzle and stays out of shared caches', async () => {
+    const { body, headers } = await callRoute(handler, { term, today: '2099-01-01' });
+    expect(listedDates(body).every(date => date < latestReleasedDateISO())).toBe(true);
+    expect(headers['cache-control']).not.toContain('public');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import guessHandler from '../../pages/api/gospels/guess';
+import puzzleHandler from '../../pages/api/gospels/[date]';
+import { findGospelsSet } from '../../lib/gospelsData';
+import { loadDictionaryWords } from '../../lib/puzzleData';
+import { GAME_CONFIG } from '../../lib/config';
+import { GospelsGuessResult } from '../../lib/types';
+import { callRoute, freshToken as puzzleToken } from '../apiHelpers';
+
+const SATURDAY = '2025-09-06';
+const words = findGospelsSet(SATURDAY)!.set.words;
+const misses = loadDictionaryWords(words[0].length).filter(word => !words.includes(word));
+
+const freshToken = () => puzzleToken(puzzleHandler, { date: SATURDAY });
+
+async function guess(word: string, token: string, extra: Record<string, string> = {}) {
+  const { status, body } = await callRoute(guessHandler, { date: SATURDAY, guess: word, token, ...extra });
+  return { status, body: body as GospelsGuessResult };
+}
+
+describe('/api/gospels/guess', () => {
+  it('holds the solutions back until the final real miss', async () => {
+    let token = await freshToken();
+    for (let i = 0; i < GAME_CONFIG.GOSPELS_MAX_GUESSES; i++) {
+      const { status, body } = await guess(misses[i], token);
+      expect(status).toBe(200);
+      expect(body.solutions).toEqual(i < GAME_CONFIG.GOSPELS_MAX_GUESSES - 1 ? undefined : words);
+      token = body.gameToken;
+    }
+
+    expect((await guess(misses[0], token)).status).toBe(400);
+  });
+
+  it('ignores a claimed attempt number', async () => {
+    const { body } = await guess(misses[0], await freshToken(), { attempt: String(GAME_CONFIG.GOSPELS_MAX_GUESSES) });
+    expect(body.solutions).toBeUndefined();
+  });
+
+  it('marks the boards a guess solves', async () => {
+    const { body } = await guess(words[1], await freshToken());
+    expect(body.solved).toEqual(words.map(word => word === words[1]));
+  });
+
+  it('rejects a word outside the dictionary and a missing token', async () => {
+    expect((await guess('Q'.repeat(words[0].length), await freshToken())).status).toBe(400);
+    expect((await guess(misses[0], '')).status).toBe(400);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import guessHandler from '../../pages/api/guess';
+import puzzleHandler from '../../pages/api/puzzle/[date]';
+import { findPuzzle, loadDictionaryWords } from '../../lib/puzzleData';
+import { readGameToken, signGameToken } from '../../lib/gameToken';
+import { GAME_CONFIG } from '../../lib/config';
+import { GuessResult } from '../../lib/types';
+import { callRoute, freshToken as puzzleToken } from '../apiHelpers';
+
+const DATE = '2025-09-02';
+const answer = findPuzzle(DATE)!.word.toUpperCase();
+const length = String(answer.length);
+const misses = loadDictionaryWords(answer.length).filter(word => word !== answer);
+
+const freshToken = () => puzzleToken(puzzleHandler, { date: DATE });
+
+async function guess(word: string, token: string, extra: Record<string, string> = {}) {
+  const { status, body } = await callRoute(guessHandler, { date: DATE, length, guess: word, token, ...extra });
+  return { status, body: body as GuessResult };
+}
+
+describe('/api/guess', () => {
+  it('sends the solution with a winning guess', async () => {
+    const { status, body } = await guess(answer, await freshToken());
+    expect(status).toBe(200);
+    expect(body.solved).toBe(true);
+    expect(body.solution).toBe(answer);
+    expect(body.verseReference).toMatch(/ \d+:\d+$/);
+  });
+
+  it('holds the solution back until the final real miss', async () => {
+    let token = await freshToken();
+    for (let i = 0; i < GAME_CONFIG.MAX_GUESSES; i++) {
+      const { status, body } = await guess(misses[i], token);
+      expect(status).toBe(200);
+      expect(body.solved).toBe(false);
+      if (i < GAME_CONFIG.MAX_GUESSES - 1) {
+        expect(body.solution).toBeUndefined();
+        expect(body.verseReference).toBeUndefined();
+      } else {
+        expect(body.solution).toBe(answer);
+      }
+      token = body.gameToken;
+    }
+
+    const { status } = await guess(misses[0], token);
+    expect(status).toBe(400);
+  });
+
+  it('ignores a claimed attempt number', async () => {
+    const { body } = await guess(misses[0], await freshToken(), { attempt: String(GAME_CONFIG.MAX_GUESSES) });
+    expect(body.solution).toBeUndefined();
+  });
+
+  it('rejects a guess that is not in the dictionary', async () => {
+    const token = await freshToken();
+    const { status } = await guess('Q'.repeat(answer.length), token);
+    expect(status).toBe(400);
+  });
+
+  it('rejects a missing, forged or other puzzle token', async () => {
+    expect((await guess(misses[0], '')).status).toBe(400);
+
+    const game = readGameToken(await freshToken(), `day:${DATE}:${length}`)!;
+    const forged = signGameToken({ ...game, attempts: GAME_CONFIG.MAX_GUESSES - 1 }).replace(/.$/, c => (c === '0' ? '1' : '0'));
+    expect((await guess(misses[0], forged)).status).toBe(400);
+
+    const other = signGameToken({ ...game, puzzle: 'day:2025-09-01:6' });
+    expect((await guess(misses[0], other)).status).toBe(400);
+  });
+});
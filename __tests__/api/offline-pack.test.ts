@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import handler from '../../pages/api/offline-pack';
+import { loadPuzzleRange } from '../../lib/puzzleData';
+import { latestReleasedDateISO } from '../../lib/timezone';
+import { callRoute } from '../apiHelpers';
+
+describe('/api/offline-pack', () => {
+  it('packs only released puzzles and never their answers', async () => {
+    const { status, body } = await callRoute(handler, {});
+    expect(status).toBe(200);
+    const pack = body as { from: string; puzzles: { date: string }[] };
+
+    const latest = latestReleasedDateISO();
+    const answers = loadPuzzleRange(pack.from, latest).map(p => p.word.toUpperCase());
+    const packed = JSON.stringify(body).toUpperCase();
+    for (const puzzle of pack.puzzles) {
+      expect(puzzle.date <= latest).toBe(true);
+      expect(puzzle).not.toHaveProperty('word');
+    }
+    for (const answer of answers) {
+      expect(packed).not.toContain(`"${answer}"`);
+    }
+  });
+});
@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import handler from '../../pages/api/puzzle/[date]';
+import puzzlesHandler from '../../pages/api/puzzles';
+import { ADMIN_PASSWORD_HEADER } from '../../lib/schedule';
+import { Difficulty } from '../../lib/types';
+import { callRoute } from '../apiHelpers';
+
+const DATE = '2025-09-02';
+
+afterEach(() => {
+  delete process.env.VERSEWORD_ADMIN_PASSWORD;
+});
+
+describe('/api/puzzle/[date]', () => {
+  it('keeps the difficulty signals from players', async () => {
+    const { status, body } = await callRoute(handler, { date: DATE });
+    expect(status).toBe(200);
+    expect(body).not.toHaveProperty('difficulty');
+  });
+
+  it('sends the difficulty estimate to editors, outside shared caches', async () => {
+    process.env.VERSEWORD_ADMIN_PASSWORD = 'editor';
+    const { body, headers } = await callRoute(handler, { date: DATE }, { [ADMIN_PASSWORD_HEADER]: 'editor' });
+    const { difficulty } = body as { difficulty: Difficulty };
+    expect(difficulty.signals.solverGuesses).toBeGreaterThan(0);
+    expect(headers['cache-control']).toBe('no-store');
+  });
+});
+
+describe('/api/puzzles?difficulty=true', () => {
+  it('lists only the level of each puzzle', async () => {
+    const { body } = await callRoute(puzzlesHandler, { date: DATE, difficulty: 'true' });
+    const [listing] = body as Record<string, unknown>[];
+    expect(listing.level).toMatch(/^(easy|medium|hard|expert)$/);
+    expect(listing).not.toHaveProperty('difficulty');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import guessHandler from '../../pages/api/guess';
+import puzzleHandler from '../../pages/api/puzzle/[date]';
+import revealHandler from '../../pages/api/reveal';
+import { findPuzzle, loadDictionaryWords } from '../../lib/puzzleData';
+import { GAME_CONFIG } from '../../lib/config';
+import { GuessResult, RevealResult, WordLength } from '../../lib/types';
+import { callRoute, freshToken as puzzleToken } from '../apiHelpers';
+
+const DATE = '2025-09-01';
+const answer = findPuzzle(DATE)!.word.toUpperCase();
+const length = String(answer.length);
+const budget = GAME_CONFIG.LETTER_REVEALS[answer.length as WordLength];
+
+const freshToken = () => puzzleToken(puzzleHandler, { date: DATE });
+
+async function reveal(token: string) {
+  const { status, body } = await callRoute(revealHandler, { date: DATE, length, token });
+  return { status, body: body as RevealResult };
+}
+
+describe('/api/reveal', () => {
+  it('reveals letters of the answer up to the budget', async () => {
+    let token = await freshToken();
+    const positions: number[] = [];
+    for (let i = 0; i < budget; i++) {
+      const { status, body } = await reveal(token);
+      expect(status).toBe(200);
+      expect(body.letter).toBe(answer[body.position]);
+      positions.push(body.position);
+      token = body.gameToken;
+    }
+    expect(new Set(positions).size).toBe(budget);
+
+    const { status } = await reveal(token);
+    expect(status).toBe(400);
+  });
+
+  it('uncovers the same letter again with a fresh or reused token', async () => {
+    const token = await freshToken();
+    const first = await reveal(token);
+    const again = await reveal(token);
+    const fresh = await reveal(await freshToken());
+    expect(again.body.position).toBe(first.body.position);
+    expect(fresh.body.position).toBe(first.body.position);
+  });
+
+  it('refuses reveals once a guess has been scored', async () => {
+    const miss = loadDictionaryWords(answer.length).find(word => word !== answer)!;
+    const { body } = await callRoute(guessHandler, { date: DATE, length, guess: miss, token: await freshToken() });
+    const { status } = await reveal((body as GuessResult).gameToken);
+    expect(status).toBe(400);
+  });
+
+  it('rejects a missing token', async () => {
+    expect((await reveal('')).status).toBe(400);
+  });
+});
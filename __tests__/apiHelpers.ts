@@ -0,0 +1,28 @@
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+
+// Calls an API route handler with a query string and returns what it sent
+export async function callRoute(handler: NextApiHandler, query: Record<string, string>, headers: Record<string, string> = {}) {
+  const sent: { status: number; body: unknown; headers: Record<string, string> } = { status: 200, body: undefined, headers: {} };
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      sent.headers[name.toLowerCase()] = value;
+      return res;
+    },
+  };
+  await handler({ query, headers } as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return sent;
+}
+
+// The game token a puzzle route hands out with a new game (see lib/gameToken.ts)
+export async function freshToken(puzzleHandler: NextApiHandler, query: Record<string, string>): Promise<string> {
+  const { body } = await callRoute(puzzleHandler, query);
+  return (body as { gameToken: string }).gameToken;
+}
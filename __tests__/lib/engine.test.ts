@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { EngineAction, EngineState, createInitialState, reduce } from '../../lib/engine';
+
+const dictionary = new Set(['GRACE', 'CRANE', 'TRACE', 'BLIMP', 'STORM', 'DOUGH', 'FIELD', 'MOUNT', 'PSALM']);
+
+// Types a whole word into the row and submits it
+function guess(state: EngineState, word: string, scored: Partial<Extract<EngineAction, { type: 'SUBMIT' }>> = {}): EngineState {
+  const typed = word.split('').reduce((s, letter) => reduce(s, { type: 'TYPE_LETTER', letter }), state);
+  return reduce(typed, { type: 'SUBMIT', dictionary, ...scored });
+}
+
+describe('game engine', () => {
+  it('plays a game through to a win', () => {
+    let state = createInitialState({ secretWord: 'GRACE', lockGreenMatchedLetters: true });
+    state = guess(state, 'CRANE');
+    expect(state.gameStatus).toBe('playing');
+    expect(state.evaluations[0]).toEqual(['present', 'correct', 'correct', 'absent', 'correct']);
+    expect(state.lockedLetters).toEqual({ 1: 'R', 2: 'A', 4: 'E' });
+
+    // Only the unlocked cells are typed; the locked letters fill the rest
+    state = guess(state, 'GC');
+    expect(state.attempts).toEqual(['CRANE', 'GRACE']);
+    expect(state.gameStatus).toBe('won');
+  });
+
+  it('wins on the answer and takes no more input', () => {
+    let state = createInitialState({ secretWord: 'GRACE' });
+    state = guess(state, 'TRACE');
+    state = guess(state, 'GRACE');
+    expect(state.gameStatus).toBe('won');
+    expect(state.attemptIndex).toBe(2);
+
+    const after = reduce(state, { type: 'TYPE_LETTER', letter: 'A' });
+    expect(after).toBe(state);
+  });
+
+  it('loses once the guesses run out', () => {
+    let state = createInitialState({ secretWord: 'GRACE', maxGuesses: 3 });
+    state = guess(state, 'STORM');
+    state = guess(state, 'DOUGH');
+    expect(state.gameStatus).toBe('playing');
+    state = guess(state, 'FIELD');
+    expect(state.gameStatus).toBe('lost');
+    expect(state.attempts).toHaveLength(3);
+  });
+
+  it('plays from the server evaluation without knowing the answer', () => {
+    let state = createInitialState({ wordLength: 5 });
+    state = guess(state, 'PSALM', { evaluation: ['absent', 'absent', 'correct', 'absent', 'absent'] });
+    expect(state.secretWord).toBe('');
+    state = guess(state, 'GRACE', { evaluation: ['correct', 'correct', 'correct', 'correct', 'correct'], solution: 'GRACE' });
+    expect(state.gameStatus).toBe('won');
+    expect(state.secretWord).toBe('GRACE');
+  });
+
+  it('rejects words outside the dictionary and short guesses without using a turn', () => {
+    const state = createInitialState({ secretWord: 'GRACE' });
+    expect(guess(state, 'ABCDE').error?.code).toBe('not_in_word_list');
+    expect(guess(state, 'GRA').error?.code).toBe('not_enough_letters');
+    expect(guess(state, 'ABCDE').attemptIndex).toBe(0);
+  });
+
+  it('rejects a hard-mode guess that drops a hint', () => {
+    let state = createInitialState({ secretWord: 'GRACE', hardMode: true });
+    state = guess(state, 'CRANE');
+
+    const rejected = guess(state, 'BLIMP');
+    expect(rejected.error).toEqual({ code: 'hard_mode', message: '2nd letter must be R' });
+    expect(rejected.attempts).toEqual(['CRANE']);
+
+    expect(guess(state, 'TRACE').error).toBeNull();
+  });
+
+  it('reveals a vowel before the first guess only', () => {
+    let state = createInitialState({ secretWord: 'GRACE' });
+    state = reduce(state, { type: 'REVEAL_LETTER', random: 0 });
+    expect(Array.from(state.revealedLetters)).toEqual([2]);
+    expect(state.revealedLetterValues).toEqual({ 2: 'A' });
+    expect(state.letterRevealsRemaining).toBe(0);
+
+    // The revealed letter is part of the guess without being typed
+    state = guess(state, 'CRNE');
+    expect(state.attempts).toEqual(['CRANE']);
+
+    const later = reduce({ ...state, letterRevealsRemaining: 1 }, { type: 'REVEAL_LETTER', random: 0 });
+    expect(later.error?.code).toBe('reveal_not_allowed');
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { findVersesWithWord, formatVerseRef, loadBible } from '../../lib/kjv';
+
+// The straightforward scan the word index replaces
+function scan(word: string): string[] {
+  const pattern = new RegExp(`\\b${word}\\b`, 'i');
+  const refs: string[] = [];
+  for (const [book, chapters] of Object.entries(loadBible())) {
+    chapters.forEach((verses, c) => {
+      verses.forEach((text, v) => {
+        if (pattern.test(text)) refs.push(formatVerseRef({ book, chapter: c + 1, verse: v + 1 }));
+      });
+    });
+  }
+  return refs;
+}
+
+describe('findVersesWithWord', () => {
+  it('finds the same verses as a whole-word scan, in canonical order', () => {
+    for (const word of ['DAVID', 'grace', 'Lord', 'ISRAEL']) {
+      expect(findVersesWithWord(word).map(formatVerseRef)).toEqual(scan(word));
+    }
+  });
+
+  it('finds nothing for a word the KJV never uses', () => {
+    expect(findVersesWithWord('QWERTY')).toEqual([]);
+  });
+});
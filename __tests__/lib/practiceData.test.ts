@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { findPracticeWord, loadPracticeWords, pickPracticePuzzle, practiceId } from '../../lib/practiceData';
+import { loadPuzzleRange } from '../../lib/puzzleData';
+import { addDays, todayISO } from '../../lib/timezone';
+import { WordLength } from '../../lib/types';
+
+const lengths: WordLength[] = [5, 6, 7];
+const upcoming = loadPuzzleRange(addDays(todayISO('global'), -1)).map(p => p.word.toUpperCase());
+
+describe('practice words', () => {
+  it('never picks an answer of a day that is not over yet', () => {
+    const upcomingIds = new Set(upcoming.map(practiceId));
+    lengths.forEach(length => {
+      // Exclude everything else so each pick would have to be an upcoming answer
+      const others = new Set(loadPracticeWords(length).map(practiceId).filter(id => !upcomingIds.has(id)));
+      for (let i = 0; i < 20; i++) {
+        const puzzle = pickPracticePuzzle(length, others);
+        expect(puzzle && upcomingIds.has(puzzle.id)).toBeFalsy();
+      }
+    });
+  });
+
+  it('does not score an upcoming answer by its practice id', () => {
+    const curated = new Set(([] as string[]).concat(...lengths.map(loadPracticeWords)));
+    const held = upcoming.filter(word => curated.has(word));
+    expect(held.length).toBeGreaterThan(0);
+    held.forEach(word => expect(findPracticeWord(practiceId(word))).toBeNull());
+  });
+});
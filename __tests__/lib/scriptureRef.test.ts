@@ -0,0 +1,170 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { VerseRange, findReferences, formatReference, parseReference } from '../../lib/scriptureRef';
+
+const EASTON_FILE = path.join(process.cwd(), 'lib', 'data', 'easton.jsonl');
+
+interface Fixture {
+  ref: string;
+  ranges: VerseRange[];   // none means the reference must not parse
+  formatted: string;
+}
+
+const FIXTURES: Fixture[] = [
+  {
+    ref: '1 Cor. 13:4-7',
+    ranges: [{ book: '1 Corinthians', chapter: 13, verseStart: 4, verseEnd: 7 }],
+    formatted: '1 Corinthians 13:4-7',
+  },
+  {
+    ref: 'Ps 23',
+    ranges: [{ book: 'Psalms', chapter: 23 }],
+    formatted: 'Psalms 23',
+  },
+  {
+    ref: 'Rom. 8:28, 31; 9:1',
+    ranges: [
+      { book: 'Romans', chapter: 8, verseStart: 28, verseEnd: 28 },
+      { book: 'Romans', chapter: 8, verseStart: 31, verseEnd: 31 },
+      { book: 'Romans', chapter: 9, verseStart: 1, verseEnd: 1 },
+    ],
+    formatted: 'Romans 8:28, 31; 9:1',
+  },
+  {
+    ref: 'comp. Heb. 12:2',
+    ranges: [{ book: 'Hebrews', chapter: 12, verseStart: 2, verseEnd: 2 }],
+    formatted: 'Hebrews 12:2',
+  },
+  {
+    ref: 'Gen 1:31-2:3',
+    ranges: [
+      { book: 'Genesis', chapter: 1, verseStart: 31 },
+      { book: 'Genesis', chapter: 2, verseStart: 1, verseEnd: 3 },
+    ],
+    formatted: 'Genesis 1:31-2:3',
+  },
+  // "In" is not a book, even though it's capitalised and followed by a reference
+  {
+    ref: 'In 7:1-9:10',
+    ranges: [],
+    formatted: '',
+  },
+  {
+    ref: '1 Kings 7:1-9:10',
+    ranges: [
+      { book: '1 Kings', chapter: 7, verseStart: 1 },
+      { book: '1 Kings', chapter: 8 },
+      { book: '1 Kings', chapter: 9, verseStart: 1, verseEnd: 10 },
+    ],
+    formatted: '1 Kings 7:1-9:10',
+  },
+  {
+    ref: 'Psalms 113-118',
+    ranges: [113, 114, 115, 116, 117, 118].map(chapter => ({ book: 'Psalms', chapter })),
+    formatted: 'Psalms 113-118',
+  },
+  {
+    ref: 'Lev. 8; 9',
+    ranges: [{ book: 'Leviticus', chapter: 8 }, { book: 'Leviticus', chapter: 9 }],
+    formatted: 'Leviticus 8-9',
+  },
+  {
+    ref: 'Rev. 1:8, 11; 21:6; 22:13',
+    ranges: [
+      { book: 'Revelation', chapter: 1, verseStart: 8, verseEnd: 8 },
+      { book: 'Revelation', chapter: 1, verseStart: 11, verseEnd: 11 },
+      { book: 'Revelation', chapter: 21, verseStart: 6, verseEnd: 6 },
+      { book: 'Revelation', chapter: 22, verseStart: 13, verseEnd: 13 },
+    ],
+    formatted: 'Revelation 1:8, 11; 21:6; 22:13',
+  },
+  {
+    ref: '2Sa 5:6-9, 11ff',
+    ranges: [
+      { book: '2 Samuel', chapter: 5, verseStart: 6, verseEnd: 9 },
+      { book: '2 Samuel', chapter: 5, verseStart: 11 },
+    ],
+    formatted: '2 Samuel 5:6-9, 11ff',
+  },
+  {
+    ref: 'Cant. 2:1',
+    ranges: [{ book: 'Song of Solomon', chapter: 2, verseStart: 1, verseEnd: 1 }],
+    formatted: 'Song of Solomon 2:1',
+  },
+  // One-chapter books are cited by verse alone
+  {
+    ref: 'Jude 3',
+    ranges: [{ book: 'Jude', chapter: 1, verseStart: 3, verseEnd: 3 }],
+    formatted: 'Jude 1:3',
+  },
+  {
+    ref: 'Philem. 10, 12',
+    ranges: [
+      { book: 'Philemon', chapter: 1, verseStart: 10, verseEnd: 10 },
+      { book: 'Philemon', chapter: 1, verseStart: 12, verseEnd: 12 },
+    ],
+    formatted: 'Philemon 1:10, 12',
+  },
+  {
+    ref: '3 John 9-11',
+    ranges: [{ book: '3 John', chapter: 1, verseStart: 9, verseEnd: 11 }],
+    formatted: '3 John 1:9-11',
+  },
+  {
+    ref: 'Obad. 1:21',
+    ranges: [{ book: 'Obadiah', chapter: 1, verseStart: 21, verseEnd: 21 }],
+    formatted: 'Obadiah 1:21',
+  },
+];
+
+// Every distinct reference findReferences picks out of Easton's dictionary
+function loadEastonReferences(): string[] {
+  const refs = new Set<string>();
+
+  for (const line of fs.readFileSync(EASTON_FILE, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    const entry: { definitions: string[] } = JSON.parse(line);
+    for (const definition of entry.definitions) {
+      for (const found of findReferences(definition)) refs.add(found.ref);
+    }
+  }
+
+  return Array.from(refs);
+}
+
+// Why a reference doesn't parse, or doesn't survive formatting and parsing
+// again unchanged; null if it does
+function roundTripFailure(ref: string): string | null {
+  const ranges = parseReference(ref);
+  if (!ranges) return `${ref}: does not parse`;
+
+  const formatted = formatReference(ranges);
+  const reparsed = parseReference(formatted);
+  if (JSON.stringify(reparsed) !== JSON.stringify(ranges)) {
+    return `${ref}: "${formatted}" parses to ${JSON.stringify(reparsed)}`;
+  }
+  if (formatReference(reparsed as VerseRange[]) !== formatted) {
+    return `${ref}: "${formatted}" does not format to itself`;
+  }
+  return null;
+}
+
+describe('parseReference', () => {
+  it.each(FIXTURES)('parses and formats $ref', ({ ref, ranges, formatted }) => {
+    if (ranges.length === 0) {
+      expect(parseReference(ref)).toBeNull();
+      return;
+    }
+    expect(parseReference(ref)).toEqual(ranges);
+    expect(formatReference(ranges)).toBe(formatted);
+  });
+
+  it("round-trips every reference in Easton's dictionary", () => {
+    const refs = loadEastonReferences();
+    expect(refs.length).toBeGreaterThan(10000);
+
+    const failures = refs.map(roundTripFailure).filter((failure): failure is string => failure !== null);
+    expect(failures).toEqual([]);
+  });
+});
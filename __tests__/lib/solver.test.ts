@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeGame, solve } from '../../lib/solver';
+import { evaluateGuess } from '../../lib/gameLogic';
+import { loadDictionaryWords } from '../../lib/puzzleData';
+
+describe('analyzeGame', () => {
+  it('labels the best guess a heuristic only while there are too many candidates to compare', () => {
+    const dictionary = loadDictionaryWords(5);
+    const answer = 'DAVID';
+    const attempts = solve(answer, dictionary);
+    const rows = analyzeGame(attempts, attempts.map(guess => evaluateGuess(guess, answer)), dictionary);
+
+    expect(rows[0].candidatesBefore).toBeGreaterThan(250);
+    expect(rows[0].bestIsHeuristic).toBe(true);
+    rows.forEach(row => expect(row.bestIsHeuristic).toBe(row.candidatesBefore > 250));
+    expect(rows[rows.length - 1].bestIsHeuristic).toBe(false);
+    expect(rows[rows.length - 1].guess).toBe(answer);
+  });
+});
@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PuzzleStateV2, getLastPlayed, getPuzzle, loadAll, makeId, upsertPuzzle } from '../../lib/storage';
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, String(value)),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+function puzzle(dateISO: string): PuzzleStateV2 {
+  return {
+    id: makeId(dateISO, 5),
+    dateISO,
+    wordLength: 5,
+    attempts: [],
+    evaluations: [],
+    lockedLetters: {},
+    revealedLetters: {},
+    letterRevealsRemaining: 1,
+    gameStatus: 'playing',
+    attemptIndex: 0,
+    currentGuess: ['', '', '', '', ''],
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('localStorage', memoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('storage namespaces', () => {
+  it("keeps playtest games out of the player's games", () => {
+    const playtest = puzzle('2099-01-01');
+    upsertPuzzle(playtest, 'preview');
+
+    expect(getPuzzle(playtest.id, 'preview')).not.toBeNull();
+    expect(getPuzzle(playtest.id)).toBeNull();
+    expect(loadAll()).toEqual({});
+    expect(getLastPlayed()).toBeNull();
+    expect(getLastPlayed('preview')).toBe(playtest.id);
+  });
+
+  it("saves to the player's games unless told otherwise", () => {
+    const game = puzzle('2025-09-02');
+    upsertPuzzle(game);
+
+    expect(getPuzzle(game.id)?.dateISO).toBe('2025-09-02');
+    expect(loadAll('preview')).toEqual({});
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  addDays,
+  daysBetween,
+  latestReleasedDateISO,
+  localDateISO,
+  nextReleaseAt,
+  parseDateISO,
+  toPuzzleDateISO,
+} from '../../lib/timezone';
+
+const originalTZ = process.env.TZ;
+
+// Local-midnight rollover reads the process timezone, like a browser would
+function playIn(timeZone: string) {
+  process.env.TZ = timeZone;
+}
+
+// Assigning undefined would set TZ to the string "undefined"
+afterEach(() => {
+  if (originalTZ === undefined) {
+    delete process.env.TZ;
+  } else {
+    process.env.TZ = originalTZ;
+  }
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe('global rollover', () => {
+  it('moves to the next puzzle at midnight in New York on either side of the spring change', () => {
+    expect(toPuzzleDateISO(at('2025-03-09T04:59:00Z'), 'global')).toBe('2025-03-08');
+    expect(toPuzzleDateISO(at('2025-03-09T05:00:00Z'), 'global')).toBe('2025-03-09');
+    // Daylight time from here on: midnight is an hour earlier in UTC
+    expect(toPuzzleDateISO(at('2025-03-10T03:59:00Z'), 'global')).toBe('2025-03-09');
+    expect(toPuzzleDateISO(at('2025-03-10T04:00:00Z'), 'global')).toBe('2025-03-10');
+  });
+
+  it('moves to the next puzzle at midnight in New York on either side of the autumn change', () => {
+    expect(toPuzzleDateISO(at('2025-11-02T03:59:00Z'), 'global')).toBe('2025-11-01');
+    expect(toPuzzleDateISO(at('2025-11-02T04:00:00Z'), 'global')).toBe('2025-11-02');
+    // The 25-hour day still maps to one puzzle
+    expect(toPuzzleDateISO(at('2025-11-03T04:59:00Z'), 'global')).toBe('2025-11-02');
+    expect(toPuzzleDateISO(at('2025-11-03T05:00:00Z'), 'global')).toBe('2025-11-03');
+  });
+
+  it('does not depend on where the player is', () => {
+    playIn('Asia/Tokyo');
+    expect(toPuzzleDateISO(at('2025-06-01T20:00:00Z'), 'global')).toBe('2025-06-01');
+  });
+});
+
+describe('local rollover', () => {
+  it('gives players east of UTC their own calendar day', () => {
+    playIn('Pacific/Auckland');
+    const justAfterMidnight = at('2025-06-01T12:30:00Z'); // 00:30 on 2 June in Auckland
+    expect(toPuzzleDateISO(justAfterMidnight, 'local')).toBe('2025-06-02');
+    expect(toPuzzleDateISO(justAfterMidnight, 'global')).toBe('2025-06-01');
+  });
+
+  it('never puts a player past the latest released puzzle', () => {
+    for (const timeZone of ['Pacific/Kiritimati', 'Pacific/Auckland', 'Asia/Kolkata', 'America/New_York', 'Pacific/Pago_Pago']) {
+      playIn(timeZone);
+      for (const instant of ['2025-06-01T09:59:59Z', '2025-06-01T10:00:00Z', '2025-12-31T23:30:00Z']) {
+        expect(toPuzzleDateISO(at(instant), 'local') <= latestReleasedDateISO(at(instant))).toBe(true);
+      }
+    }
+  });
+
+  it('follows the local clock through a DST change', () => {
+    playIn('America/New_York');
+    expect(toPuzzleDateISO(at('2025-03-09T04:30:00Z'), 'local')).toBe('2025-03-08');
+    expect(toPuzzleDateISO(at('2025-03-10T04:30:00Z'), 'local')).toBe('2025-03-10');
+
+    playIn('Pacific/Auckland'); // daylight time ends on 6 April 2025
+    expect(toPuzzleDateISO(at('2025-04-05T11:30:00Z'), 'local')).toBe('2025-04-06');
+    expect(toPuzzleDateISO(at('2025-04-06T11:30:00Z'), 'local')).toBe('2025-04-06');
+    expect(toPuzzleDateISO(at('2025-04-06T12:30:00Z'), 'local')).toBe('2025-04-07');
+  });
+});
+
+describe('release gate', () => {
+  it('releases a day once it starts at UTC+14', () => {
+    expect(latestReleasedDateISO(at('2025-06-01T09:59:59Z'))).toBe('2025-06-01');
+    expect(latestReleasedDateISO(at('2025-06-01T10:00:00Z'))).toBe('2025-06-02');
+    expect(nextReleaseAt(at('2025-06-01T09:59:59Z')).toISOString()).toBe('2025-06-01T10:00:00.000Z');
+    expect(nextReleaseAt(at('2025-06-01T10:00:00Z')).toISOString()).toBe('2025-06-02T10:00:00.000Z');
+  });
+});
+
+describe('date arithmetic', () => {
+  it('keeps whole days across DST changes', () => {
+    playIn('America/New_York');
+    expect(addDays('2025-03-08', 1)).toBe('2025-03-09');
+    expect(addDays('2025-03-09', 1)).toBe('2025-03-10');
+    expect(addDays('2025-11-03', -1)).toBe('2025-11-02');
+    expect(daysBetween('2025-03-01', '2025-04-01')).toBe(31);
+    expect(daysBetween('2025-10-15', '2025-11-15')).toBe(31);
+  });
+
+  it('reads and writes calendar dates without a UTC shift east of UTC', () => {
+    playIn('Pacific/Auckland');
+    const newYear = parseDateISO('2025-01-01');
+    expect(newYear.toISOString().slice(0, 10)).toBe('2024-12-31');
+    expect(localDateISO(newYear)).toBe('2025-01-01');
+  });
+});
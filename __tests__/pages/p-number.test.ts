@@ -0,0 +1,20 @@
+import type { GetServerSidePropsContext } from 'next';
+import { describe, expect, it } from 'vitest';
+import { getServerSideProps } from '../../pages/p/[number]';
+import { puzzleNumberFor } from '../../lib/puzzleNumber';
+import { addDays, latestReleasedDateISO } from '../../lib/timezone';
+
+const open = (number: string) => getServerSideProps({ params: { number } } as unknown as GetServerSidePropsContext);
+
+describe('/p/[number]', () => {
+  it('redirects a released puzzle number to its archive day', async () => {
+    expect(await open('9')).toEqual({ redirect: { destination: '/?date=2025-09-02&archive=true', permanent: false } });
+  });
+
+  it('is not found for numbers past the latest released puzzle, however large', async () => {
+    const next = puzzleNumberFor(addDays(latestReleasedDateISO(), 1));
+    expect(await open(String(next))).toEqual({ notFound: true });
+    expect(await open('99999999999999')).toEqual({ notFound: true });
+    expect(await open('0')).toEqual({ notFound: true });
+  });
+});
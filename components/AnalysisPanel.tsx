@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { loadDictionary } from '../lib/gameLogic';
+import { analyzeGame, GuessAnalysis } from '../lib/solver';
+import { LetterState, WordLength } from '../lib/types';
+
+interface Props {
+  wordLength: WordLength;
+  attempts: string[];
+  evaluations: LetterState[][];
+}
+
+const formatBits = (bits: number) => bits.toFixed(1);
+
+// Row-by-row replay of a finished game (see analyzeGame in lib/solver.ts);
+// shown after the game and in the stats page's puzzle snapshot
+export default function AnalysisPanel({ wordLength, attempts, evaluations }: Props) {
+  const [rows, setRows] = useState<GuessAnalysis[] | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    setRows(null);
+    loadDictionary(wordLength)
+      .then(dictionary => {
+        if (alive) setRows(analyzeGame(attempts, evaluations, Array.from(dictionary)));
+      })
+      .catch(error => console.error('Error analyzing game:', error));
+    return () => {
+      alive = false;
+    };
+  }, [wordLength, attempts, evaluations]);
+
+  if (attempts.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-4 rounded-lg border border-gray-200 bg-white text-sm text-gray-700">
+      <div className="font-medium text-gray-900 mb-2">Analysis</div>
+      {!rows ? (
+        <p className="text-gray-500">Analyzing...</p>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-xs text-gray-500">
+              <th className="font-normal pb-1">Guess</th>
+              <th className="font-normal pb-1 text-right">Left</th>
+              <th className="font-normal pb-1 text-right">Bits</th>
+              <th className="font-normal pb-1 pl-3">Best</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i}>
+                <td className="font-mono">{row.guess}</td>
+                <td className="text-right">{row.candidatesAfter}</td>
+                <td className="text-right">{formatBits(row.bits)}</td>
+                <td className="pl-3 text-gray-500">
+                  {row.bestGuess === row.guess
+                    ? 'Your guess'
+                    : <><span className="font-mono">{row.bestGuess}</span> ({formatBits(row.bestBits)})</>}
+                  {row.bestIsHeuristic && '*'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="mt-2 text-xs text-gray-400">
+        Left: possible answers remaining. Bits: information gained; each bit halves the possibilities. Best: the guess expected to gain the most.
+        {rows?.some(row => row.bestIsHeuristic) && ' *Too many possibilities to compare every guess, so this is a quick pick by common letters and may not be the best.'}
+      </p>
+    </div>
+  );
+}
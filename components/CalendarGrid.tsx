@@ -0,0 +1,47 @@
+import React from "react";
+
+type CalendarGridProps = {
+  month: Date;                                  // any day in the month to show
+  renderDay: (day: Date) => React.ReactNode;    // one cell per day; leading blanks are handled here
+  labelClassName?: string;                      // size of the weekday labels, to line up with the cells
+};
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+// Month grid shared by the archive and /admin/schedule
+export default function CalendarGrid({ month, renderDay, labelClassName = "w-10 h-10" }: CalendarGridProps) {
+  const year = month.getFullYear();
+  const monthIndex = month.getMonth();
+  const firstDayOfWeek = new Date(year, monthIndex, 1).getDay();
+  const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+
+  const days: (Date | null)[] = [];
+  for (let i = 0; i < firstDayOfWeek; i++) {
+    days.push(null);
+  }
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(new Date(year, monthIndex, day));
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-7 gap-1 mb-2">
+        {DAY_LABELS.map((day, index) => (
+          <div key={`day-label-${index}`} className={`${labelClassName} flex items-center justify-center text-sm font-medium text-gray-500`}>
+            {day}
+          </div>
+        ))}
+      </div>
+      {/* Horizontal line under the days row */}
+      <div className="border-b border-gray-300 mb-2"></div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map((day, index) => (
+          <React.Fragment key={`${year}-${monthIndex}-${day ? day.getDate() : `blank-${index}`}`}>
+            {day ? renderDay(day) : <div />}
+          </React.Fragment>
+        ))}
+      </div>
+    </>
+  );
+}
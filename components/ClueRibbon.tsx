@@ -8,14 +8,15 @@ interface Props {
   letterRevealsRemaining?: number;
   letterRevealsAllowed?: boolean;
   onSettingsClick?: () => void;
-  variant?: 'clue' | 'error' | 'success' | 'solution';
+  variant?: 'clue' | 'verse' | 'error' | 'success' | 'solution';
+  verseReference?: string;        // the verse clue's reference, shown once the game is over
   guessesText?: string;
   revealClueEnabled?: boolean;
   wordLength?: 5 | 6 | 7;
   showClueByDefault?: boolean;
 }
 
-export default function ClueRibbon({ clue, targetWord, onRevealLetter, letterRevealsRemaining, letterRevealsAllowed = true, onSettingsClick, variant = 'clue', guessesText, revealClueEnabled, wordLength, showClueByDefault = false }: Props) {
+export default function ClueRibbon({ clue, targetWord, onRevealLetter, letterRevealsRemaining, letterRevealsAllowed = true, onSettingsClick, variant = 'clue', verseReference, guessesText, revealClueEnabled, wordLength, showClueByDefault = false }: Props) {
   
   // State for smooth fade transitions
   const [displayText, setDisplayText] = useState<string>('');
@@ -122,12 +123,24 @@ export default function ClueRibbon({ clue, targetWord, onRevealLetter, letterRev
                 <span className={`transition-all duration-500 ease-in-out whitespace-nowrap ${
                   clue.startsWith('Solved! Verseword #') ? 'animate-fade-in' : ''
                 }`}>{clue}</span>
+                {verseReference && (
+                  <span className="text-xs opacity-75 whitespace-nowrap">{verseReference} (KJV)</span>
+                )}
               </>
             ) : variant === 'error' ? (
               // Show error messages prominently
               <span className="whitespace-nowrap">
                 {clue}
               </span>
+            ) : variant === 'verse' ? (
+              // Verse-completion mode: the verse is the clue, so it is always shown and may wrap
+              <button
+                onClick={onSettingsClick}
+                type="button"
+                className="text-left py-1 max-w-xs sm:max-w-sm cursor-pointer animate-fade-in"
+              >
+                <span className="block leading-snug">{clue}</span>
+              </button>
             ) : (
               // Show text with smooth fade transitions
               <button
@@ -1,16 +1,36 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useRouter } from 'next/router';
 import { GAME_CONFIG, ANIMATION_CONFIG } from '../lib/config';
-import { GameState, Toast } from '../lib/types';
-import { loadDailyPuzzle, loadPuzzle } from '../lib/daily';
-import { getESTDateString } from '../lib/timezone';
+import { Difficulty, GameState, GuessResult, PracticePuzzle, RevealResult, Toast, VerseClue } from '../lib/types';
+import { loadDailyPuzzle, loadPuzzle, submitGuess, requestReveal } from '../lib/daily';
+import {
+  PRACTICE_KEY,
+  loadPracticePuzzle,
+  loadPracticeStore,
+  recentPracticeIds,
+  recordPracticeResult,
+  requestPracticeReveal,
+  savePracticeGame,
+  submitPracticeGuess,
+} from '../lib/practice';
+import { loadVerseClue } from '../lib/verse';
+import { getEditorKey } from '../lib/schedule';
+import { isOffline } from '../lib/offline';
+import { getPreferredWordLength, parseWordLength, randomWordLength } from '../lib/wordLength';
+import { RolloverMode, todayISO } from '../lib/timezone';
+import { puzzleNumberFor } from '../lib/puzzleNumber';
 import { Cross } from 'lucide-react';
+import { loadDictionary } from '../lib/gameLogic';
 import {
-  loadDictionary,
-  evaluateGuess,
-  validateGuess,
-} from '../lib/gameLogic';
-import { recordResult } from '../lib/stats';
+  EngineState,
+  reduce as reduceGame,
+  buildGuess,
+  checkGuess,
+  checkReveal,
+  isFinished,
+  keyboardLetterStates as engineKeyboardLetterStates,
+} from '../lib/engine';
+import { hardModeMarker, recordResult } from '../lib/stats';
 import { Brain, Trophy, EyeClosed } from 'lucide-react';
 import {
   WordLength,
@@ -19,12 +39,12 @@ import {
   upsertPuzzle,
   getPuzzle,
   makeId,
-  toDateISO,
   loadAll,
   saveAll,
   getLastPlayed,
   isCurrentlyPlaying,
   setIsPlaying,
+  StorageNamespace,
 } from '../lib/storage';
 
 
@@ -36,6 +56,8 @@ import Keyboard from './Keyboard';
 import SplashScreen from './SplashScreen';
 // ⬇️ add this (paths as in your project)
 import GuessInputRow, { type GuessInputRowHandle } from './GuessInputRow';
+import PlaytestReadout from './PlaytestReadout';
+import AnalysisPanel from './AnalysisPanel';
 
 type InputRowHandle = {
   /** Move focus to the first editable (non-locked, empty) cell */
@@ -45,10 +67,13 @@ type InputRowHandle = {
 };
 
 interface GameSettings {
+  wordLength: WordLength | null;
   maxGuesses: number;
   hideClue: boolean;
-  randomPuzzle: boolean;
   lockGreenMatchedLetters: boolean;
+  hardMode: boolean;
+  verseClues: boolean;
+  dailyRollover: RolloverMode;
 }
 
 // utils/isTouch.ts
@@ -63,30 +88,64 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
   refreshScriptureLink?: () => void;
 }) {
   const router = useRouter();
+
+  // Editor playtest of any scheduled day, released or not: an archive route
+  // plus &preview=true, unlocked by the key from /admin/schedule
+  const isPreview = router.query.archive === 'true' && router.query.preview === 'true';
+  const editorKey = isPreview ? getEditorKey() ?? undefined : undefined;
+
+  // Practice: curated words one after another, kept apart from the daily
+  // games and stats (see lib/practice.ts)
+  const isPractice = router.query.practice === 'true' && router.query.archive !== 'true';
+  // ?length=: which of the day's puzzles to play, or the practice word length
+  // (wins over the player's word length, see lib/wordLength.ts)
+  const routeLength = parseWordLength(router.query.length);
+
+  // Playtests never read or write the player's games (see StorageNamespace);
+  // every puzzle load and save below passes this
+  const storageNamespaceRef = useRef<StorageNamespace>('player');
+  storageNamespaceRef.current = isPreview ? 'preview' : 'player';
   
   // Add error boundary state
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string>('');
 
   const [settings, setSettings] = useState<GameSettings>({
+    wordLength: GAME_CONFIG.DEFAULT_WORD_LENGTH,
     maxGuesses: GAME_CONFIG.MAX_GUESSES,
     hideClue: GAME_CONFIG.HIDE_CLUE,
-    randomPuzzle: GAME_CONFIG.RANDOM_PUZZLE,
     lockGreenMatchedLetters: GAME_CONFIG.LOCK_GREEN_MATCHED_LETTERS,
+    hardMode: GAME_CONFIG.HARD_MODE,
+    verseClues: GAME_CONFIG.VERSE_CLUES,
+    dailyRollover: GAME_CONFIG.DAILY_ROLLOVER,
   });
 
   const [gameState, setGameState] = useState<GameState>({
-    wordLength: GAME_CONFIG.WORD_LENGTH,
+    wordLength: 5,
     secretWord: '',
     clue: undefined,
     attempts: [],
+    evaluations: [],
     lockedLetters: {},
     gameStatus: 'not_started',
     attemptIndex: 0,
     revealedLetters: new Set<number>(),
-    letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[GAME_CONFIG.WORD_LENGTH],
+    revealedLetterValues: {},
+    letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[5],
   });
 
+  // The loaded puzzle's date and answer hash; the answer itself stays on the server
+  const puzzleDateRef = useRef<string>('');
+  const answerHashRef = useRef<string>('');
+  // Signed guess and reveal counts, passed back and forth with the server (lib/gameToken.ts)
+  const gameTokenRef = useRef<string>('');
+  // The practice word being played, in place of a date (practice mode only)
+  const practicePuzzleRef = useRef<PracticePuzzle | null>(null);
+  const [puzzleReady, setPuzzleReady] = useState(false);
+  // Estimated difficulty, shown in the playtest readout
+  const [puzzleDifficulty, setPuzzleDifficulty] = useState<Difficulty | undefined>(undefined);
+  const submittingRef = useRef(false);
+
   const [currentGuess, setCurrentGuess] = useState<string[]>([]);
   const [dictionary, setDictionary] = useState<Set<string>>(new Set());
   const [toasts, setToasts] = useState<Toast[]>([]);
@@ -100,6 +159,8 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
   const [showLossAnimation, setShowLossAnimation] = useState(false);
   const [lossAnimationComplete, setLossAnimationComplete] = useState(false);
   const [clueError, setClueError] = useState<string | null>(null);
+  const [verseClue, setVerseClue] = useState<VerseClue | null>(null);
+  const [verseReference, setVerseReference] = useState<string | null>(null); // sent with the solution
   const [flippingRows, setFlippingRows] = useState<Set<number>>(new Set());
   const [showFadeInForInput, setShowFadeInForInput] = useState(false);
   const [fadeOutClearInput, setFadeOutClearInput] = useState(false);
@@ -162,76 +223,74 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     return gameState.revealedLetters.has(position);
   }, [gameState.revealedLetters, gameState.lockedLetters]);
 
+  // Snapshot of the current game as headless engine state, so the rules live in lib/engine
+  const toEngineState = useCallback((): EngineState => ({
+    ...gameState,
+    revealedLetters: new Set(
+      gameState.revealedLetters && typeof gameState.revealedLetters.has === 'function'
+        ? Array.from(gameState.revealedLetters)
+        : []
+    ),
+    currentGuess,
+    maxGuesses: settings.maxGuesses,
+    lockGreenMatchedLetters: settings.lockGreenMatchedLetters,
+    hardMode: gameState.hardMode ?? settings.hardMode,
+    error: null,
+  }), [gameState, currentGuess, settings.maxGuesses, settings.lockGreenMatchedLetters, settings.hardMode]);
+
   // Handle letter reveal - only allowed on initial submission
-  const handleRevealLetter = useCallback(() => {
-    if (gameState.letterRevealsRemaining <= 0 || (gameState.gameStatus !== 'playing' && gameState.gameStatus !== 'not_started')) {
-      return;
-    }
-    
-    // Only allow letter reveals on the initial submission (attemptIndex === 0)
-    if (gameState.attemptIndex > 0) {
+  const handleRevealLetter = useCallback(async () => {
+    const state = toEngineState();
+    if (state.letterRevealsRemaining <= 0 || !(puzzleDateRef.current || practicePuzzleRef.current)) return;
+
+    const error = checkReveal(state);
+    if (error) {
       setToasts(prev => [...prev, {
         id: Date.now().toString(),
-        message: 'Letter reveals are only available on the first guess!',
+        message: error.message,
         type: 'info'
       }]);
       return;
     }
 
-    // Find unrevealed positions (not already revealed or locked)
-    const unrevealedPositions = Array.from({ length: gameState.wordLength }, (_, i) => i)
-      .filter(i => !isPositionRevealed(i));
-
-    if (unrevealedPositions.length === 0) {
-      // No more letters to reveal
+    let revealed: RevealResult;
+    try {
+      revealed = practicePuzzleRef.current
+        ? await requestPracticeReveal(practicePuzzleRef.current.id, gameTokenRef.current)
+        : await requestReveal(puzzleDateRef.current, state.wordLength, gameTokenRef.current, editorKey);
+      gameTokenRef.current = revealed.gameToken;
+    } catch (err) {
+      console.error('Error revealing letter:', err);
       setToasts(prev => [...prev, {
         id: Date.now().toString(),
-        message: 'All available letters have been revealed!',
-        type: 'info'
+        message: isOffline() ? 'You are offline. Reveal a letter once you are connected.' : 'Could not reveal a letter. Try again.',
+        type: 'error'
       }]);
       return;
     }
 
-    // Prioritize vowels over consonants
-    const vowels = unrevealedPositions.filter(i => {
-      const letter = gameState.secretWord[i];
-      return /[AEIOU]/i.test(letter);
-    });
-    
-    const consonants = unrevealedPositions.filter(i => {
-      const letter = gameState.secretWord[i];
-      return !/[AEIOU]/i.test(letter);
-    });
-
-    // Choose position to reveal: vowels first, then consonants
-    let positionToReveal: number;
-    if (vowels.length > 0) {
-      // Reveal a random vowel
-      positionToReveal = vowels[Math.floor(Math.random() * vowels.length)];
-    } else {
-      // No vowels left, reveal a random consonant
-      positionToReveal = consonants[Math.floor(Math.random() * consonants.length)];
-    }
-    
+    const next = reduceGame(state, { type: 'REVEAL_LETTER', position: revealed.position, letter: revealed.letter });
     setGameState(prev => ({
       ...prev,
-      revealedLetters: new Set(
-        prev.revealedLetters && typeof prev.revealedLetters.has === 'function'
-          ? Array.from(prev.revealedLetters).concat(positionToReveal)
-          : [positionToReveal]
-      ),
-      letterRevealsRemaining: prev.letterRevealsRemaining - 1
+      revealedLetters: next.revealedLetters,
+      revealedLetterValues: next.revealedLetterValues,
+      letterRevealsRemaining: next.letterRevealsRemaining,
     }));
-
-    // Show success toast
-    // const letter = gameState.secretWord[positionToReveal];
-    // const isVowel = /[AEIOU]/i.test(letter);
-    // setToasts(prev => [...prev, {
-    //   id: Date.now().toString(),
-    //   message: `Revealed ${isVowel ? 'vowel' : 'consonant'} "${letter}" at position ${positionToReveal + 1}!`,
-    //   type: 'success'
-    // }]);
-  }, [gameState.letterRevealsRemaining, gameState.gameStatus, gameState.wordLength, isPositionRevealed, gameState.secretWord]);
+  }, [toEngineState, editorKey]);
+
+  // Verse-completion mode: show a KJV verse with the answer blanked instead of
+  // the short clue. Puzzles whose answer isn't in any verse keep the plain clue.
+  const refreshVerseClue = useCallback((dateISO: string, length: WordLength) => {
+    setVerseClue(null);
+    setVerseReference(null);
+    if (!settings.verseClues || settings.hideClue) return;
+
+    loadVerseClue(dateISO, length)
+      .then(verse => {
+        if (puzzleDateRef.current === verse.date) setVerseClue(verse);
+      })
+      .catch(error => console.error('Error loading verse clue:', error));
+  }, [settings.verseClues, settings.hideClue]);
 
   // Handle new game
   const handleNewGame = useCallback(async () => {
@@ -244,24 +303,31 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       setIsLoading(true);
       
       // Load new puzzle and dictionary
-      const puzzle = await loadDailyPuzzle(settings.randomPuzzle);
-      const dict = await loadDictionary(puzzle.word.length as 5 | 6 | 7);
+      const puzzle = await loadDailyPuzzle();
+      const dict = await loadDictionary(puzzle.len);
+      puzzleDateRef.current = puzzle.date;
+      answerHashRef.current = puzzle.answerHash;
+      gameTokenRef.current = puzzle.gameToken;
+      setPuzzleDifficulty(puzzle.difficulty);
+      refreshVerseClue(puzzle.date, puzzle.len);
       
       // Reset game state with puzzle-determined word length
       setGameState({
-        wordLength: puzzle.word.length as 5 | 6 | 7,
+        wordLength: puzzle.len,
         secretWord: '',
         clue: undefined,
         attempts: [],
+        evaluations: [],
         lockedLetters: {},
         gameStatus: 'not_started',
         attemptIndex: 0,
         revealedLetters: new Set<number>(),
-        letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzle.word.length as 5 | 6 | 7],
+        revealedLetterValues: {},
+        letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzle.len],
       });
       
       // Reset current guess
-      setCurrentGuess(new Array(puzzle.word.length).fill(''));
+      setCurrentGuess(new Array(puzzle.len).fill(''));
       
       // Reset UI states
       setIsShaking(false);
@@ -275,14 +341,15 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       // Update game state with new puzzle
       setGameState(prev => ({
         ...prev,
-        secretWord: puzzle.word,
         clue: !settings.hideClue ? puzzle.clue : undefined,
         lockedLetters,
         revealedLetters: new Set<number>(),
-        letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzle.word.length as 5 | 6 | 7],
+        revealedLetterValues: {},
+        letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzle.len],
       }));
       
       setDictionary(dict);
+      setPuzzleReady(true);
       setIsLoading(false);
       
       // Focus first empty cell
@@ -295,11 +362,86 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       addToast('Failed to start new game', 'error');
       setIsLoading(false);
     }
-  }, [settings.randomPuzzle, settings.hideClue]);
+  }, [settings.hideClue, refreshVerseClue]);
+
+  // Resume the saved practice game for this length, or draw a new word
+  // (`next` always draws one). `isCurrent` drops a load the route has moved on from.
+  const startPractice = useCallback(async (next: boolean, isCurrent: () => boolean = () => true) => {
+    try {
+      setIsLoading(true);
+      // null: mixed lengths, so any saved game resumes and each new word picks one
+      const length = routeLength ?? getPreferredWordLength();
+      const saved = loadPracticeStore().current;
+      // Games saved without a game token can't be scored any more; draw a new word
+      let game = !next && saved?.gameToken && (!length || saved.wordLength === length) ? saved : null;
+      if (!game) {
+        const puzzle = await loadPracticePuzzle(length ?? randomWordLength(), recentPracticeIds());
+        game = {
+          id: puzzle.id,
+          wordLength: puzzle.len,
+          clue: puzzle.clue,
+          answerHash: puzzle.answerHash,
+          gameToken: puzzle.gameToken,
+          attempts: [],
+          evaluations: [],
+          revealedLetters: {},
+          letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzle.len],
+          gameStatus: 'not_started',
+        };
+        savePracticeGame(game);
+      }
+      const dict = await loadDictionary(game.wordLength);
+      if (!isCurrent()) return;
+
+      practicePuzzleRef.current = { id: game.id, len: game.wordLength, clue: game.clue, answerHash: game.answerHash, gameToken: game.gameToken ?? '' };
+      puzzleDateRef.current = '';
+      answerHashRef.current = game.answerHash;
+      gameTokenRef.current = game.gameToken ?? '';
+      setPuzzleDifficulty(undefined);
+      setVerseClue(null);
+      setVerseReference(null);
+
+      setGameState({
+        wordLength: game.wordLength,
+        secretWord: game.solution ?? '',
+        clue: !settings.hideClue ? game.clue : undefined,
+        attempts: game.attempts,
+        evaluations: game.evaluations,
+        lockedLetters: {},
+        gameStatus: game.gameStatus,
+        attemptIndex: game.attempts.length,
+        revealedLetters: new Set(Object.keys(game.revealedLetters).map(Number)),
+        revealedLetterValues: game.revealedLetters,
+        letterRevealsRemaining: game.letterRevealsRemaining,
+        hardMode: game.attempts.length > 0 ? !!game.hardMode : undefined,
+      });
+      setCurrentGuess(game.solution ? game.solution.split('') : new Array(game.wordLength).fill(''));
+      setFlippingRows(new Set());
+      setShowWinAnimation(false);
+      setWinAnimationComplete(false);
+      setShowLossAnimation(false);
+      setLossAnimationComplete(false);
+      setShowFadeInForInput(false);
+      setFadeOutClearInput(false);
+      setPreviouslyRevealedPositions(new Set());
+      setShowClueByDefault(false);
+      setToasts([]);
+
+      setDictionary(dict);
+      setPuzzleReady(true);
+      setIsLoading(false);
+      setTimeout(() => queueFocusFirstEmpty(), 100);
+    } catch (error) {
+      console.error('Error loading practice word:', error);
+      addToast('Failed to load a practice word', 'error');
+      setIsLoading(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeLength, settings.hideClue]);
 
   // Handle win animation and letter flip
   useEffect(() => {
-    // Don't redirect for archive puzzles or random puzzles
+    // Don't redirect for archive puzzles or practice words
     const isArchivePuzzle = router.query.date && router.query.archive === 'true';
     
     // Check if this is a fresh win (not restored from localStorage)
@@ -307,7 +449,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     const puzzleCompletionKey = `verseword-puzzle-completed-${gameState.secretWord}-${router.query.date || 'today'}`;
     const isFreshWin = !localStorage.getItem(puzzleCompletionKey);
     
-    if (gameState.gameStatus === 'won' && !showWinAnimation && !settings.randomPuzzle && !isArchivePuzzle) {
+    if (gameState.gameStatus === 'won' && !showWinAnimation && !isPractice && !isArchivePuzzle) {
       setShowWinAnimation(true);
       
       // Only mark as completed for fresh wins to prevent redirect loops
@@ -392,13 +534,13 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
         }
       }, totalAnimationTime);
     }
-  }, [gameState.gameStatus, showWinAnimation, settings.randomPuzzle, router.query.date, router.query.archive, gameState.wordLength]);
+  }, [gameState.gameStatus, showWinAnimation, isPractice, router.query.date, router.query.archive, gameState.wordLength]);
 
   // Handle loss animation and letter flip
   useEffect(() => {
-    // Don't redirect for archive puzzles or random puzzles
+    // Don't redirect for archive puzzles or practice words
     const isArchivePuzzle = router.query.date && router.query.archive === 'true';
-    if (gameState.gameStatus === 'lost' && !showLossAnimation && !settings.randomPuzzle && !isArchivePuzzle) {
+    if (gameState.gameStatus === 'lost' && !showLossAnimation && !isPractice && !isArchivePuzzle) {
       setShowLossAnimation(true);
       
       // Prevent redirect loops by tracking completion per puzzle
@@ -445,13 +587,13 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
         }
       }, totalAnimationTime);
     }
-  }, [gameState.gameStatus, showLossAnimation, settings.randomPuzzle, router.query.date, router.query.archive, gameState.wordLength]);
+  }, [gameState.gameStatus, showLossAnimation, isPractice, router.query.date, router.query.archive, gameState.wordLength]);
 
   // Generate and share emoji grid
   const generateAndShareEmojiGrid = () => {
     // Temporarily allow sharing for all puzzles to test logging
     // const isArchivePuzzle = router.query.date && router.query.archive === 'true';
-    // if (settings.randomPuzzle || isArchivePuzzle) {
+    // if (isPractice || isArchivePuzzle) {
     //   setToasts(prev => [...prev, {
     //     id: Date.now().toString(),
     //       message: 'Sharing is only available for daily puzzles',
@@ -461,29 +603,18 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     // }
 
     // Calculate puzzle number based on the actual puzzle date, not current date
-    const startDate = new Date('2025-08-25');
-    let puzzleDate: Date;
-    
-    if (router.query.date && router.query.archive === 'true') {
-      // For archive puzzles, use the puzzle's date
-      const dateString = router.query.date as string;
-      const [year, month, day] = dateString.split('-').map(Number);
-      puzzleDate = new Date(year, month - 1, day);
-    } else {
-      // For daily puzzles, use current date
-      puzzleDate = new Date();
-    }
-    
-    const daysDiff = Math.floor((puzzleDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const puzzleNumber = daysDiff + 1;
+    const puzzleDate = router.query.date && router.query.archive === 'true'
+      ? router.query.date as string // archive puzzles use the puzzle's date
+      : todayISO();                 // daily puzzles use today under the player's rollover
+    const puzzleNumber = puzzleNumberFor(puzzleDate);
 
     // Generate emoji grid from game state
-    let emojiGrid = `Verseword #${puzzleNumber} ${gameState.attemptIndex}/${settings.maxGuesses}\nhttps://verseword.com\n`;
+    let emojiGrid = `Verseword #${puzzleNumber} ${gameState.attemptIndex}/${settings.maxGuesses}${hardModeMarker(gameState)}\nhttps://verseword.com\n`;
     
     // Add each submitted attempt as emoji rows (exclude the top input row)
     gameState.attempts.forEach((attempt, attemptIndex) => {
       let row = '';
-      const evaluations = evaluateGuess(attempt, gameState.secretWord);
+      const evaluations = gameState.evaluations[attemptIndex] || [];
             
       for (let i = 0; i < gameState.wordLength; i++) {
         const letter = attempt[i];
@@ -539,18 +670,15 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     if (savedSettings) {
       try {
         const parsed = JSON.parse(savedSettings);
-        // Ensure wordLength is properly typed
         const typedSettings = {
           ...parsed,
-          wordLength: Number(parsed.wordLength) as 5 | 6 | 7,
-          randomPuzzle: parsed.randomPuzzle ?? false
+          wordLength: getPreferredWordLength(),
+          hardMode: parsed.hardMode ?? false,
+          verseClues: parsed.verseClues ?? GAME_CONFIG.VERSE_CLUES,
+          dailyRollover: parsed.dailyRollover ?? GAME_CONFIG.DAILY_ROLLOVER,
         };
 
         setSettings(typedSettings);
-        // Update game state if word length changed
-        if (typedSettings.wordLength !== gameState.wordLength) {
-          setGameState(prev => ({ ...prev, wordLength: typedSettings.wordLength }));
-        }
       } catch (e) {
         console.error('Failed to parse saved settings:', e);
       }
@@ -563,14 +691,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
 
   const handleSettingsChange = useCallback((newSettings: GameSettings) => {
     setSettings(newSettings);
-    
-    // If random puzzle setting changed, clear saved state
-    if (newSettings.randomPuzzle !== settings.randomPuzzle) {
-      localStorage.removeItem('verseword-puzzle-state');
-    }
-    
-
-  }, [gameState.wordLength, settings.randomPuzzle]);
+  }, []);
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
@@ -638,6 +759,15 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
   // ===== Load daily puzzle + dictionary =====
   useEffect(() => {
     let alive = true;
+
+    if (isPractice) {
+      practicePuzzleRef.current = null;
+      startPractice(false, () => alive);
+      return () => {
+        alive = false;
+      };
+    }
+    practicePuzzleRef.current = null;
     
     (async () => {
       try {
@@ -657,19 +787,19 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
           const archiveDate = new Date(year, month - 1, day); // month is 0-indexed
 
           
-          puzzle = await loadPuzzle(archiveDate);
+          puzzle = await loadPuzzle(archiveDate, editorKey, routeLength ?? undefined);
           
           // Load dictionary for the puzzle's word length
-          dict = await loadDictionary(puzzle.word.length as 5 | 6 | 7);
+          dict = await loadDictionary(puzzle.len);
         } else {
-          puzzle = await loadDailyPuzzle(settings.randomPuzzle);
+          puzzle = await loadDailyPuzzle(routeLength ?? undefined, editorKey);
           
           // Load dictionary for the puzzle's word length
-          dict = await loadDictionary(puzzle.word.length as 5 | 6 | 7);
+          dict = await loadDictionary(puzzle.len);
         }
         
-        // Debug: Log the hidden word and clue
-        console.log('🎯 Hidden word:', puzzle.word);
+        // Debug: Log the puzzle and clue
+        console.log('🎯 Puzzle:', puzzle.date, puzzle.len);
         console.log('💡 Clue:', puzzle.clue);
         
         // No more automatic vowel reveal - all letters start hidden
@@ -677,35 +807,38 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
 
         if (!alive) return;
 
+        puzzleDateRef.current = puzzle.date;
+        answerHashRef.current = puzzle.answerHash;
+        gameTokenRef.current = puzzle.gameToken;
+        setPuzzleDifficulty(puzzle.difficulty);
+        refreshVerseClue(puzzle.date, puzzle.len);
+
         // Use the puzzle's actual word length
-        const puzzleWordLength = puzzle.word.length as 5 | 6 | 7;
+        const puzzleWordLength = puzzle.len;
 
         // After loading puzzle, check if we have saved state to restore
         let dateISO: string;
         let wordLength: WordLength;
         
         if (router.query.date && router.query.archive === 'true') {
-          // Parse the date string directly to avoid timezone issues
-          const dateString = router.query.date as string;
-          const [year, month, day] = dateString.split('-').map(Number);
-          const archiveDate = new Date(year, month - 1, day); // month is 0-indexed
-          dateISO = toDateISO(archiveDate);
+          // Archive URLs already carry the puzzle's YYYY-MM-DD
+          dateISO = router.query.date as string;
           wordLength = puzzleWordLength;
         } else {
-          dateISO = toDateISO(new Date());
+          dateISO = todayISO();
           wordLength = puzzleWordLength;
         }
         
         const puzzleId = makeId(dateISO, wordLength);
-        const savedState = getPuzzle(puzzleId);
+        const savedState = getPuzzle(puzzleId, storageNamespaceRef.current);
         
         // Only restore if we have meaningful saved state AND it's for the same puzzle
         if (savedState && (savedState.attempts.length > 0 || savedState.gameStatus !== 'playing' && savedState.gameStatus !== 'not_started')) {
           // CRITICAL: Only restore if the saved state matches the current puzzle
-          if (savedState.secretWord !== puzzle.word) {
+          if (savedState.answerHash && savedState.answerHash !== puzzle.answerHash) {
             console.warn('⚠️ Saved state mismatch - not restoring:', {
-              savedStateSecretWord: savedState.secretWord,
-              currentPuzzleWord: puzzle.word,
+              savedAnswerHash: savedState.answerHash,
+              currentAnswerHash: puzzle.answerHash,
               puzzleId,
               isArchivePuzzle: router.query.date && router.query.archive === 'true'
             });
@@ -713,11 +846,17 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
             setGameState((prev) => ({
               ...prev,
               wordLength: puzzleWordLength,
-              secretWord: puzzle.word,
+              secretWord: '',
               clue: !settings.hideClue ? puzzle.clue : undefined,
-                          lockedLetters,
-            revealedLetters: new Set<number>(),
-            letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzleWordLength],
+              attempts: [],
+              evaluations: [],
+              lockedLetters,
+              gameStatus: 'not_started',
+              attemptIndex: 0,
+              revealedLetters: new Set<number>(),
+              revealedLetterValues: {},
+              letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzleWordLength],
+              hardMode: undefined,
             }));
             
             // Mark this route as hydrated and track which puzzle the state belongs to
@@ -741,22 +880,28 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
             });
           }
           
+          // Carry on with the server's count of this game's guesses and reveals
+          if (savedState.gameToken) gameTokenRef.current = savedState.gameToken;
+
           const restoredGameState: GameState = {
             wordLength: savedState.wordLength,
-            secretWord: puzzle.word, // Use the actual puzzle word, not saved word
+            secretWord: savedState.solution ?? '', // Only known once the game is over
             clue: !settings.hideClue ? puzzle.clue : undefined,
             attempts: savedState.attempts,
+            evaluations: savedState.evaluations,
             lockedLetters: savedState.lockedLetters,
             gameStatus: savedState.gameStatus,
             attemptIndex: savedState.attemptIndex,
             revealedLetters: new Set(Object.keys(revealedLettersRecord).map(Number)),
+            revealedLetterValues: revealedLettersRecord,
             letterRevealsRemaining: savedState.letterRevealsRemaining,
+            hardMode: savedState.attempts.length > 0 ? !!savedState.hardMode : undefined,
           };
           
           setGameState(restoredGameState);
           
           // Set playing flag when restoring saved state
-          setIsPlaying();
+          if (!isPreview) setIsPlaying();
           
           // Mark this route as hydrated and track which puzzle the state belongs to
           activePuzzleIdRef.current = puzzleId;
@@ -787,11 +932,17 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
           setGameState((prev) => ({
             ...prev,
             wordLength: puzzleWordLength,
-            secretWord: puzzle.word,
+            secretWord: '',
             clue: !settings.hideClue ? puzzle.clue : undefined,
+            attempts: [],
+            evaluations: [],
             lockedLetters,
+            gameStatus: 'not_started',
+            attemptIndex: 0,
             revealedLetters: new Set<number>(),
+            revealedLetterValues: {},
             letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[puzzleWordLength],
+            hardMode: undefined,
           }));
           
           // Mark this route as hydrated and track which puzzle the state belongs to
@@ -814,6 +965,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
         }
         
         setDictionary(dict);
+        setPuzzleReady(true);
         
       } catch (error) {
         console.error('Error loading game data:', error);
@@ -831,11 +983,11 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       alive = false;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings.randomPuzzle, settings.hideClue, router.query.date, router.query.archive]);
+  }, [isPractice, startPractice, settings.hideClue, router.query.date, router.query.archive, router.query.preview, router.query.length, refreshVerseClue]);
 
   // ===== Keep currentGuess aligned when locked letters change =====
   useEffect(() => {
-    if (!gameState.secretWord) return;
+    if (!puzzleReady) return;
     if (Object.keys(gameState.lockedLetters).length === 0) return;
     // Skip if keyboard input is in progress to prevent interference
     if (keyboardInputInProgress.current) return;
@@ -849,7 +1001,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       return next;
     });
     // Don't focus here; we'll do it in targeted places
-  }, [gameState.lockedLetters, gameState.secretWord, gameState.wordLength]);
+  }, [gameState.lockedLetters, puzzleReady, gameState.wordLength]);
 
   // ===== Puzzle State Persistence =====
   const hasRestoredFromStorage = useRef(false);
@@ -867,7 +1019,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
   // Reset restoration flag when route changes (e.g., navigating between puzzles)
   useEffect(() => {
     hasRestoredFromStorage.current = false;
-  }, [router.query.date, router.query.archive, router.query.length]);
+  }, [router.query.date, router.query.archive, router.query.preview, router.query.length]);
 
   // Build the active "route puzzle" from the URL (archive) or today (daily)
   const isArchiveRoute =
@@ -879,11 +1031,8 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     if (!router.isReady) return null;
 
     if (isArchiveRoute) {
-      // Parse the date string directly to avoid timezone issues (same logic as puzzle loading)
-      const dateString = router.query.date as string;
-      const [year, month, day] = dateString.split('-').map(Number);
-      const archiveDate = new Date(year, month - 1, day); // month is 0-indexed
-      const dateISO = toDateISO(archiveDate);
+      // Archive URLs already carry the puzzle's YYYY-MM-DD (same as puzzle loading)
+      const dateISO = router.query.date as string;
       // For archived puzzles, use the word length from the loaded puzzle data
       // This will be set by the puzzle loading useEffect
       const wl = gameState.wordLength || Number(router.query.length) || 5; // Use game state first, then query param, then default
@@ -892,11 +1041,11 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       return result;
     }
 
-    const todayISO = toDateISO(new Date());
+    const today = todayISO();
     // For daily puzzles, use the word length from the loaded puzzle data
     // This will be set by the puzzle loading useEffect
     const wl = gameState.wordLength || 5; // Use current game state or default to 5
-    const result = { id: makeId(todayISO, wl as WordLength), dateISO: todayISO, wordLength: wl as WordLength, isArchive: false as const };
+    const result = { id: makeId(today, wl as WordLength), dateISO: today, wordLength: wl as WordLength, isArchive: false as const };
     console.log('[ROUTE PUZZLE] Daily route:', result, 'gameState.wordLength:', gameState.wordLength);
     return result;
   }, [router.isReady, router.query.archive, router.query.date, router.query.length, gameState.wordLength]);
@@ -935,6 +1084,8 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
   // Save puzzle state to localStorage
   useEffect(() => {
     if (!router.isReady || !routePuzzle) return;
+    // Practice games are saved separately (see the effect below)
+    if (isPractice) return;
 
     // Quick debug to confirm values line up while pressing Enter on archive puzzle
     console.log('[SAVE GUARDS]', {
@@ -951,10 +1102,6 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     if (!hydratedForRouteRef.current) return;
     if (activePuzzleIdRef.current !== routePuzzle.id) return;
 
-    // --- IMPORTANT: Don't block on randomPuzzle when saving archives or daily.
-    // If you still want the flag, gate only the DAILY case; archives should save.
-    // if (!routePuzzle.isArchive && settings.randomPuzzle) return;
-
     // Optional "expected secret" check should run only for DAILY, not ARCHIVE.
     if (!routePuzzle.isArchive && typeof getExpectedSecretSync === 'function') {
       const expected = getExpectedSecretSync(routePuzzle.dateISO, routePuzzle.wordLength);
@@ -977,7 +1124,8 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     // Convert revealedLetters Set -> Record
     const revealedLettersRecord: Record<number, string> = {};
     gameState.revealedLetters.forEach((pos) => {
-      if (gameState.secretWord[pos]) revealedLettersRecord[pos] = gameState.secretWord[pos];
+      const letter = gameState.revealedLetterValues[pos];
+      if (letter) revealedLettersRecord[pos] = letter;
     });
 
     // Normalize locked letters; if won, force full solution
@@ -995,8 +1143,11 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       id,                 // <--- use routePuzzle.id (e.g. "2025-08-25:5")
       dateISO,            // <--- use routePuzzle.dateISO
       wordLength,         // <--- use routePuzzle.wordLength
-      secretWord: gameState.secretWord,
       attempts: gameState.attempts,
+      evaluations: gameState.evaluations,
+      solution: gameState.secretWord || undefined,
+      answerHash: answerHashRef.current || undefined,
+      gameToken: gameTokenRef.current || undefined,
       lockedLetters: finalLocked,
       revealedLetters: revealedLettersRecord,
       letterRevealsRemaining: gameState.letterRevealsRemaining,
@@ -1004,6 +1155,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       attemptIndex: gameState.attemptIndex,
       currentGuess,
       completedAt: (gameState.gameStatus !== 'playing' && gameState.gameStatus !== 'not_started') ? new Date().toISOString() : undefined,
+      hardMode: gameState.hardMode,
 
       // animation flags you already store:
       showWinAnimation,
@@ -1015,20 +1167,24 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       previouslyRevealedPositions: Array.from(previouslyRevealedPositions),
     };
 
-    upsertPuzzle(puzzleState);
+    upsertPuzzle(puzzleState, storageNamespaceRef.current);
   }, [
     router.isReady,
+    isPractice,
     routePuzzle?.id,            // include the routed id so effect re-evaluates on route change
     routePuzzle?.dateISO,
     routePuzzle?.wordLength,
     // game progress deps:
     gameState.secretWord,
     gameState.attempts,
+    gameState.evaluations,
     gameState.attemptIndex,
     gameState.lockedLetters,
     gameState.revealedLetters,
+    gameState.revealedLetterValues,
     gameState.letterRevealsRemaining,
     gameState.gameStatus,
+    gameState.hardMode,
     // ui flags you persist:
     winAnimationComplete,
     showWinAnimation,
@@ -1040,6 +1196,44 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     currentGuess,
   ]);
 
+  // Save the practice game in progress so a reload picks it back up
+  useEffect(() => {
+    const puzzle = practicePuzzleRef.current;
+    if (!isPractice || !puzzleReady || !puzzle) return;
+
+    const revealedLetters: Record<number, string> = {};
+    gameState.revealedLetters.forEach((pos) => {
+      const letter = gameState.revealedLetterValues[pos];
+      if (letter) revealedLetters[pos] = letter;
+    });
+
+    savePracticeGame({
+      id: puzzle.id,
+      wordLength: puzzle.len,
+      clue: puzzle.clue,
+      answerHash: puzzle.answerHash,
+      gameToken: gameTokenRef.current || undefined,
+      attempts: gameState.attempts,
+      evaluations: gameState.evaluations,
+      revealedLetters,
+      letterRevealsRemaining: gameState.letterRevealsRemaining,
+      gameStatus: gameState.gameStatus,
+      solution: gameState.secretWord || undefined,
+      hardMode: gameState.hardMode,
+    });
+  }, [
+    isPractice,
+    puzzleReady,
+    gameState.attempts,
+    gameState.evaluations,
+    gameState.revealedLetters,
+    gameState.revealedLetterValues,
+    gameState.letterRevealsRemaining,
+    gameState.gameStatus,
+    gameState.secretWord,
+    gameState.hardMode,
+  ]);
+
   // Belt-and-suspenders: force one immediate save when a puzzle transitions to WON
   // Sometimes the state after a route switch doesn't change again post-win (no dependency tick).
   // This tiny effect guarantees one save on the status transition:
@@ -1073,28 +1267,25 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       let wordLength: WordLength;
       
       if (isArchivePuzzle) {
-        // Parse the date string directly to avoid timezone issues
-        const dateString = router.query.date as string;
-        const [year, month, day] = dateString.split('-').map(Number);
-        const archiveDate = new Date(year, month - 1, day); // month is 0-indexed
-        dateISO = toDateISO(archiveDate);
+        // Archive URLs already carry the puzzle's YYYY-MM-DD
+        dateISO = router.query.date as string;
         wordLength = (router.query.length ? parseInt(router.query.length as string) : gameState.wordLength) as WordLength;
       } else {
-        dateISO = toDateISO(new Date());
+        dateISO = todayISO();
         wordLength = gameState.wordLength;
       }
       
               const puzzleId = makeId(dateISO, wordLength);
-      const all = loadAll();
+      const all = loadAll(storageNamespaceRef.current);
       delete all[puzzleId];
-      saveAll(all);
+      saveAll(all, storageNamespaceRef.current);
       
       // Clear dynamic puzzle completion keys for this specific puzzle
       const puzzleCompletionKey = `verseword-puzzle-completed-${gameState.secretWord}-${dateISO}`;
       localStorage.removeItem(puzzleCompletionKey);
       
       // If this is the current puzzle, also clear the last played reference
-      if (puzzleId === getLastPlayed()) {
+      if (puzzleId === getLastPlayed(storageNamespaceRef.current)) {
         localStorage.removeItem('verseword:lastPlayed:v2');
       }
       
@@ -1108,11 +1299,14 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       // Instead of reloading, reset the game state directly
       setGameState(prev => ({
         ...prev,
+        secretWord: '',
         attempts: [],
+        evaluations: [],
         attemptIndex: 0,
         gameStatus: 'not_started',
         lockedLetters: {},
-        revealedLetters: new Set()
+        revealedLetters: new Set(),
+        revealedLetterValues: {}
       }));
       
       // Reset other state variables
@@ -1134,13 +1328,16 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
 
   // Clear ALL Verseword data and reset to factory defaults
   const clearAllVersewordData = useCallback(() => {
-    if (confirm('This will clear ALL Verseword data including stats, settings, and puzzle state. Are you sure?')) {
+    if (confirm('This will clear ALL Verseword data including stats, settings, and puzzle state. Use Export in Settings first if you want a backup. Are you sure?')) {
       // Clear from new storage system
       saveAll({});
       localStorage.removeItem('verseword:lastPlayed:v2');
       
       // Clear current stats
       localStorage.removeItem('verseword:stats:v1');
+
+      // Clear practice games and their stats
+      localStorage.removeItem(PRACTICE_KEY);
       
       // Clear current settings
       localStorage.removeItem('verseword-settings');
@@ -1164,11 +1361,15 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
               // Reset to factory defaults instead of reloading
         setGameState(prev => ({
           ...prev,
+          secretWord: '',
           attempts: [],
+          evaluations: [],
           attemptIndex: 0,
           gameStatus: 'not_started',
           lockedLetters: {},
-          revealedLetters: new Set()
+          revealedLetters: new Set(),
+          revealedLetterValues: {},
+          hardMode: undefined,
         }));
       
       // Reset other state variables
@@ -1183,10 +1384,13 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       
       // Reset settings to defaults
       setSettings({
+        wordLength: GAME_CONFIG.DEFAULT_WORD_LENGTH,
         maxGuesses: GAME_CONFIG.MAX_GUESSES,
         hideClue: GAME_CONFIG.HIDE_CLUE,
-        randomPuzzle: GAME_CONFIG.RANDOM_PUZZLE,
         lockGreenMatchedLetters: GAME_CONFIG.LOCK_GREEN_MATCHED_LETTERS,
+        hardMode: GAME_CONFIG.HARD_MODE,
+        verseClues: GAME_CONFIG.VERSE_CLUES,
+        dailyRollover: GAME_CONFIG.DAILY_ROLLOVER,
       });
       
       // Also reset the global settings in the parent component
@@ -1207,40 +1411,77 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     setToasts((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
-  // ===== Input row onChange -> source of truth for the active guess =====
+  // ===== Input row onChange -> typed into the engine one cell at a time =====
   const handleGuessChange = useCallback((letters: string[]) => {
     // Skip updating if keyboard input is in progress to prevent race condition
     if (keyboardInputInProgress.current) return;
-    setCurrentGuess(letters);
-  }, []);
+    setCurrentGuess((prev) => {
+      // Locked and revealed cells come back filled in; the engine ignores them
+      let state: EngineState = { ...toEngineState(), currentGuess: prev };
+      letters.forEach((letter, i) => {
+        if ((letter || '') === (state.currentGuess[i] || '')) return;
+        state = reduceGame(state, letter
+          ? { type: 'TYPE_LETTER', letter, index: i }
+          : { type: 'DELETE_LETTER', index: i });
+      });
+      return state.currentGuess;
+    });
+  }, [toEngineState]);
 
   // ===== Submit guess =====
-  const handleSubmit = useCallback(() => {
+  const handleSubmit = useCallback(async () => {
     if (gameState.gameStatus !== 'playing' && gameState.gameStatus !== 'not_started') return;
+    if (submittingRef.current || !(puzzleDateRef.current || practicePuzzleRef.current)) return;
 
-    // Build the complete guess mixing locked + current
-    const completeGuess = Array.from({ length: gameState.wordLength }, (_, i) =>
-      gameState.lockedLetters[i] ?? currentGuess[i] ?? ''
-    ).join('');
+    // Validate locally through the headless engine before asking the server to score it
+    const state = toEngineState();
+    const error = checkGuess(state, dictionary);
+
+    if (error) {
+      if (error.code === 'hard_mode') {
+        // Hard mode violations name the hint that was skipped
+        addToast(error.message, 'error');
+      } else {
+        setClueError(error.message);
+        setTimeout(() => setClueError(null), 1500); // Clear after 1.5 seconds
+      }
+
+      if (error.code === 'not_in_word_list' || error.code === 'hard_mode') {
+        // Shake animation to indicate invalid word
+        setIsShaking(true);
+        setTimeout(() => setIsShaking(false), 500);
+      }
 
-    if (!validateGuess(completeGuess, gameState.wordLength)) {
-      setClueError('Not enough letters');
-      setTimeout(() => setClueError(null), 1500); // Clear after 1.5 seconds
-      return;
-    }
-    if (!dictionary.has(completeGuess)) {
-      setClueError('Not in the valid word list!');
-      setTimeout(() => setClueError(null), 1500); // Clear after 1.5 seconds
-      
-      // Shake animation to indicate invalid word
-      setIsShaking(true);
-      setTimeout(() => setIsShaking(false), 500);
-      
       // Don't clear anything - preserve current guess including revealed letters
       // Just return to let user correct their input
       return;
     }
 
+    // The answer lives on the server; it scores the guess and only hands back
+    // the solution once the game is over
+    let result: GuessResult;
+    submittingRef.current = true;
+    try {
+      result = practicePuzzleRef.current
+        ? await submitPracticeGuess(practicePuzzleRef.current.id, buildGuess(state), gameTokenRef.current)
+        : await submitGuess(puzzleDateRef.current, buildGuess(state), gameTokenRef.current, editorKey);
+      gameTokenRef.current = result.gameToken;
+      if (result.verseReference) setVerseReference(result.verseReference);
+    } catch (err) {
+      console.error('Error checking guess:', err);
+      addToast(isOffline() ? 'You are offline. Your guess is kept - submit it once you are connected.' : 'Could not check your guess. Try again.', 'error');
+      return;
+    } finally {
+      submittingRef.current = false;
+    }
+
+    const next = reduceGame(state, {
+      type: 'SUBMIT',
+      dictionary,
+      evaluation: result.evaluation,
+      solution: result.solution,
+    });
+
     // Clear any previous error
     setClueError(null);
 
@@ -1249,71 +1490,35 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       setShowClueByDefault(false);
     }
 
-    // Only undo reveal behavior for VALID submissions if letter locking is disabled
-    if (!settings.lockGreenMatchedLetters) {
-      // console.log('UNDO: Remove from revealedLetters, unlock positions, clear postSubmitUnlockedPositions');
-      // UNDO: Remove from revealedLetters, unlock positions, clear postSubmitUnlockedPositions
-      setGameState(prev => ({
-        ...prev,
-        revealedLetters: new Set<number>(), // Clear revealed letters
-      }));
-      setPostSubmitUnlockedPositions(new Set()); // Clear unlocked positions
-    } else {
-      // Clear any previously set unlocked positions
-      setPostSubmitUnlockedPositions(new Set());
-    }
-    
-    const evaluation = evaluateGuess(completeGuess, gameState.secretWord);
-    const isWin = evaluation.every((s) => s === 'correct');
-
-    // Update locked letters for exact matches
-    const newLocked = { ...gameState.lockedLetters };
-    for (let i = 0; i < evaluation.length; i++) {
-      if (evaluation[i] === 'correct') newLocked[i] = completeGuess[i];
-    }
+    setPostSubmitUnlockedPositions(new Set());
 
-    // Update state (but delay gameStatus change for won/lost until after flip animation)
-    setGameState((prev) => {
-      const newAttempts = prev.attempts.length
-        ? [...prev.attempts, completeGuess]
-        : [completeGuess];
-      const nextAttemptIndex = prev.attemptIndex + 1;
-
-      // Only set status to 'playing' after first guess submission
-      // For won/lost games, keep current status until flip animation completes
-      let newStatus: GameState['gameStatus'];
-      if (isWin) {
-        newStatus = prev.gameStatus; // Keep current status, will update after animation
-      } else if (nextAttemptIndex >= settings.maxGuesses) {
-        newStatus = prev.gameStatus; // Keep current status, will update after animation
-      } else if (prev.gameStatus === 'not_started') {
-        // First guess submitted - now we're actively playing
-        newStatus = 'playing';
-      } else {
-        // Continue with current status (should be 'playing')
-        newStatus = prev.gameStatus;
-      }
-
-      return {
-        ...prev,
-        attempts: newAttempts,
-        attemptIndex: nextAttemptIndex,
-        gameStatus: newStatus,
-      };
-    });
-    
+    const isWin = next.gameStatus === 'won';
+    const isOver = isFinished(next);
 
+    // Render the engine's next state. Two parts wait for the flip animation
+    // below: the newly locked letters, and a won or lost status.
+    setGameState(prev => ({
+      ...prev,
+      secretWord: next.secretWord,
+      attempts: next.attempts,
+      evaluations: next.evaluations,
+      attemptIndex: next.attemptIndex,
+      gameStatus: isOver ? prev.gameStatus : next.gameStatus,
+      revealedLetters: next.revealedLetters,
+      revealedLetterValues: next.revealedLetterValues,
+      hardMode: next.hardMode,   // locked in by the first guess
+    }));
 
-    // Set playing flag on first guess to hide splash screen
-    if (gameState.attempts.length === 0) {
+    // Set playing flag on first guess to hide splash screen (not for playtests or practice)
+    if (gameState.attempts.length === 0 && !isPreview && !isPractice) {
       setIsPlaying();
     }
 
     // STEP 1: Simple input clearing - clear the input row immediately after submission
-    setCurrentGuess(new Array(gameState.wordLength).fill(''));
+    setCurrentGuess(new Array(next.wordLength).fill(''));
 
     // Mark this row for flip animation
-    const newRowIndex = gameState.attempts.length;
+    const newRowIndex = next.attempts.length - 1;
     setFlippingRows(prev => new Set([...Array.from(prev), newRowIndex]));
     
     // Keep the input row visible during flip animations
@@ -1321,43 +1526,41 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     
     // Clear the flip animation after all letters have flipped
     // Each tile takes TILE_FLIP_DURATION and tiles flip sequentially, so total time is (wordLength - 1) * TILE_FLIP_DURATION + TILE_FLIP_DURATION
-    const flipDuration = gameState.wordLength * ANIMATION_CONFIG.TILE_FLIP_DURATION;
+    const flipDuration = next.wordLength * ANIMATION_CONFIG.TILE_FLIP_DURATION;
     setTimeout(() => {
       // Only remove non-winning rows from flippingRows
       // Winning rows should stay visible with their final state
       if (!isWin) {
         setFlippingRows(prev => {
-          const next = new Set(Array.from(prev));
-          next.delete(newRowIndex);
-          return next;
+          const rows = new Set(Array.from(prev));
+          rows.delete(newRowIndex);
+          return rows;
         });
       }
       
-      // Now that flip animation is complete, set the locked letters and trigger fade-in
-      // Only lock green letters if the setting is enabled
-      const finalLockedLetters = settings.lockGreenMatchedLetters ? newLocked : {};
-      
+      // Now that flip animation is complete, show the engine's locked letters
+      // (none while letter locking is off, until the game is won)
       setGameState(prev => ({
         ...prev,
-        lockedLetters: finalLockedLetters,
+        lockedLetters: next.lockedLetters,
       }));
-      
+
       // Fade clue back in after flip animation completes (only if game is still playing)
-      if (!settings.hideClue && !isWin && gameState.attemptIndex + 1 < settings.maxGuesses) {
+      if (!settings.hideClue && !isOver) {
         setShowClueByDefault(true);
       }
-      
+
       // Now update game status to won/lost and save to localStorage (after flip animation)
-      if (isWin || gameState.attemptIndex + 1 >= settings.maxGuesses) {
+      if (isOver) {
         setGameState(prev => ({
           ...prev,
-          gameStatus: isWin ? 'won' : 'lost',
+          gameStatus: next.gameStatus,
         }));
         
         // Check if word exists in definitions for scripture link (only for daily puzzles)
         const isArchivePuzzle = router.query.date && router.query.archive === 'true';
-        if (!isArchivePuzzle && !settings.randomPuzzle) {
-          checkWordInDefinitions(gameState.secretWord);
+        if (!isArchivePuzzle && !isPractice) {
+          checkWordInDefinitions(next.secretWord);
           // Refresh scripture link in header
           if (refreshScriptureLink) {
             setTimeout(() => {
@@ -1368,21 +1571,25 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
         }
         
         // Save puzzle state to localStorage
-        const puzzleId = makeId(router.query.date as string || getESTDateString(), gameState.wordLength as 5 | 6 | 7);
+        const puzzleId = makeId(router.query.date as string || todayISO(), next.wordLength);
         const puzzleState: PuzzleStateV2 = {
           id: puzzleId,
-          dateISO: router.query.date as string || getESTDateString(),
-          wordLength: gameState.wordLength as 5 | 6 | 7,
-          secretWord: gameState.secretWord,
-          attempts: [...gameState.attempts, completeGuess],
+          dateISO: router.query.date as string || todayISO(),
+          wordLength: next.wordLength,
+          attempts: next.attempts,
+          evaluations: next.evaluations,
+          solution: next.secretWord,
+          answerHash: answerHashRef.current || undefined,
+          gameToken: gameTokenRef.current || undefined,
           lockedLetters: Object.fromEntries(
-            Object.entries(finalLockedLetters).map(([pos, letter]) => [Number(pos), letter || ''])
+            Object.entries(next.lockedLetters).map(([pos, letter]) => [Number(pos), letter || ''])
           ),
           revealedLetters: {},
-          letterRevealsRemaining: gameState.letterRevealsRemaining,
+          letterRevealsRemaining: next.letterRevealsRemaining,
           gameStatus: isWin ? 'won' : 'lost',
-          attemptIndex: gameState.attemptIndex + 1,
+          attemptIndex: next.attemptIndex,
           currentGuess: [],
+          hardMode: next.hardMode,
           showWinAnimation: isWin,
           winAnimationComplete: false,
           showLossAnimation: !isWin,
@@ -1391,14 +1598,28 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
           fadeOutClearInput: false,
           previouslyRevealedPositions: [],
         };
-        
-        upsertPuzzle(puzzleState);
+
+        // Practice games go to the practice history, never the daily store
+        const practicePuzzle = practicePuzzleRef.current;
+        if (practicePuzzle) {
+          recordPracticeResult({
+            id: practicePuzzle.id,
+            wordLength: practicePuzzle.len,
+            solution: next.secretWord,
+            won: isWin,
+            guesses: next.attemptIndex,
+            hardMode: next.hardMode,
+            completedAt: new Date().toISOString(),
+          });
+        } else {
+          upsertPuzzle(puzzleState, storageNamespaceRef.current);
+        }
       }
       
       // Only trigger fade-in for NEWLY revealed positions (and only if locking is enabled)
       const newlyRevealedPositions = new Set<number>();
       if (settings.lockGreenMatchedLetters) {
-        for (const [posStr, letter] of Object.entries(newLocked)) {
+        for (const [posStr, letter] of Object.entries(next.lockedLetters)) {
           const pos = Number(posStr);
           if (letter && !previouslyRevealedPositions.has(pos)) {
             newlyRevealedPositions.add(pos);
@@ -1454,42 +1675,44 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
       // TEMPORARILY DISABLED: The onFadeOutComplete callback will handle focus and state reset
     }, flipDuration);
 
-    // Record stats for completed game (only for daily puzzles, not archive or random)
+    // Record stats for completed game (only for daily puzzles, not archive or practice)
     const isArchivePuzzle = router.query.date && router.query.archive === 'true';
-    if (!isArchivePuzzle) {
-      const todayISO = getESTDateString();
+    if (isOver && !isArchivePuzzle && !isPractice) {
       recordResult(
         {
-          dateISO: todayISO,
-          wordLength: GAME_CONFIG.WORD_LENGTH as 5 | 6 | 7,
+          dateISO: todayISO(),
+          wordLength: next.wordLength,
           won: isWin,
-          guesses: isWin ? (gameState.attemptIndex + 1) : settings.maxGuesses,
-          solution: gameState.secretWord,
+          guesses: isWin ? next.attemptIndex : next.maxGuesses,
+          solution: next.secretWord,
           mode: {
             hideClue: GAME_CONFIG.HIDE_CLUE,
-            randomPuzzle: settings.randomPuzzle,
           },
+          hardMode: next.hardMode,
         },
-        settings.maxGuesses
+        next.maxGuesses
       );
     }
 
     // Don't focus immediately - wait for the flip animation to complete
     // Focus will be handled after the flip animation finishes
     }, [
+    toEngineState,
     gameState.gameStatus,
     gameState.wordLength,
     gameState.lockedLetters,
-    gameState.secretWord,
     currentGuess,
     dictionary,
     addToast,
     settings.maxGuesses,
-    settings.randomPuzzle,
     router.query.date,
     router.query.archive,
     settings.lockGreenMatchedLetters,
+    settings.hardMode,
     previouslyRevealedPositions,
+    isPreview,
+    isPractice,
+    editorKey,
   ]);
 
   // ===== Global Enter handler =====
@@ -1518,159 +1741,65 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
     return -1; // No more editable cells
   }, [gameState.wordLength, gameState.lockedLetters]);
 
-  const findFirstEditableIndex = useCallback(() => {
-    // Find first editable cell
-    for (let i = 0; i < gameState.wordLength; i++) {
-      const isLocked = gameState.lockedLetters[i];
-      
-      // Only skip locked letters for focus - revealed letters are editable
-      if (!isLocked) {
-        return i;
-      }
-    }
-    return -1; // No editable cells
-  }, [gameState.wordLength, gameState.lockedLetters]);
+  // The engine picks the cell: first empty editable one for a letter, last
+  // filled editable one for backspace. Returns that cell, or -1 if nothing changed.
+  const applyKeyboardInput = useCallback((action: { type: 'TYPE_LETTER'; letter: string } | { type: 'DELETE_LETTER' }) => {
+    if (gameState.gameStatus !== 'playing' && gameState.gameStatus !== 'not_started') return -1;
 
-  const findFirstEmptyEditableIndex = useCallback(() => {
-    // Find first editable cell that is empty
-    for (let i = 0; i < gameState.wordLength; i++) {
-      const isLocked = gameState.lockedLetters[i];
-      
-      // Only skip locked letters for focus - revealed letters are editable
-      if (!isLocked && !currentGuess[i]) {
-        return i;
-      }
-    }
-    // If no empty editable cells, return first editable cell
-    return findFirstEditableIndex();
-  }, [currentGuess, gameState.wordLength, gameState.lockedLetters, findFirstEditableIndex]);
+    const state = toEngineState();
+    const next = reduceGame(state, action);
+    const changed = next.currentGuess.findIndex((letter, i) => letter !== state.currentGuess[i]);
+    if (changed < 0) return -1;
+
+    // Set flag to prevent input row onChange interference
+    keyboardInputInProgress.current = true;
+    setCurrentGuess(next.currentGuess);
+
+    // Clear flag after state update
+    setTimeout(() => {
+      keyboardInputInProgress.current = false;
+    }, 0);
+    return changed;
+  }, [gameState.gameStatus, toEngineState]);
 
   const handleKeyboardKeyPress = useCallback(
     (key: string) => {
-      
-      if (gameState.gameStatus !== 'playing' && gameState.gameStatus !== 'not_started') return;
-      
-      const i = findFirstEmptyEditableIndex();
-      
-      if (i >= 0) {
-        // Set flag to prevent input row onChange interference
-        keyboardInputInProgress.current = true;
-        
-        setCurrentGuess((prev) => {
-          const next = [...prev];
-          next[i] = key;
+      const i = applyKeyboardInput({ type: 'TYPE_LETTER', letter: key });
+      if (i < 0) return;
 
-          return next;
-        });
-        
-        // Clear flag after state update
-        setTimeout(() => {
-          keyboardInputInProgress.current = false;
-        }, 0);
-        
-        // Advance to next editable cell
-        setTimeout(() => {
-          const nextIndex = findNextEditableIndex(i);
+      // Advance to next editable cell
+      setTimeout(() => {
+        const nextIndex = findNextEditableIndex(i);
 
-          if (nextIndex >= 0) {
-            queueFocusSpecificIndex(nextIndex);
-          }
-        }, 50);
-      }
+        if (nextIndex >= 0) {
+          queueFocusSpecificIndex(nextIndex);
+        }
+      }, 50);
     },
-    [gameState.gameStatus, findFirstEmptyEditableIndex, findNextEditableIndex, currentGuess, gameState.lockedLetters]
+    [applyKeyboardInput, findNextEditableIndex]
   );
 
   const handleKeyboardBackspace = useCallback(() => {
-    if (gameState.gameStatus !== 'playing' && gameState.gameStatus !== 'not_started') return;
-    
-    // Find last filled editable cell, skipping over locked letters only
-    let i = -1;
-    for (let j = currentGuess.length - 1; j >= 0; j--) {
-      const isLocked = gameState.lockedLetters[j];
-      const hasContent = currentGuess[j];
-      
-      // Only skip locked letters for backspace - revealed letters are editable
-      if (isLocked) {
-        continue; // Skip to next position
-      }
-      
-      // Found an editable position with content
-      if (hasContent) {
-        i = j;
-        break;
-      }
-    }
-    
-    if (i >= 0) {
-      // Set flag to prevent input row onChange interference
-      keyboardInputInProgress.current = true;
-      
-      setCurrentGuess((prev) => {
-        const next = [...prev];
-        next[i] = '';
-        return next;
-      });
-      
-      // Clear flag after state update
-      setTimeout(() => {
-        keyboardInputInProgress.current = false;
-      }, 0);
-      
-      // Keep focus on the cell where deletion occurred
-      setTimeout(() => {
-        queueFocusSpecificIndex(i);
-      }, 50);
-    }
-  }, [gameState.gameStatus, currentGuess, gameState.lockedLetters]);
+    const i = applyKeyboardInput({ type: 'DELETE_LETTER' });
+    if (i < 0) return;
+
+    // Keep focus on the cell where deletion occurred
+    setTimeout(() => {
+      queueFocusSpecificIndex(i);
+    }, 50);
+  }, [applyKeyboardInput]);
 
   // ===== Memoized keyboard letter states =====
-  const keyboardLetterStates = useMemo(() => {
-    const states: Record<string, 'correct' | 'present' | 'absent'> = {};
-    
-    // Include initially revealed letters (locked letters) as correct
-    for (const [indexStr, letter] of Object.entries(gameState.lockedLetters)) {
-      if (letter) {
-        states[letter] = 'correct';
-      }
-    }
-    
-    // Include letters revealed by lifeline as correct (these should never be overridden)
-    for (const index of Array.from(gameState.revealedLetters)) {
-      const letter = gameState.secretWord[index];
-      if (letter) {
-        states[letter] = 'correct';
-      }
-    }
-    
-    // Include letters from previous attempts (but don't override 'correct' states)
-    for (const attempt of gameState.attempts) {
-      const evaln = evaluateGuess(attempt, gameState.secretWord);
-      for (let i = 0; i < attempt.length; i++) {
-        const L = attempt[i];
-        const s = evaln[i];
-        // Only set state if it's not already 'correct' (preserving revealed letters)
-        if (s === 'correct' && states[L] !== 'correct') {
-          states[L] = 'correct';
-        } else if (s === 'present' && states[L] !== 'correct') {
-          states[L] = 'present';
-        } else if (s === 'absent' && !states[L]) {
-          states[L] = 'absent';
-        }
-      }
-    }
-    return states;
-  }, [gameState.attempts, gameState.secretWord, gameState.lockedLetters, gameState.revealedLetters]);
+  const keyboardLetterStates = useMemo(
+    () => engineKeyboardLetterStates(gameState),
+    [gameState]
+  );
 
   // ===== Memoize row evaluations so we don't recompute every render =====
   const historyEvaluations = useMemo(() => {
-    // Only compute evaluations if we have a complete game state
-    if (!gameState.secretWord || gameState.attempts.length === 0) {
-      return [];
-    }
-    
-    return gameState.attempts.map((attempt) => evaluateGuess(attempt, gameState.secretWord));
-  }, [gameState.attempts, gameState.secretWord, gameState.gameStatus]);
+    // Rows are scored by the server as they are submitted
+    return gameState.attempts.map((_, i) => gameState.evaluations[i] || []);
+  }, [gameState.attempts, gameState.evaluations]);
 
   // ===== Focus helpers =====
   function queueFocusFirstEmpty() {
@@ -1737,11 +1866,11 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
   // Focus at game start (when loading finishes)
   useEffect(() => {
     // Don't focus for won/lost games
-    if (!isLoading && gameState.secretWord && gameState.gameStatus !== 'won' && gameState.gameStatus !== 'lost') {
+    if (!isLoading && puzzleReady && gameState.gameStatus !== 'won' && gameState.gameStatus !== 'lost') {
       queueFocusFirstEmpty();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isLoading, gameState.secretWord, gameState.lockedLetters, gameState.gameStatus]);
+  }, [isLoading, puzzleReady, gameState.lockedLetters, gameState.gameStatus]);
 
   // Error boundary effect
   useEffect(() => {
@@ -1829,31 +1958,22 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
         {/* Clue Ribbon - Handles all message types */}
         <ClueRibbon 
           clue={(() => {
-            if (gameState.gameStatus === 'lost' && lossAnimationComplete) {
+            if (gameState.gameStatus === 'lost' && (lossAnimationComplete || isPractice)) {
               return `Loss: ${gameState.secretWord}`;
+            } else if (gameState.gameStatus === 'won' && isPractice) {
+              return `Solved! ${gameState.secretWord} ${gameState.attempts.length}/${settings.maxGuesses}${hardModeMarker(gameState)}`;
             } else if (gameState.gameStatus === 'won') {
               // Show win message when game is won (either after animation or when restored from localStorage)
               // Calculate puzzle number based on the actual puzzle date, not current date
-              const startDate = new Date('2025-08-25');
-              let puzzleDate: Date;
-              
-              if (router.query.date && router.query.archive === 'true') {
-                // For archive puzzles, use the puzzle's date
-                const dateString = router.query.date as string;
-                const [year, month, day] = dateString.split('-').map(Number);
-                puzzleDate = new Date(year, month - 1, day);
-              } else {
-                // For daily puzzles, use current date
-                puzzleDate = new Date();
-              }
-              
-              const daysDiff = Math.floor((puzzleDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-              const puzzleNumber = daysDiff + 1;
-              return `Solved! Verseword #${puzzleNumber} ${gameState.attempts.length}/${settings.maxGuesses}`;
+              const puzzleDate = router.query.date && router.query.archive === 'true'
+                ? router.query.date as string // archive puzzles use the puzzle's date
+                : todayISO();                 // daily puzzles use today under the player's rollover
+              const puzzleNumber = puzzleNumberFor(puzzleDate);
+              return `Solved! Verseword #${puzzleNumber} ${gameState.attempts.length}/${settings.maxGuesses}${hardModeMarker(gameState)}`;
             } else if (clueError) {
               return clueError;
             } else {
-              return gameState.clue || '';
+              return verseClue?.text || gameState.clue || '';
             }
           })()}
           targetWord={debugMode ? gameState.secretWord : undefined}
@@ -1868,7 +1988,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
               
               if (currentPuzzleId) {
                 try {
-                  const currentPuzzle = getPuzzle(currentPuzzleId as any);
+                  const currentPuzzle = getPuzzle(currentPuzzleId as any, storageNamespaceRef.current);
                   // Only consider it in progress if actually playing, not just started
                   currentPuzzleInProgress = currentPuzzle?.gameStatus === 'playing';
                 } catch (error) {
@@ -1880,11 +2000,13 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
             }
           }}
           variant={(() => {
-            if (gameState.gameStatus === 'lost' && lossAnimationComplete) return 'solution';
+            if (gameState.gameStatus === 'lost' && (lossAnimationComplete || isPractice)) return 'solution';
             if (gameState.gameStatus === 'won') return 'success';
             if (clueError) return 'error'; // Return 'error' variant for different styling
+            if (verseClue) return 'verse';
             return 'clue';
           })()}
+          verseReference={(verseClue || isPractice) && verseReference ? verseReference : undefined}
           guessesText={(gameState.gameStatus === 'playing' || gameState.gameStatus === 'not_started') ? (
             gameState.attemptIndex === 0 
               ? `Guess the word in ${attemptsLeft} tries`
@@ -1971,9 +2093,9 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
                     if (isPositionRevealed(i)) {
                       // If letter locking is disabled AND we've made at least one guess, keep the letter content but styling will be removed
                       if (!settings.lockGreenMatchedLetters && gameState.attemptIndex > 0) {
-                        return gameState.secretWord[i]; // Keep the letter content
+                        return gameState.revealedLetterValues[i] ?? ''; // Keep the letter content
                       }
-                      return gameState.secretWord[i];
+                      return gameState.revealedLetterValues[i] ?? '';
                     }
                     
                     // Priority 3: Show current guess
@@ -2070,6 +2192,39 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
           
 
 
+          {/* Playtest result for editors (preview mode only) */}
+          {isPreview && (gameState.gameStatus === 'won' || gameState.gameStatus === 'lost') && (
+            <PlaytestReadout
+              won={gameState.gameStatus === 'won'}
+              guesses={gameState.attempts.length}
+              maxGuesses={settings.maxGuesses}
+              revealsUsed={GAME_CONFIG.LETTER_REVEALS[gameState.wordLength] - gameState.letterRevealsRemaining}
+              estimated={puzzleDifficulty}
+              onPlayAgain={clearPuzzleState}
+            />
+          )}
+
+          {/* Practice: straight on to another word */}
+          {isPractice && (gameState.gameStatus === 'won' || gameState.gameStatus === 'lost') && (
+            <div className="text-center mb-4">
+              <button
+                onClick={() => startPractice(true)}
+                className="px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+              >
+                Next word
+              </button>
+            </div>
+          )}
+
+          {/* How each guess narrowed things down */}
+          {(gameState.gameStatus === 'won' || gameState.gameStatus === 'lost') && (
+            <AnalysisPanel
+              wordLength={gameState.wordLength}
+              attempts={gameState.attempts}
+              evaluations={gameState.evaluations}
+            />
+          )}
+
           {/* Debug: Clear Puzzle State Button */}
           {debugMode && (
             <div className="text-center mb-4 space-x-2">
@@ -2112,7 +2267,7 @@ export default function Game({ openSettings, resetSettings, refreshScriptureLink
                 letterStates={keyboardLetterStates}
                 revealedLetters={new Set(
                   gameState.revealedLetters && typeof gameState.revealedLetters.has === 'function' 
-                    ? Array.from(gameState.revealedLetters).map(i => gameState.secretWord[i])
+                    ? Array.from(gameState.revealedLetters).map(i => gameState.revealedLetterValues[i])
                     : []
                 )}
               />
@@ -7,6 +7,9 @@ interface Props {
   onBackspace: () => void;
   letterStates: Record<string, 'correct' | 'present' | 'absent'>;
   revealedLetters?: Set<string>;
+  // Gospels mode: one set of states per board, drawn as quadrants of each key
+  // (board 1 top left, 2 top right, 3 bottom left, 4 bottom right)
+  boardLetterStates?: Record<string, 'correct' | 'present' | 'absent'>[];
 }
 
 export default function Keyboard({
@@ -15,6 +18,7 @@ export default function Keyboard({
   onBackspace,
   letterStates,
   revealedLetters,
+  boardLetterStates,
 }: Props) {
   const rows: string[][] = [
     ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
@@ -23,7 +27,7 @@ export default function Keyboard({
   ];
 
   const getKeyColor = (key: string) => {
-    if (key === 'ENTER' || key === 'BACKSPACE')
+    if (key === 'ENTER' || key === 'BACKSPACE' || boardLetterStates)
       return 'bg-gray-600 hover:bg-gray-500 active:bg-gray-700 !text-white';
     const state = letterStates[key];
     switch (state) {
@@ -67,8 +71,28 @@ export default function Keyboard({
     return base.join(' ');
   };
 
+  const getQuadrantColor = (state?: 'correct' | 'present' | 'absent') => {
+    switch (state) {
+      case 'correct':
+        return 'bg-green-600';
+      case 'present':
+        return 'bg-yellow-500';
+      case 'absent':
+        return 'bg-gray-300';
+      default:
+        return '';
+    }
+  };
+
+  // A letter is only struck through once every board has ruled it out
+  const isAbsent = (key: string) =>
+    boardLetterStates
+      ? boardLetterStates.length > 0 && boardLetterStates.every((states) => states[key] === 'absent')
+      : letterStates[key] === 'absent';
+
   const getButtonClasses = (key: string) =>
     [
+      'relative overflow-hidden',
       'w-full', // fill the grid cell / flex wrapper
       'px-1.5 py-4 md:px-3 md:py-4 rounded font-semibold transition-colors touch-manipulation',
       'text-center flex items-center justify-center',
@@ -79,10 +103,17 @@ export default function Keyboard({
   const getKeyContent = (key: string) => {
     if (key === 'BACKSPACE') return <Delete className="w-5 h-5" />;
     if (key === 'ENTER') return 'ENTER';
-    return letterStates[key] === 'absent' ? (
-      <span className="line-through-custom">{key}</span>
-    ) : (
-      key
+    const label = isAbsent(key) ? <span className="line-through-custom">{key}</span> : key;
+    if (!boardLetterStates) return label;
+    return (
+      <>
+        <span className="pointer-events-none absolute inset-0 grid grid-cols-2 grid-rows-2">
+          {boardLetterStates.map((states, i) => (
+            <span key={i} className={getQuadrantColor(states[key])} />
+          ))}
+        </span>
+        <span className="relative">{label}</span>
+      </>
     );
   };
 
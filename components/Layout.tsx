@@ -1,6 +1,6 @@
 import Link from "next/link";
 import { useRouter } from "next/router";
-import { BarChart3, CalendarDays, Settings, HelpCircle, Eye, Sparkles, Cross } from "lucide-react";
+import { BarChart3, BookOpen, CalendarDays, Settings, HelpCircle, Eye, Sparkles, Cross } from "lucide-react";
 import React, { useEffect, useState } from "react";
 import SettingsModal from "./Settings";
 import HowToPlayContent from "./HowToPlayContent";
@@ -83,11 +83,13 @@ export default function Layout({ children, title, narrow, onSettingsChange, curr
   const resetSettings = () => {
     // Reset to factory defaults
     const defaultSettings = {
-      wordLength: 5,
+      wordLength: null,
       maxGuesses: 6,
       hideClue: false,
-      randomPuzzle: false,
       lockGreenMatchedLetters: false,
+      hardMode: false,
+      verseClues: false,
+      dailyRollover: 'global',
     };
     
     // Update parent settings
@@ -207,6 +209,14 @@ export default function Layout({ children, title, narrow, onSettingsChange, curr
             >
               <CalendarDays className="w-5 h-5" />
             </button>
+            <button
+              aria-label="Dictionary"
+              className="p-2 rounded hover:bg-gray-100"
+              onClick={() => router.push("/dictionary")}
+              title="Easton's Bible Dictionary"
+            >
+              <BookOpen className="w-5 h-5" />
+            </button>
             <button
               aria-label="Settings"
               className="p-2 rounded hover:bg-gray-100"
@@ -0,0 +1,55 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { DIFFICULTY_LABELS } from '../lib/difficulty';
+import { Difficulty } from '../lib/types';
+
+interface Props {
+  won: boolean;
+  guesses: number;
+  maxGuesses: number;
+  revealsUsed: number;
+  estimated?: Difficulty;
+  onPlayAgain: () => void;
+}
+
+// How hard one playtest went: each letter reveal counts as a guess, a loss is off the scale
+function playedDifficulty({ won, guesses, maxGuesses, revealsUsed }: Omit<Props, 'estimated' | 'onPlayAgain'>): string {
+  if (!won) return 'Very hard';
+  const effort = guesses + revealsUsed;
+  if (effort <= 3) return 'Easy';
+  if (effort <= 4) return 'Medium';
+  if (effort < maxGuesses) return 'Hard';
+  return 'Very hard';
+}
+
+// Shown to editors at the end of a ?preview=true game; nothing here is saved to stats
+export default function PlaytestReadout({ won, guesses, maxGuesses, revealsUsed, estimated, onPlayAgain }: Props) {
+  return (
+    <div className="mb-4 p-4 rounded-lg border border-gray-200 bg-gray-50 text-sm text-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-900">Playtest</span>
+        <button
+          onClick={onPlayAgain}
+          className="flex items-center gap-1 text-gray-500 hover:text-gray-900"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Play again
+        </button>
+      </div>
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+        <dt className="text-gray-500">Result</dt>
+        <dd>{won ? `Solved in ${guesses}/${maxGuesses}` : `Not solved in ${maxGuesses}`}</dd>
+        <dt className="text-gray-500">Letter reveals</dt>
+        <dd>{revealsUsed}</dd>
+        <dt className="text-gray-500">Played as</dt>
+        <dd>{playedDifficulty({ won, guesses, maxGuesses, revealsUsed })}</dd>
+        {estimated && (
+          <>
+            <dt className="text-gray-500">Estimated</dt>
+            <dd>{DIFFICULTY_LABELS[estimated.level]} ({estimated.score}, solver {estimated.signals.solverGuesses})</dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+}
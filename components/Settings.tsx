@@ -1,10 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { OfflineCacheState, getOfflineCacheState, isOfflineSupported, refreshOfflineCache } from '../lib/offline';
+import { downloadSaveFile, importSaveData, parseSaveFile } from '../lib/saveData';
+import { RolloverMode } from '../lib/timezone';
+import { WordLength } from '../lib/types';
+import { WORD_LENGTHS, getPreferredWordLength } from '../lib/wordLength';
+import { attachStorageMirror, clearSyncCode, createSyncCode, getLastSync, getSyncCode, setSyncCode, syncNow } from '../lib/sync';
 
 interface SettingsConfig {
+  wordLength: WordLength | null;
   maxGuesses: number;
   hideClue: boolean;
-  randomPuzzle: boolean;
   lockGreenMatchedLetters: boolean;
+  hardMode: boolean;
+  verseClues: boolean;
+  dailyRollover: RolloverMode;
 }
 
 interface Props {
@@ -20,10 +29,13 @@ interface Props {
 export default function Settings({ isOpen, onClose, onSettingsChange, currentSettings, debugMode, openedFromClue = false, puzzleInProgress = false }: Props) {
   const [settings, setSettings] = useState<SettingsConfig>({
     ...currentSettings,
-    randomPuzzle: currentSettings.randomPuzzle ?? false,
+    wordLength: getPreferredWordLength(),
     // Auto-disable Hide Clue if opened from clue link
     hideClue: openedFromClue ? false : currentSettings.hideClue,
     lockGreenMatchedLetters: currentSettings.lockGreenMatchedLetters ?? true,
+    hardMode: currentSettings.hardMode ?? false,
+    verseClues: currentSettings.verseClues ?? false,
+    dailyRollover: currentSettings.dailyRollover ?? 'global',
   });
   
   // Track if this is the initial render to prevent auto-saving on open
@@ -36,10 +48,14 @@ export default function Settings({ isOpen, onClose, onSettingsChange, currentSet
     if (isOpen && currentSettings) {
       // Ensure all required properties exist with defaults
       const settingsWithDefaults: SettingsConfig = {
+        // Read from storage: the splash screen can change it while this is closed
+        wordLength: getPreferredWordLength(),
         maxGuesses: currentSettings.maxGuesses,
         hideClue: openedFromClue ? false : currentSettings.hideClue,
-        randomPuzzle: currentSettings.randomPuzzle ?? false,
         lockGreenMatchedLetters: currentSettings.lockGreenMatchedLetters ?? true,
+        hardMode: currentSettings.hardMode ?? false,
+        verseClues: currentSettings.verseClues ?? false,
+        dailyRollover: currentSettings.dailyRollover ?? 'global',
       };
       
       setSettings(settingsWithDefaults);
@@ -71,6 +87,120 @@ export default function Settings({ isOpen, onClose, onSettingsChange, currentSet
     }
   }, [isOpen]);
 
+  // Offline cache status, read from the service worker whenever the panel opens
+  const [offlineState, setOfflineState] = useState<OfflineCacheState | null>(null);
+  const [offlineBusy, setOfflineBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let alive = true;
+    getOfflineCacheState().then((state) => {
+      if (alive) setOfflineState(state);
+    });
+    return () => {
+      alive = false;
+    };
+  }, [isOpen]);
+
+  const handleRefreshOffline = async () => {
+    setOfflineBusy(true);
+    try {
+      setOfflineState(await refreshOfflineCache());
+    } finally {
+      setOfflineBusy(false);
+    }
+  };
+
+  // Save data export / import
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [dataMessage, setDataMessage] = useState<string | null>(null);
+
+  const handleExport = () => {
+    try {
+      downloadSaveFile();
+      setDataMessage('Save file downloaded.');
+    } catch (error) {
+      console.error('Error exporting save data:', error);
+      setDataMessage('Could not export your data.');
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+
+    try {
+      const saveFile = parseSaveFile(await file.text());
+      if (!confirm(`Import data exported on ${new Date(saveFile.exportedAt).toLocaleDateString()}? It will be merged with the games on this device.`)) {
+        return;
+      }
+
+      const summary = importSaveData(saveFile);
+      alert(
+        `Imported ${summary.added} new and ${summary.replaced} updated puzzles` +
+        (summary.kept ? `, kept ${summary.kept} from this device` : '') +
+        (summary.skipped ? `, skipped ${summary.skipped} invalid` : '') +
+        '. The page will now reload.'
+      );
+      window.location.reload();
+    } catch (error) {
+      console.error('Error importing save data:', error);
+      setDataMessage(error instanceof Error ? error.message : 'Could not import this file.');
+    }
+  };
+
+  // Cross-device sync
+  const [syncCode, setSyncCodeState] = useState<string | null>(null);
+  const [syncInput, setSyncInput] = useState('');
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const [syncBusy, setSyncBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSyncCodeState(getSyncCode());
+    const last = getLastSync();
+    setSyncMessage(last ? `Last synced ${new Date(last).toLocaleString()}` : null);
+  }, [isOpen]);
+
+  const runSync = async (reloadAfter: boolean) => {
+    setSyncBusy(true);
+    try {
+      attachStorageMirror();
+      await syncNow();
+      setSyncCodeState(getSyncCode());
+      setSyncMessage('Synced just now');
+      if (reloadAfter) window.location.reload();
+    } catch (error) {
+      console.error('Error syncing:', error);
+      setSyncMessage(error instanceof Error ? error.message : 'Sync failed');
+    } finally {
+      setSyncBusy(false);
+    }
+  };
+
+  const handleStartSync = () => {
+    createSyncCode();
+    runSync(false);
+  };
+
+  const handleJoinSync = () => {
+    try {
+      setSyncCode(syncInput);
+    } catch (error) {
+      setSyncMessage(error instanceof Error ? error.message : 'Invalid sync code');
+      return;
+    }
+    // Reload so the game picks up history from the other device
+    runSync(true);
+  };
+
+  const handleStopSync = () => {
+    clearSyncCode();
+    setSyncCodeState(null);
+    setSyncMessage('Sync turned off on this device');
+  };
+
   // Handle clicks outside the modal to close it
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (modalRef.current && !modalRef.current.contains(e.target as Node)) {
@@ -142,6 +272,29 @@ export default function Settings({ isOpen, onClose, onSettingsChange, currentSet
 
 
 
+          {/* Word Length Picker */}
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="block text-sm font-medium mb-1 text-gray-700">
+                Word Length (Current: {settings.wordLength ?? 'MIXED'})
+              </label>
+              <p className="text-xs text-gray-500">Letters in practice words and archive puzzles; the daily puzzle keeps its own</p>
+            </div>
+            <div className="flex flex-shrink-0 ml-4 rounded-md border border-gray-300 overflow-hidden">
+              {[null, ...WORD_LENGTHS].map(length => (
+                <button
+                  key={length ?? 'mixed'}
+                  onClick={() => setSettings(prev => ({ ...prev, wordLength: length }))}
+                  className={`px-2 py-1 text-xs font-medium ${
+                    settings.wordLength === length ? 'bg-green-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  {length ?? 'Mix'}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Reveal Clue Toggle */}
           <div className={`flex items-center justify-between ${openedFromClue ? 'rounded bg-green-600 p-4 text-white' : ''}`}>
             <div>
@@ -167,50 +320,222 @@ export default function Settings({ isOpen, onClose, onSettingsChange, currentSet
             </button>
           </div>
 
-          {/* Random Puzzle Toggle */}
-          {/* <div className="flex items-center justify-between">
+          {/* Lock Green Letters Toggle */}
+          <div className="flex items-center justify-between">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Random Puzzle
+              <label className={`block text-sm font-medium mb-1 ${puzzleInProgress ? 'text-gray-400' : 'text-gray-700'}`}>
+                Lock Green Letters (Current: {settings.lockGreenMatchedLetters ? 'ON' : 'OFF'})
               </label>
-              <p className="text-xs text-gray-500">New puzzle on each page load</p>
+              <p className={`text-xs ${puzzleInProgress ? 'text-gray-400' : 'text-gray-500'}`}>Green letter matches get locked into the input row</p>
             </div>
             <button
-              onClick={() => setSettings(prev => ({ ...prev, randomPuzzle: !prev.randomPuzzle }))}
+              onClick={() => setSettings(prev => ({ ...prev, lockGreenMatchedLetters: !prev.lockGreenMatchedLetters }))}
+              disabled={puzzleInProgress}
               className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                settings.randomPuzzle ? 'bg-green-600' : 'bg-gray-200'
-              }`}
+                settings.lockGreenMatchedLetters ? 'bg-green-600' : 'bg-gray-200'
+              } ${puzzleInProgress ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
               <span
                 className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                  settings.randomPuzzle ? 'translate-x-6' : 'translate-x-1'
+                  settings.lockGreenMatchedLetters ? 'translate-x-6' : 'translate-x-1'
                 }`}
               />
             </button>
-          </div> */}
+          </div>
 
           {/* Enable Hard Mode Toggle */}
           <div className="flex items-center justify-between">
             <div>
               <label className={`block text-sm font-medium mb-1 ${puzzleInProgress ? 'text-gray-400' : 'text-gray-700'}`}>
-                Enable Hard Mode (Current: {settings.lockGreenMatchedLetters ? 'ON' : 'OFF'})
+                Enable Hard Mode (Current: {settings.hardMode ? 'ON' : 'OFF'})
               </label>
-              <p className={`text-xs ${puzzleInProgress ? 'text-gray-400' : 'text-gray-500'}`}>Green letter matches get locked and must be used for each guess</p>
+              <p className={`text-xs ${puzzleInProgress ? 'text-gray-400' : 'text-gray-500'}`}>Any revealed hints must be used in subsequent guesses</p>
             </div>
             <button
-              onClick={() => setSettings(prev => ({ ...prev, lockGreenMatchedLetters: !prev.lockGreenMatchedLetters }))}
+              onClick={() => setSettings(prev => ({ ...prev, hardMode: !prev.hardMode }))}
               disabled={puzzleInProgress}
               className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                settings.lockGreenMatchedLetters ? 'bg-green-600' : 'bg-gray-200'
+                settings.hardMode ? 'bg-green-600' : 'bg-gray-200'
               } ${puzzleInProgress ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
               <span
                 className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                  settings.lockGreenMatchedLetters ? 'translate-x-6' : 'translate-x-1'
+                  settings.hardMode ? 'translate-x-6' : 'translate-x-1'
                 }`}
               />
             </button>
           </div>
+
+          {/* Verse Clues Toggle */}
+          <div className="flex items-center justify-between">
+            <div>
+              <label className={`block text-sm font-medium mb-1 ${puzzleInProgress ? 'text-gray-400' : 'text-gray-700'}`}>
+                Verse Clues (Current: {settings.verseClues ? 'ON' : 'OFF'})
+              </label>
+              <p className={`text-xs ${puzzleInProgress ? 'text-gray-400' : 'text-gray-500'}`}>Fill in the blank in a KJV verse instead of a short clue</p>
+            </div>
+            <button
+              onClick={() => setSettings(prev => ({ ...prev, verseClues: !prev.verseClues }))}
+              disabled={puzzleInProgress}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                settings.verseClues ? 'bg-green-600' : 'bg-gray-200'
+              } ${puzzleInProgress ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  settings.verseClues ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* New Puzzle At Local Midnight Toggle */}
+          <div className="flex items-center justify-between">
+            <div>
+              <label className={`block text-sm font-medium mb-1 ${puzzleInProgress ? 'text-gray-400' : 'text-gray-700'}`}>
+                New Puzzle At My Midnight (Current: {settings.dailyRollover === 'local' ? 'ON' : 'OFF'})
+              </label>
+              <p className={`text-xs ${puzzleInProgress ? 'text-gray-400' : 'text-gray-500'}`}>Off: everyone gets the next puzzle at midnight Eastern time</p>
+            </div>
+            <button
+              onClick={() => setSettings(prev => ({ ...prev, dailyRollover: prev.dailyRollover === 'local' ? 'global' : 'local' }))}
+              disabled={puzzleInProgress}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                settings.dailyRollover === 'local' ? 'bg-green-600' : 'bg-gray-200'
+              } ${puzzleInProgress ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  settings.dailyRollover === 'local' ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+
+          {/* Save Data */}
+          <div className="border-t border-gray-200 pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="block text-sm font-medium mb-1 text-gray-700">
+                  Your Data
+                </label>
+                <p className="text-xs text-gray-500">Move your puzzles, stats and settings to another device</p>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleExport}
+                  className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                >
+                  Import
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+              </div>
+            </div>
+            {dataMessage && <p className="text-xs text-gray-500 mt-2">{dataMessage}</p>}
+          </div>
+
+          {/* Sync Devices */}
+          <div className="border-t border-gray-200 pt-6">
+            <label className="block text-sm font-medium mb-1 text-gray-700">
+              Sync Devices (Current: {syncCode ? 'ON' : 'OFF'})
+            </label>
+            {syncCode ? (
+              <>
+                <p className="text-xs text-gray-500">
+                  Enter this code on your other devices: <span className="font-mono font-semibold text-gray-700">{syncCode}</span>
+                </p>
+                <div className="flex space-x-2 mt-2">
+                  <button
+                    onClick={() => runSync(false)}
+                    disabled={syncBusy}
+                    className={`px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 ${syncBusy ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    {syncBusy ? 'Syncing…' : 'Sync Now'}
+                  </button>
+                  <button
+                    onClick={handleStopSync}
+                    className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200"
+                  >
+                    Turn Off
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-xs text-gray-500">Keep your games and streak the same on your phone and computer</p>
+                <div className="flex space-x-2 mt-2">
+                  <button
+                    onClick={handleStartSync}
+                    disabled={syncBusy}
+                    className="px-3 py-1 text-xs font-medium text-white bg-green-600 rounded-md hover:bg-green-700"
+                  >
+                    Get Code
+                  </button>
+                  <input
+                    value={syncInput}
+                    onChange={(e) => setSyncInput(e.target.value)}
+                    placeholder="ABCD-EFGH-JKLM"
+                    className="flex-1 min-w-0 px-2 py-1 text-xs font-mono border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                  <button
+                    onClick={handleJoinSync}
+                    disabled={syncBusy || !syncInput}
+                    className={`px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 ${syncBusy || !syncInput ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    Use Code
+                  </button>
+                </div>
+              </>
+            )}
+            {syncMessage && <p className="text-xs text-gray-400 mt-2">{syncMessage}</p>}
+          </div>
+
+          {/* Offline Access */}
+          <div className="border-t border-gray-200 pt-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <label className="block text-sm font-medium mb-1 text-gray-700">
+                  Offline Access (Current: {offlineState ? 'READY' : 'OFF'})
+                </label>
+                <p className="text-xs text-gray-500">
+                  {!isOfflineSupported()
+                    ? 'This browser does not support offline access'
+                    : offlineState
+                      ? `Dictionaries: ${offlineState.dictionaries.length ? offlineState.dictionaries.join(', ') + ' letters' : 'none'} • Puzzles: ${offlineState.puzzleDays ? `${offlineState.puzzlesFrom} to ${offlineState.puzzlesTo}` : 'none'}`
+                      : 'Offline data is saved after your first visit'}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Today's board opens without a connection, but guesses and letter reveals need one
+                </p>
+                {offlineState?.updatedAt && (
+                  <p className="text-xs text-gray-400 mt-1">
+                    Updated {new Date(offlineState.updatedAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={handleRefreshOffline}
+                disabled={!offlineState || offlineBusy}
+                className={`px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 border border-gray-300 rounded-md hover:bg-gray-200 ${
+                  !offlineState || offlineBusy ? 'opacity-50 cursor-not-allowed' : ''
+                }`}
+              >
+                {offlineBusy ? 'Updating…' : 'Update'}
+              </button>
+            </div>
+          </div>
         </div>
 
         {/* Footer Actions */}
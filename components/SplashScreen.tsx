@@ -1,26 +1,48 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/router';
 import { Eye } from 'lucide-react';
+import { loadTodaysPuzzles } from '../lib/daily';
+import { todayPuzzleNumber } from '../lib/puzzleNumber';
+import { loadAll, PuzzleStateV2, todayId } from '../lib/storage';
+import { PuzzleListing, WordLength } from '../lib/types';
+import { WORD_LENGTHS, getPreferredWordLength, setPreferredWordLength } from '../lib/wordLength';
 
 interface SplashScreenProps {
-  onStartGame: () => void;
+  onStartGame: (length?: WordLength) => void;   // no length: the day's main puzzle
   onOpenSettings: () => void;
 }
 
-// Set your first puzzle date here (UTC): Aug 25, 2025
-const START_UTC = Date.UTC(2025, 7, 25); // months are 0-based (7 = August)
-
-function getTodayPuzzleNumber(): number {
-  const now = new Date();
-  const todayUTC = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
-  const days = Math.floor((todayUTC - START_UTC) / 86_400_000);
-  return days + 1; // #1 on start day
+// Card label for a saved game of today's puzzle
+function cardStatus(saved: PuzzleStateV2 | undefined): string {
+  if (!saved) return 'Play';
+  if (saved.gameStatus === 'won') return `Solved ${saved.attempts.length}/6`;
+  if (saved.gameStatus === 'lost') return 'X/6';
+  return saved.attempts.length > 0 ? 'Continue' : 'Play';
 }
 
 export default function SplashScreen({ onStartGame, onOpenSettings }: SplashScreenProps) {
   const router = useRouter();
-  const puzzleNumber = useMemo(getTodayPuzzleNumber, []);
+  const puzzleNumber = useMemo(todayPuzzleNumber, []);
+  // Only shown after the client-side view decision, so storage is available
+  const [wordLength, setWordLength] = useState<WordLength | null>(getPreferredWordLength);
+  // Today's puzzles, one card each; null until loaded
+  const [todaysPuzzles, setTodaysPuzzles] = useState<PuzzleListing[] | null>(null);
+  const saved = useMemo(() => loadAll('player'), []);
+
+  useEffect(() => {
+    loadTodaysPuzzles()
+      .then(puzzles => setTodaysPuzzles(puzzles.slice().sort((a, b) => a.len - b.len)))
+      .catch(error => {
+        console.error("Error loading today's puzzles:", error);
+        setTodaysPuzzles([]);
+      });
+  }, []);
+
+  const handleWordLength = (length: WordLength | null) => {
+    setWordLength(length);
+    setPreferredWordLength(length);
+  };
 
   return (
     // removed min-h-screen to avoid stacking overflow with layout header/footer
@@ -53,18 +75,58 @@ export default function SplashScreen({ onStartGame, onOpenSettings }: SplashScre
 
         {/* Action */}
         <div className="space-y-2">
-          {/* inline, green button */}
-          <button
-            onClick={onStartGame}
-            className="inline-flex items-center justify-center px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-500 transition-colors"
-          >
-            PLAY
-          </button>
+          {todaysPuzzles && todaysPuzzles.length > 0 ? (
+            // One card per length; state comes from the saved `date:len` games
+            <div className="flex justify-center gap-3">
+              {todaysPuzzles.map(puzzle => {
+                const game = saved[todayId(puzzle.len)];
+                const done = game?.gameStatus === 'won' || game?.gameStatus === 'lost';
+                return (
+                  <button
+                    key={puzzle.len}
+                    onClick={() => onStartGame(puzzle.len)}
+                    className={`w-24 px-3 py-3 rounded-lg font-medium transition-colors ${
+                      done ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-green-600 text-white hover:bg-green-500'
+                    }`}
+                  >
+                    <div className="text-lg">{puzzle.len} letters</div>
+                    <div className="text-xs opacity-90">{cardStatus(game)}</div>
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            // inline, green button (today's list is loading or unavailable offline)
+            <button
+              onClick={() => onStartGame()}
+              className="inline-flex items-center justify-center px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-500 transition-colors"
+            >
+              PLAY
+            </button>
+          )}
 
           {/* Puzzle number */}
           <div className="text-sm title">Puzzle #{puzzleNumber}</div>
         </div>
 
+        {/* Word length for practice and the archive (see lib/wordLength.ts) */}
+        <div className="mt-8">
+          <div className="text-sm title mb-2">Practice &amp; archive word length</div>
+          <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+            {[null, ...WORD_LENGTHS].map(length => (
+              <button
+                key={length ?? 'mixed'}
+                onClick={() => handleWordLength(length)}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${
+                  wordLength === length ? 'bg-green-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {length ? `${length} letters` : 'Mixed'}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Links */}
         <div className="mt-10 space-y-2">
           <div className="flex justify-center space-x-4">
@@ -77,6 +139,12 @@ export default function SplashScreen({ onStartGame, onOpenSettings }: SplashScre
             <button onClick={() => router.push('/archive')} className="hover:text-gray-700 transition-colors title">
               Archive
             </button>
+            <button onClick={() => router.push('/?practice=true')} className="hover:text-gray-700 transition-colors title">
+              Practice
+            </button>
+            <button onClick={() => router.push('/gospels')} className="hover:text-gray-700 transition-colors title">
+              Gospels
+            </button>
           </div>
         </div>
 
@@ -0,0 +1,38 @@
+/**
+ * Password check for the editor tools under /admin (see /api/admin/*).
+ * Only import this from API routes.
+ *
+ * The password comes from VERSEWORD_ADMIN_PASSWORD; without it the admin
+ * API answers 404, so a deploy that doesn't set it has no admin surface.
+ */
+
+import crypto from 'crypto';
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ADMIN_PASSWORD_HEADER } from './schedule';
+
+function matches(given: string, expected: string): boolean {
+  // Compare digests so the check takes the same time whatever the length
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+// For routes players use too, e.g. /api/guess letting an editor playtest an
+// unreleased day (see ?preview=true)
+export function hasEditorKey(req: NextApiRequest): boolean {
+  const expected = process.env.VERSEWORD_ADMIN_PASSWORD;
+  const given = req.headers[ADMIN_PASSWORD_HEADER];
+  return !!expected && typeof given === 'string' && matches(given, expected);
+}
+
+// Sends the error response and returns false unless the request carries the password
+export function requireEditor(req: NextApiRequest, res: NextApiResponse): boolean {
+  if (!process.env.VERSEWORD_ADMIN_PASSWORD) {
+    res.status(404).json({ error: 'Not found' });
+    return false;
+  }
+  if (!hasEditorKey(req)) {
+    res.status(401).json({ error: 'Wrong password.' });
+    return false;
+  }
+  return true;
+}
@@ -1,12 +1,15 @@
 export const GAME_CONFIG = {
-  WORD_LENGTH: 7 as 7 | 6 | 5,              // switch between 5, 6, or 7
+  DEFAULT_WORD_LENGTH: null as 5 | 6 | 7 | null, // practice/archive length until a player picks one (null = mixed)
   MAX_GUESSES: 6,
+  GOSPELS_MAX_GUESSES: 9,               // Gospels mode: four boards share these guesses
   REVEAL_VOWELS: false,                // show vowel positions up-front
   REVEAL_VOWEL_COUNT: 0,                // number of vowels to reveal (0..N)
   HIDE_CLUE: false,                      // hide clue ribbon (default disabled - clues shown)
-  RANDOM_PUZZLE: false,                 // random puzzle on each page load
   LOCK_GREEN_MATCHED_LETTERS: false,     // lock exact matched letters in input row
-  DAILY_PUZZLE_TIMEZONE: 'America/New_York', // date rollover
+  HARD_MODE: false,                     // revealed hints must be used in later guesses
+  VERSE_CLUES: false,                   // clue is a KJV verse with the answer blanked out
+  DAILY_PUZZLE_TIMEZONE: 'America/New_York', // date rollover for the 'global' mode
+  DAILY_ROLLOVER: 'global' as 'global' | 'local', // default: one rollover for everyone, or each player's midnight
   LETTER_REVEALS: {
     5: 1,                               // 1 reveals for 5-letter puzzles
     6: 2,                               // 2 reveals for 6-letter puzzles  
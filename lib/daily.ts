@@ -1,118 +1,110 @@
-import { DailyPuzzle, PuzzleData, CluesData } from './types';
-import { getESTDateString } from './timezone';
+import { ArchiveDay, DailyPuzzle, Difficulty, DifficultyLevel, GuessResult, PuzzleListing, RevealResult, WordLength } from './types';
+import { isToday, localDateISO, todayISO } from './timezone';
+import { ADMIN_PASSWORD_HEADER } from './schedule';
 
-// Helper function for case-agnostic clue lookup
-function findClue(clues: CluesData, word: string): string {
-  const normalizedWord = word.toUpperCase();
-  const matchingKey = Object.keys(clues).find(key => key.toUpperCase() === normalizedWord);
-  return matchingKey ? clues[matchingKey] : "I literally have no clue";
+// Shape returned by /api/puzzle/[date]
+interface PuzzleResponse {
+  date: string;
+  len: number;
+  clue: string;
+  puzzleNumber: number;
+  answerHash: string;
+  gameToken: string;
+  difficulty?: Difficulty;        // editors only
 }
 
-export async function loadDailyPuzzle(randomMode = false): Promise<DailyPuzzle> {
-  try {
-    
-    // Load puzzles from unified file
-    const puzzlesResponse = await fetch(`/api/puzzles${randomMode ? '?random=true' : ''}`);
+// Unreleased days need the editor key (preview mode, see lib/schedule.ts)
+const editorHeaders = (editorKey?: string): HeadersInit | undefined =>
+  editorKey ? { [ADMIN_PASSWORD_HEADER]: editorKey } : undefined;
 
-    if (!puzzlesResponse.ok) {
-      throw new Error('Failed to load puzzle data');
-    }
+// Fetch a single dated puzzle (the day's main one unless `length` is given);
+// the server refuses dates that haven't started yet
+async function fetchPuzzle(dateISO: string, length?: WordLength, editorKey?: string): Promise<DailyPuzzle> {
+  const query = length ? `?length=${length}` : '';
+  const response = await fetch(`/api/puzzle/${dateISO}${query}`, { headers: editorHeaders(editorKey) });
+  if (!response.ok) {
+    throw new Error(`No puzzle available for date ${dateISO}`);
+  }
 
-    const puzzles: PuzzleData[] = await puzzlesResponse.json();
+  const puzzle: PuzzleResponse = await response.json();
 
-    let puzzle: PuzzleData | undefined;
-    
-    if (randomMode) {
-      // Server already returned a random puzzle, just use the first (and only) one
-      puzzle = puzzles[0];
-    
-    } else {
-      // Normal date-based puzzle
-      // Use EST timezone for consistent daily puzzle rollover
-      const today = getESTDateString();
-      puzzle = puzzles.find(p => p.date === today);
-      if (!puzzle && puzzles.length > 0) {
-        puzzle = puzzles[0];
-      }
-      
-    }
+  return {
+    date: puzzle.date,
+    len: puzzle.len as WordLength,
+    clue: puzzle.clue,
+    isToday: isToday(puzzle.date),
+    puzzleNumber: puzzle.puzzleNumber,
+    answerHash: puzzle.answerHash,
+    gameToken: puzzle.gameToken,
+    difficulty: puzzle.difficulty,
+  };
+}
 
-    if (!puzzle) {
-      throw new Error('No puzzle data available');
-    }
+// Word lengths and estimated difficulty of the released puzzles from `from`
+// to `to`, by date (archive calendar)
+export async function loadArchiveDays(from: string, to: string): Promise<Record<string, ArchiveDay>> {
+  const params = new URLSearchParams({ from, to, difficulty: 'true' });
+  const response = await fetch(`/api/puzzles?${params.toString()}`);
+  // 404 means nothing is released in the range yet
+  if (response.status === 404) return {};
+  if (!response.ok) {
+    throw new Error(`Failed to load archive days: ${response.status}`);
+  }
 
-    // Load clues for the specific year
-    const year = puzzle.date.split('-')[0];
-    const cluesResponse = await fetch(`/api/clues?year=${year}`);
-    if (!cluesResponse.ok) {
-      throw new Error('Failed to load clues data');
-    }
-    const clues: CluesData = await cluesResponse.json();
+  const puzzles: (PuzzleListing & { level: DifficultyLevel })[] = await response.json();
+  const days: Record<string, ArchiveDay> = {};
+  puzzles.forEach(p => {
+    const day = days[p.date] ?? { main: p.len, levels: {} };
+    if (p.main) day.main = p.len;
+    day.levels[p.len] = p.level;
+    days[p.date] = day;
+  });
+  return days;
+}
 
-    const clue = findClue(clues, puzzle.word);
-    
-    // Use EST timezone for isToday calculation to be consistent
-    const todayEST = getESTDateString();
-    
-    return {
-      word: puzzle.word.toUpperCase(),
-      clue: clue,
-      isToday: !randomMode && puzzle.date === todayEST
-    };
-  } catch (error) {
-    console.error('Error loading daily puzzle:', error);
-    // Fallback to a default puzzle
-    return {
-      word: 'HELLO',
-      clue: 'A friendly greeting',
-      isToday: false
-    };
+// Today's puzzles, one per word length on days that have several (home page)
+export async function loadTodaysPuzzles(): Promise<PuzzleListing[]> {
+  const response = await fetch(`/api/puzzles?date=${todayISO()}`);
+  if (response.status === 404) return [];
+  if (!response.ok) {
+    throw new Error(`Failed to load today's puzzles: ${response.status}`);
   }
+  return response.json();
 }
 
-export async function loadPuzzle(date: Date): Promise<DailyPuzzle> {
-  try {
-    
-    // Load puzzles from unified file
-    const puzzlesResponse = await fetch(`/api/puzzles`);
-
-    if (!puzzlesResponse.ok) {
-      throw new Error('Failed to load puzzle data');
-    }
-
-    const puzzles: PuzzleData[] = await puzzlesResponse.json();
-
-    // Format the target date - use the date as-is since it's already in the correct format from the URL
-    const targetDate = date.getFullYear() + '-' + 
-                      String(date.getMonth() + 1).padStart(2, '0') + '-' + 
-                      String(date.getDate()).padStart(2, '0');
-    
-    const puzzle = puzzles.find(p => p.date === targetDate);
-    
-    if (!puzzle) {
-      throw new Error(`No puzzle available for date ${targetDate}`);
-    }
-
-    // Load clues for the specific year
-    const year = puzzle.date.split('-')[0];
-    const cluesResponse = await fetch(`/api/clues?year=${year}`);
-    if (!cluesResponse.ok) {
-      throw new Error('Failed to load clues data');
-    }
-    const clues: CluesData = await cluesResponse.json();
-
-    const clue = findClue(clues, puzzle.word);
+export async function loadDailyPuzzle(length?: WordLength, editorKey?: string): Promise<DailyPuzzle> {
+  // Today under the player's rollover setting (see lib/timezone.ts)
+  return await fetchPuzzle(todayISO(), length, editorKey);
+}
 
-    // Check if this is today's puzzle using EST timezone
-    const todayEST = getESTDateString();
-    
-    return {
-      word: puzzle.word.toUpperCase(),
-      clue: clue,
-      isToday: puzzle.date === todayEST
-    };
+export async function loadPuzzle(date: Date, editorKey?: string, length?: WordLength): Promise<DailyPuzzle> {
+  try {
+    // The Date is built from the URL's calendar fields, so read them back as-is
+    return await fetchPuzzle(localDateISO(date), length, editorKey);
   } catch (error) {
     console.error('Error loading puzzle for date:', error);
     throw error;
   }
 }
+
+// Score a guess on the server; `gameToken` is the one from the puzzle or the
+// last result (see lib/gameToken.ts). The guess's length picks which of the
+// day's puzzles it is for.
+export async function submitGuess(dateISO: string, guess: string, gameToken: string, editorKey?: string): Promise<GuessResult> {
+  const params = new URLSearchParams({ date: dateISO, length: String(guess.length), guess, token: gameToken });
+  const response = await fetch(`/api/guess?${params.toString()}`, { headers: editorHeaders(editorKey) });
+  if (!response.ok) {
+    throw new Error(`Failed to check guess: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Ask the server to reveal a letter; it picks the position
+export async function requestReveal(dateISO: string, length: WordLength, gameToken: string, editorKey?: string): Promise<RevealResult> {
+  const params = new URLSearchParams({ date: dateISO, length: String(length), token: gameToken });
+  const response = await fetch(`/api/reveal?${params.toString()}`, { headers: editorHeaders(editorKey) });
+  if (!response.ok) {
+    throw new Error(`Failed to reveal letter: ${response.status}`);
+  }
+  return response.json();
+}
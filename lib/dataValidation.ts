@@ -0,0 +1,276 @@
+/**
+ * Consistency checks across the files in lib/data: puzzle schedules, clues,
+ * dictionaries and word definitions. Run through scripts/validateData.ts
+ * (npm run validate-data). Only import this from scripts - it reads the
+ * filesystem.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ISO_DATE, listPuzzleYears, listWordDefinitionYears, loadWordDefinitions } from './puzzleData';
+import { addDays, daysBetween } from './timezone';
+
+const DATA_DIR = path.join(process.cwd(), 'lib', 'data');
+const WORD_LENGTHS = [5, 6, 7];
+
+// Also what scripts/buildData.ts schedules against
+export const DEFAULT_NO_REPEAT_DAYS = 180;
+
+export type ProblemCode =
+  | 'invalid_file'
+  | 'invalid_date'
+  | 'date_gap'
+  | 'invalid_word'
+  | 'case_mismatch'
+  | 'length_mismatch'
+  | 'duplicate_length'
+  | 'unsupported_length'
+  | 'not_in_dictionary'
+  | 'missing_clue'
+  | 'empty_clue'
+  | 'duplicate_answer'
+  | 'invalid_dictionary_word'
+  | 'duplicate_dictionary_word'
+  | 'missing_definition';
+
+export interface Problem {
+  code: ProblemCode;
+  severity: 'error' | 'warning';  // errors fail the command
+  file: string;                   // relative to lib/data
+  date?: string;
+  word?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  ok: boolean;
+  puzzles: number;
+  errors: number;
+  warnings: number;
+  byCode: Partial<Record<ProblemCode, number>>;
+  problems: Problem[];
+}
+
+export interface ValidationOptions {
+  noRepeatDays: number;           // an answer may not come back within this many days
+}
+
+interface ScheduledPuzzle {
+  date: string;
+  word: string;
+  file: string;
+}
+
+function readJSON(file: string, problems: Problem[]): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(DATA_DIR, file), 'utf8'));
+  } catch (error) {
+    problems.push({
+      code: 'invalid_file',
+      severity: 'error',
+      file,
+      message: `Could not read ${file}: ${error instanceof Error ? error.message : error}`,
+    });
+    return null;
+  }
+}
+
+function loadDictionaries(problems: Problem[]): Record<number, Set<string>> {
+  const dictionaries: Record<number, Set<string>> = {};
+
+  WORD_LENGTHS.forEach(length => {
+    const file = `dictionary${length}.json`;
+    const words = readJSON(file, problems);
+    const seen = new Set<string>();
+    dictionaries[length] = seen;
+    if (!Array.isArray(words)) return;
+
+    words.forEach(raw => {
+      const word = String(raw).toUpperCase();
+      if (word.length !== length || !/^[A-Z]+$/.test(word)) {
+        problems.push({ code: 'invalid_dictionary_word', severity: 'error', file, word: String(raw), message: `"${raw}" is not a ${length}-letter word` });
+      } else if (seen.has(word)) {
+        problems.push({ code: 'duplicate_dictionary_word', severity: 'warning', file, word, message: `${word} is listed more than once` });
+      }
+      seen.add(word);
+    });
+  });
+
+  return dictionaries;
+}
+
+// Clue lookup is case-insensitive (see findClue), so keys are uppercased here
+function loadYearClues(year: number, problems: Problem[]): Map<string, string> {
+  const file = `clues-${year}.json`;
+  const clues = new Map<string, string>();
+  if (!fs.existsSync(path.join(DATA_DIR, file))) return clues;
+
+  const raw = readJSON(file, problems);
+  if (!raw || typeof raw !== 'object') return clues;
+
+  Object.entries(raw as Record<string, unknown>).forEach(([word, clue]) => {
+    if (typeof clue !== 'string' || !clue.trim()) {
+      problems.push({ code: 'empty_clue', severity: 'error', file, word, message: `${word} has an empty clue` });
+      return;
+    }
+    clues.set(word.toUpperCase(), clue);
+  });
+
+  return clues;
+}
+
+function checkPuzzleYear(
+  year: number,
+  dictionaries: Record<number, Set<string>>,
+  problems: Problem[]
+): ScheduledPuzzle[] {
+  const file = `puzzles-${year}.json`;
+  const raw = readJSON(file, problems);
+  if (!raw || typeof raw !== 'object') return [];
+
+  const clues = loadYearClues(year, problems);
+  const scheduled: ScheduledPuzzle[] = [];
+
+  Object.entries(raw as Record<string, { word?: unknown; words?: unknown; len?: unknown }>).forEach(([date, puzzle]) => {
+    if (!ISO_DATE.test(date) || !date.startsWith(`${year}-`) || Number.isNaN(Date.parse(date))) {
+      problems.push({ code: 'invalid_date', severity: 'error', file, date, message: `"${date}" is not a ${year} date (YYYY-MM-DD)` });
+      return;
+    }
+
+    // One answer, or a list with at most one per length (see PuzzleFileDay)
+    const multiple = Array.isArray(puzzle?.words);
+    const words: unknown[] = multiple ? (puzzle.words as unknown[]) : [puzzle?.word];
+    if (words.length === 0) {
+      problems.push({ code: 'invalid_word', severity: 'error', file, date, message: `No answers listed for ${date}` });
+      return;
+    }
+
+    const lengths = new Set<number>();
+    words.forEach(value => {
+      const word = typeof value === 'string' ? value : '';
+      if (!/^[A-Za-z]+$/.test(word)) {
+        problems.push({ code: 'invalid_word', severity: 'error', file, date, message: `Answer "${word}" must be letters only` });
+        return;
+      }
+
+      const upper = word.toUpperCase();
+      if (word !== upper) {
+        problems.push({ code: 'case_mismatch', severity: 'error', file, date, word, message: `Answer "${word}" should be uppercase (${upper})` });
+      }
+      if (!multiple && puzzle.len !== undefined && puzzle.len !== word.length) {
+        problems.push({ code: 'length_mismatch', severity: 'error', file, date, word: upper, message: `len is ${puzzle.len} but ${upper} has ${word.length} letters` });
+      }
+
+      if (lengths.has(word.length)) {
+        problems.push({ code: 'duplicate_length', severity: 'error', file, date, word: upper, message: `${date} has more than one ${word.length}-letter answer` });
+      }
+      lengths.add(word.length);
+
+      if (!WORD_LENGTHS.includes(word.length)) {
+        problems.push({ code: 'unsupported_length', severity: 'error', file, date, word: upper, message: `${upper} has ${word.length} letters; puzzles are 5, 6 or 7` });
+      } else if (!dictionaries[word.length].has(upper)) {
+        problems.push({ code: 'not_in_dictionary', severity: 'error', file, date, word: upper, message: `${upper} is not in dictionary${word.length}.json, so it can't be guessed` });
+      }
+
+      if (!clues.has(upper)) {
+        problems.push({ code: 'missing_clue', severity: 'error', file: `clues-${year}.json`, date, word: upper, message: `No clue for ${upper} (${date})` });
+      }
+
+      scheduled.push({ date, word: upper, file });
+    });
+  });
+
+  return scheduled;
+}
+
+// Missing days between the first and last scheduled puzzle, as ranges
+function checkDateGaps(puzzles: ScheduledPuzzle[], problems: Problem[]) {
+  for (let i = 1; i < puzzles.length; i++) {
+    const previous = puzzles[i - 1].date;
+    const gap = daysBetween(previous, puzzles[i].date) - 1;
+    if (gap <= 0) continue;
+
+    const first = addDays(previous, 1);
+    const last = addDays(puzzles[i].date, -1);
+    problems.push({
+      code: 'date_gap',
+      severity: 'error',
+      file: `puzzles-${first.slice(0, 4)}.json`,
+      date: first,
+      message: gap === 1 ? `No puzzle on ${first}` : `No puzzles from ${first} to ${last} (${gap} days)`,
+    });
+  }
+}
+
+function checkRepeats(puzzles: ScheduledPuzzle[], noRepeatDays: number, problems: Problem[]) {
+  const lastSeen = new Map<string, string>();
+
+  puzzles.forEach(({ date, word, file }) => {
+    const previous = lastSeen.get(word);
+    if (previous) {
+      const days = daysBetween(previous, date);
+      if (days <= noRepeatDays) {
+        problems.push({
+          code: 'duplicate_answer',
+          severity: 'error',
+          file,
+          date,
+          word,
+          message: `${word} was already the answer on ${previous}, ${days} days earlier`,
+        });
+      }
+    }
+    lastSeen.set(word, date);
+  });
+}
+
+// The scripture page needs a definition for every answer
+function checkDefinitions(puzzles: ScheduledPuzzle[], problems: Problem[]) {
+  const defined = new Set<string>();
+  listWordDefinitionYears().forEach(year => {
+    Object.keys(loadWordDefinitions(year).definitions).forEach(word => defined.add(word.toUpperCase()));
+  });
+
+  const reported = new Set<string>();
+  puzzles.forEach(({ date, word }) => {
+    if (defined.has(word) || reported.has(word)) return;
+    reported.add(word);
+    problems.push({
+      code: 'missing_definition',
+      severity: 'warning',
+      file: `word-definitions-${date.slice(0, 4)}.json`,
+      date,
+      word,
+      message: `No definition for ${word}; run npm run build-data -- definitions`,
+    });
+  });
+}
+
+export function validateData(options: ValidationOptions): ValidationReport {
+  const problems: Problem[] = [];
+  const dictionaries = loadDictionaries(problems);
+
+  const years = listPuzzleYears();
+  const puzzles = years
+    .reduce<ScheduledPuzzle[]>((all, year) => all.concat(checkPuzzleYear(year, dictionaries, problems)), [])
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  checkDateGaps(puzzles, problems);
+  checkRepeats(puzzles, options.noRepeatDays, problems);
+  checkDefinitions(puzzles, problems);
+
+  const byCode: ValidationReport['byCode'] = {};
+  problems.forEach(problem => {
+    byCode[problem.code] = (byCode[problem.code] ?? 0) + 1;
+  });
+  const errors = problems.filter(p => p.severity === 'error').length;
+
+  return {
+    ok: errors === 0,
+    puzzles: puzzles.length,
+    errors,
+    warnings: problems.length - errors,
+    byCode,
+    problems,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Estimates how hard an answer is to find, from the guess dictionary for its
+ * length alone. No I/O: pass the dictionary in (the server uses
+ * loadDictionaryWords, see /api/puzzles and scripts/buildData.ts).
+ *
+ * Four signals, each scaled to 0-1 and weighted into a 0-100 score:
+ * - solver: guesses the reference solver (lib/solver.ts) needs
+ * - neighbors: dictionary words one letter away (BOUND -> FOUND, ROUND...)
+ * - rarity: how few dictionary words share the answer's letters
+ * - repeats: repeated letters, which players tend to rule out
+ */
+
+import { solve } from './solver';
+import { Difficulty, DifficultyLevel } from './types';
+
+const WEIGHTS = { solver: 0.35, neighbors: 0.25, rarity: 0.25, repeats: 0.15 };
+
+// Upper bounds of each level's score, easiest first. Tuned so the 2025-26
+// answers split roughly 25/35/25/15.
+const LEVELS: [DifficultyLevel, number][] = [
+  ['easy', 25],
+  ['medium', 35],
+  ['hard', 45],
+  ['expert', 101],
+];
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  expert: 'Expert',
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+export function difficultyLevel(score: number): DifficultyLevel {
+  return (LEVELS.find(([, max]) => score < max) ?? LEVELS[LEVELS.length - 1])[0];
+}
+
+// Share of dictionary words containing each letter
+function letterCoverage(words: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  words.forEach(word => {
+    new Set(word.split('')).forEach(letter => {
+      counts[letter] = (counts[letter] ?? 0) + 1;
+    });
+  });
+  Object.keys(counts).forEach(letter => {
+    counts[letter] /= words.length;
+  });
+  return counts;
+}
+
+function countNeighbors(word: string, words: string[]): number {
+  return words.filter(other => {
+    if (other === word) return false;
+    let differences = 0;
+    for (let i = 0; i < word.length && differences < 2; i++) {
+      if (other[i] !== word[i]) differences++;
+    }
+    return differences === 1;
+  }).length;
+}
+
+// Coverage is worked out once per dictionary; scripts score hundreds of words
+const coverageCache = new WeakMap<string[], Record<string, number>>();
+
+export function estimateDifficulty(answer: string, dictionary: string[]): Difficulty {
+  const word = answer.toUpperCase();
+  const words = dictionary.filter(w => w.length === word.length);
+
+  if (!coverageCache.has(dictionary)) coverageCache.set(dictionary, letterCoverage(words));
+  const coverage = coverageCache.get(dictionary) as Record<string, number>;
+  const maxCoverage = Math.max(...Object.keys(coverage).map(letter => coverage[letter]));
+
+  const letters = Array.from(new Set(word.split('')));
+  const rarity = letters.reduce((sum, letter) => sum + (1 - (coverage[letter] ?? 0) / maxCoverage), 0) / letters.length;
+  const repeats = word.length - letters.length;
+  const neighbors = countNeighbors(word, words);
+  const solverGuesses = solve(word, words).length;
+
+  const score = Math.round(100 * (
+    WEIGHTS.solver * clamp((solverGuesses - 2) / 4) +
+    WEIGHTS.neighbors * clamp(neighbors / 8) +
+    WEIGHTS.rarity * clamp((rarity - 0.2) / 0.4) +
+    WEIGHTS.repeats * clamp(repeats / 2)
+  ));
+
+  return {
+    score,
+    level: difficultyLevel(score),
+    signals: { solverGuesses, neighbors, rarity: Math.round(rarity * 100) / 100, repeats },
+  };
+}
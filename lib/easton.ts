@@ -0,0 +1,24 @@
+import { EastonEntry, EastonSearchResult } from './types';
+import { todayISO } from './timezone';
+
+// A page of Easton's Bible Dictionary search results (see /api/easton)
+export async function searchEaston(query: string, page = 1): Promise<EastonSearchResult> {
+  const params = new URLSearchParams({ q: query, page: String(page) });
+  const response = await fetch(`/api/easton?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Dictionary search failed: ${response.status}`);
+  }
+  return response.json();
+}
+
+// One entry by slug, listing the puzzles before the player's today; null if
+// there's no such term
+export async function loadEastonEntry(slug: string): Promise<EastonEntry | null> {
+  const params = new URLSearchParams({ term: slug, today: todayISO() });
+  const response = await fetch(`/api/easton?${params.toString()}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load dictionary entry: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,313 @@
+/**
+ * Server-side access to Easton's Bible Dictionary in lib/data/easton.jsonl,
+ * searched through the prebuilt lib/data/easton-index.json
+ * (npm run build-easton-index). Only import this from API routes and
+ * scripts - it reads the filesystem.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadPuzzleRange } from './puzzleData';
+import { puzzleNumberFor } from './puzzleNumber';
+import { findReferences } from './scriptureRef';
+import { addDays, latestReleasedDateISO } from './timezone';
+import { EastonEntry, EastonSearchResult, EastonSegment, EastonSummary } from './types';
+
+const DATA_DIR = path.join(process.cwd(), 'lib', 'data');
+const EASTON_FILE = path.join(DATA_DIR, 'easton.jsonl');
+export const EASTON_INDEX_FILE = path.join(DATA_DIR, 'easton-index.json');
+
+export const EASTON_PAGE_SIZE = 25;
+const PREVIEW_LENGTH = 160;
+const MIN_TOKEN_LENGTH = 3;
+
+const STOP_WORDS = new Set([
+  'and', 'are', 'but', 'for', 'from', 'had', 'has', 'have', 'his', 'her', 'its',
+  'not', 'that', 'the', 'their', 'them', 'they', 'this', 'was', 'were', 'which',
+  'who', 'with', 'also', 'into', 'than', 'there', 'these', 'those', 'been', 'one',
+]);
+
+// Cross-references are footnote markers left over from the source HTML:
+// "(See [6]HAGAR; [7]ISHMAEL.)", "[250]PROVIDENCE", "[8]banquet"
+const LINK_MARKER = /\[(\d+)\]([A-Za-z][A-Za-z'-]*(?:,? (?:[A-Z][A-Z'-]+|OF|THE|TO|IN))*)/g;
+const BARE_MARKER = /\[\d+\]/g;
+
+interface EastonRecord {
+  term: string;
+  definitions: string[];
+}
+
+export interface EastonIndex {
+  // Alphabetical; `lines` are the easton.jsonl lines (a few terms have two entries)
+  entries: { term: string; slug: string; lines: number[]; preview: string }[];
+  // Lowercase word -> positions in `entries`, ascending
+  tokens: Record<string, number[]>;
+}
+
+export function slugify(term: string): string {
+  return term.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Words worth indexing; the same rules apply to the query
+export function tokenize(text: string): string[] {
+  return (text.replace(BARE_MARKER, ' ').toLowerCase().match(/[a-z]+/g) ?? [])
+    .filter(word => word.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(word));
+}
+
+function cleanText(text: string): string {
+  return text.replace(BARE_MARKER, '').replace(/\s+/g, ' ').trim();
+}
+
+function makePreview(definitions: string[]): string {
+  const text = cleanText(definitions[0] ?? '');
+  if (text.length <= PREVIEW_LENGTH) return text;
+  const cut = text.slice(0, PREVIEW_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' '))}…`;
+}
+
+let records: EastonRecord[] | null = null;
+
+function loadRecords(): EastonRecord[] {
+  if (!records) {
+    records = fs
+      .readFileSync(EASTON_FILE, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as EastonRecord);
+  }
+  return records;
+}
+
+// Used by scripts/buildEastonIndex.ts, and as a fallback when the file is missing
+export function buildEastonIndex(): EastonIndex {
+  const byTerm = new Map<string, { term: string; lines: number[] }>();
+
+  loadRecords().forEach((record, line) => {
+    const key = record.term.toLowerCase();
+    const existing = byTerm.get(key);
+    if (existing) existing.lines.push(line);
+    else byTerm.set(key, { term: record.term, lines: [line] });
+  });
+
+  const sorted = Array.from(byTerm.values()).sort((a, b) =>
+    a.term.toLowerCase().localeCompare(b.term.toLowerCase())
+  );
+
+  const slugs = new Set<string>();
+  const tokens: Record<string, number[]> = {};
+
+  const entries = sorted.map(({ term, lines }, position) => {
+    // "Hail" and "Hail!" are different entries
+    let slug = slugify(term);
+    for (let n = 2; slugs.has(slug); n++) slug = `${slugify(term)}-${n}`;
+    slugs.add(slug);
+
+    const definitions = lines.reduce<string[]>((all, line) => all.concat(loadRecords()[line].definitions), []);
+    const words = new Set(tokenize([term].concat(definitions).join(' ')));
+    words.forEach(word => {
+      (tokens[word] = tokens[word] ?? []).push(position);
+    });
+
+    return { term, slug, lines, preview: makePreview(definitions) };
+  });
+
+  return { entries, tokens };
+}
+
+let index: EastonIndex | null = null;
+let tokenList: string[] = [];
+let slugPositions: Map<string, number> = new Map();
+
+export function loadEastonIndex(): EastonIndex {
+  if (!index) {
+    try {
+      index = JSON.parse(fs.readFileSync(EASTON_INDEX_FILE, 'utf8')) as EastonIndex;
+    } catch (error) {
+      console.error('Error reading easton-index.json, building it in memory:', error);
+      index = buildEastonIndex();
+    }
+    tokenList = Object.keys(index.tokens).sort();
+    slugPositions = new Map(index.entries.map((entry, position) => [entry.slug, position]));
+  }
+  return index;
+}
+
+// ---- search ----
+
+// Entries containing the word; the last query word also matches as a prefix
+// so results keep up while the player is typing
+function positionsForToken(token: string, prefix: boolean): Set<number> {
+  const { tokens } = loadEastonIndex();
+  if (!prefix) return new Set(tokens[token] ?? []);
+
+  const positions = new Set<number>();
+  tokenList
+    .filter(word => word.startsWith(token))
+    .forEach(word => tokens[word].forEach(position => positions.add(position)));
+  return positions;
+}
+
+// Entries with every query word, those mentioning one in their title first
+function fullTextMatches(query: string): number[] {
+  const { entries } = loadEastonIndex();
+  const words = tokenize(query);
+  if (words.length === 0) return [];
+
+  const sets = words.map((word, i) => positionsForToken(word, i === words.length - 1));
+  const [first, ...rest] = sets.slice().sort((a, b) => a.size - b.size);
+  const inTitle = (position: number) => tokenize(entries[position].term).some(word => words.includes(word));
+
+  return Array.from(first)
+    .filter(position => rest.every(set => set.has(position)))
+    .sort((a, b) => Number(inTitle(b)) - Number(inTitle(a)) || a - b);
+}
+
+/**
+ * Term-prefix matches (an exact term first), then entries whose text contains
+ * every query word. An empty query lists the whole dictionary alphabetically.
+ */
+export function searchEaston(query: string, page = 1): EastonSearchResult {
+  const { entries } = loadEastonIndex();
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  type Match = { position: number; match?: EastonSummary['match'] };
+  let matches: Match[];
+  if (!normalized) {
+    matches = entries.map((_, position) => ({ position }));
+  } else {
+    const termMatches = entries
+      .map((entry, position) => ({ position, term: entry.term.toLowerCase() }))
+      .filter(({ term }) => term.startsWith(normalized))
+      .sort((a, b) => Number(b.term === normalized) - Number(a.term === normalized))
+      .map(({ position }) => position);
+    const seen = new Set(termMatches);
+
+    matches = termMatches
+      .map<Match>(position => ({ position, match: 'term' }))
+      .concat(fullTextMatches(normalized)
+        .filter(position => !seen.has(position))
+        .map<Match>(position => ({ position, match: 'text' })));
+  }
+
+  const start = (page - 1) * EASTON_PAGE_SIZE;
+  const results = matches.slice(start, start + EASTON_PAGE_SIZE).map(({ position, match }) => {
+    const { term, slug, preview } = entries[position];
+    const summary: EastonSummary = { term, slug, preview };
+    if (match) summary.match = match;
+    return summary;
+  });
+
+  return { query: normalized, page, pageSize: EASTON_PAGE_SIZE, total: matches.length, results };
+}
+
+// ---- entries ----
+
+// Link targets are written in capitals, sometimes plural or with extra words
+// ("GALATIANS, EPISTLE TO THE", "THORNS", "BETHBARAH"); try progressively looser forms
+function resolveLink(name: string): string | null {
+  const { entries } = loadEastonIndex();
+  const compact = (text: string) => text.toLowerCase().replace(/[^a-z]/g, '');
+  const candidates = [name];
+  const words = name.split(/,? /);
+  for (let n = words.length - 1; n >= 1; n--) candidates.push(words.slice(0, n).join(' '));
+
+  for (const candidate of candidates) {
+    const key = compact(candidate);
+    const forms = [key, key.replace(/es$/, ''), key.replace(/s$/, '')];
+    const entry = entries.find(e => forms.includes(compact(e.term)));
+    if (entry) return entry.slug;
+  }
+  return null;
+}
+
+// Splits a definition into plain text, cross-links and scripture references
+function segmentDefinition(definition: string): EastonSegment[] {
+  interface Span { index: number; length: number; segment: EastonSegment }
+  const spans: Span[] = [];
+
+  LINK_MARKER.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = LINK_MARKER.exec(definition))) {
+    const term = resolveLink(match[2]);
+    spans.push({
+      index: match.index,
+      length: match[0].length,
+      segment: term ? { text: match[2], term } : { text: match[2] },
+    });
+  }
+  findReferences(definition).forEach(({ ref, index }) => {
+    spans.push({ index, length: ref.length, segment: { text: ref, ref } });
+  });
+
+  const segments: EastonSegment[] = [];
+  let cursor = 0;
+  spans
+    .sort((a, b) => a.index - b.index)
+    .forEach(span => {
+      if (span.index < cursor) return; // overlaps the previous span
+      if (span.index > cursor) segments.push({ text: definition.slice(cursor, span.index) });
+      segments.push(span.segment);
+      cursor = span.index + span.length;
+    });
+  if (cursor < definition.length) segments.push({ text: definition.slice(cursor) });
+
+  return segments.map(segment => ({ ...segment, text: segment.text.replace(BARE_MARKER, '') }));
+}
+
+// `beforeDate` is the player's current puzzle day; only earlier puzzles are
+// listed, so an entry never gives away the answer being played
+export function getEastonEntry(slug: string, beforeDate: string): EastonEntry | null {
+  const { entries } = loadEastonIndex();
+  const position = slugPositions.get(slug);
+  if (position === undefined) return null;
+
+  const { term, lines } = entries[position];
+  const definitions = lines.reduce<string[]>((all, line) => all.concat(loadRecords()[line].definitions), []);
+
+  // Past puzzles whose answer is this term, never past the release gate
+  const answer = term.toUpperCase();
+  const released = latestReleasedDateISO();
+  const through = addDays(beforeDate < released ? beforeDate : released, -1);
+  const puzzles = loadPuzzleRange(undefined, through)
+    .filter(p => p.word.toUpperCase() === answer)
+    .reverse()
+    .map(p => ({ date: p.date, puzzleNumber: puzzleNumberFor(p.date) }));
+
+  return { term, slug, definitions: definitions.map(segmentDefinition), puzzles };
+}
+
+// ---- puzzle words ----
+
+// Spellings to try for a puzzle answer: as is, singular, without a past
+// tense, then plural ("ENEMIES" -> "ENEMY", "WIVES" -> "WIFE", "LOVED" ->
+// "LOVE", "ALTAR" -> "ALTARS")
+function wordForms(word: string): string[] {
+  const forms = [word];
+  if (word.endsWith('IES')) forms.push(`${word.slice(0, -3)}Y`);
+  if (word.endsWith('VES')) forms.push(`${word.slice(0, -3)}FE`, `${word.slice(0, -3)}F`);
+  if (word.endsWith('MEN')) forms.push(`${word.slice(0, -3)}MAN`);
+  if (word.endsWith('ED') && word.length >= 5) forms.push(word.slice(0, -1), word.slice(0, -2));
+  if (word.endsWith('ES')) forms.push(word.slice(0, -2));
+  if (word.endsWith('S')) forms.push(word.slice(0, -1));
+  forms.push(`${word}S`, `${word}ES`);
+  return forms;
+}
+
+/**
+ * The Easton entry for a puzzle answer, matched case-insensitively and
+ * allowing for plurals; definitions have their footnote markers removed.
+ * Terms with two entries ("Job") return both.
+ */
+export function findEastonTerm(word: string): { term: string; definitions: string[] } | null {
+  const { entries } = loadEastonIndex();
+  const compact = (text: string) => text.toUpperCase().replace(/[^A-Z]/g, '');
+
+  for (const form of wordForms(compact(word))) {
+    const entry = entries.find(e => compact(e.term) === form);
+    if (entry) {
+      const definitions = entry.lines.reduce<string[]>((all, line) => all.concat(loadRecords()[line].definitions), []);
+      return { term: entry.term, definitions: definitions.map(cleanText) };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,437 @@
+/**
+ * Headless game engine: the rules of a Verseword game as a pure reducer.
+ *
+ * No React, no timers, no localStorage - callers feed actions in and render
+ * whatever state comes out. Anything non-deterministic (the dictionary, the
+ * random pick for a letter reveal) is passed in on the action.
+ *
+ * The engine can run with or without the answer. In the app the secret word
+ * stays on the server: SUBMIT carries the server's evaluation (and the
+ * solution once the game is over) and REVEAL_LETTER carries the revealed
+ * letter. Without those it evaluates locally against `secretWord`.
+ */
+
+import { GAME_CONFIG } from './config';
+import { GameState, LetterState, WordLength } from './types';
+import { evaluateGuess, isVowel, validateGuess, validateHardMode } from './gameLogic';
+
+export type EngineErrorCode =
+  | 'not_enough_letters'
+  | 'not_in_word_list'
+  | 'hard_mode'
+  | 'reveal_not_allowed'
+  | 'nothing_to_reveal';
+
+export interface EngineError {
+  code: EngineErrorCode;
+  message: string;
+}
+
+export interface EngineState extends GameState {
+  currentGuess: string[];
+  maxGuesses: number;
+  lockGreenMatchedLetters: boolean;
+  hardMode: boolean;
+  error: EngineError | null;
+}
+
+export type EngineAction =
+  | { type: 'TYPE_LETTER'; letter: string; index?: number }
+  | { type: 'DELETE_LETTER'; index?: number }
+  | { type: 'SUBMIT'; dictionary: Set<string>; evaluation?: LetterState[]; solution?: string }
+  | { type: 'REVEAL_LETTER'; random?: number; position?: number; letter?: string }
+  | { type: 'RESET'; secretWord?: string; wordLength?: WordLength; clue?: string };
+
+export interface EngineOptions {
+  secretWord?: string;
+  wordLength?: WordLength;      // required when the secret word is not known
+  clue?: string;
+  maxGuesses?: number;
+  lockGreenMatchedLetters?: boolean;
+  hardMode?: boolean;
+}
+
+export function createInitialState({
+  secretWord = '',
+  wordLength: length,
+  clue,
+  maxGuesses = GAME_CONFIG.MAX_GUESSES,
+  lockGreenMatchedLetters = GAME_CONFIG.LOCK_GREEN_MATCHED_LETTERS,
+  hardMode = GAME_CONFIG.HARD_MODE,
+}: EngineOptions): EngineState {
+  const word = secretWord.toUpperCase();
+  const wordLength = (word ? word.length : length ?? 5) as WordLength;
+
+  return {
+    wordLength,
+    secretWord: word,
+    clue,
+    attempts: [],
+    evaluations: [],
+    lockedLetters: {},
+    gameStatus: 'not_started',
+    attemptIndex: 0,
+    revealedLetters: new Set<number>(),
+    revealedLetterValues: {},
+    letterRevealsRemaining: GAME_CONFIG.LETTER_REVEALS[wordLength] ?? 0,
+    currentGuess: new Array(wordLength).fill(''),
+    maxGuesses,
+    lockGreenMatchedLetters,
+    hardMode,
+    error: null,
+  };
+}
+
+export function isFinished(state: GameState): boolean {
+  return state.gameStatus === 'won' || state.gameStatus === 'lost';
+}
+
+// A position can be typed into unless it is locked or shown by a reveal
+export function isEditable(state: EngineState, index: number): boolean {
+  return !state.lockedLetters[index] && !state.revealedLetters.has(index);
+}
+
+// The guess as it would be submitted: locked and revealed letters win over typed ones
+export function buildGuess(state: EngineState): string {
+  return Array.from({ length: state.wordLength }, (_, i) => {
+    if (state.lockedLetters[i]) return state.lockedLetters[i] as string;
+    if (state.revealedLetters.has(i)) return state.revealedLetterValues[i] ?? state.secretWord[i] ?? '';
+    return state.currentGuess[i] ?? '';
+  }).join('');
+}
+
+export function reduce(state: EngineState, action: EngineAction): EngineState {
+  switch (action.type) {
+    case 'TYPE_LETTER':
+      return typeLetter(state, action.letter, action.index);
+    case 'DELETE_LETTER':
+      return deleteLetter(state, action.index);
+    case 'SUBMIT':
+      return submit(state, action.dictionary, action.evaluation, action.solution);
+    case 'REVEAL_LETTER':
+      return revealLetter(state, action);
+    case 'RESET':
+      return createInitialState({
+        secretWord: action.secretWord,
+        wordLength: action.wordLength,
+        clue: action.clue,
+        maxGuesses: state.maxGuesses,
+        lockGreenMatchedLetters: state.lockGreenMatchedLetters,
+        hardMode: state.hardMode,
+      });
+    default:
+      return state;
+  }
+}
+
+function typeLetter(state: EngineState, letter: string, index?: number): EngineState {
+  if (isFinished(state)) return state;
+
+  const upper = letter.toUpperCase();
+  if (!/^[A-Z]$/.test(upper)) return state;
+
+  const target = index ?? state.currentGuess.findIndex((l, i) => !l && isEditable(state, i));
+  if (target < 0 || target >= state.wordLength || !isEditable(state, target)) return state;
+
+  const currentGuess = [...state.currentGuess];
+  currentGuess[target] = upper;
+  return { ...state, currentGuess, error: null };
+}
+
+function deleteLetter(state: EngineState, index?: number): EngineState {
+  if (isFinished(state)) return state;
+
+  let target = index ?? -1;
+  if (index === undefined) {
+    // Last filled editable cell, skipping over locked letters
+    for (let i = state.wordLength - 1; i >= 0; i--) {
+      if (isEditable(state, i) && state.currentGuess[i]) {
+        target = i;
+        break;
+      }
+    }
+  }
+  if (target < 0 || !isEditable(state, target)) return state;
+
+  const currentGuess = [...state.currentGuess];
+  currentGuess[target] = '';
+  return { ...state, currentGuess, error: null };
+}
+
+// Everything SUBMIT checks before the guess is scored, so callers can reject
+// a guess without a round trip to the server
+export function checkGuess(state: EngineState, dictionary: Set<string>): EngineError | null {
+  const guess = buildGuess(state);
+
+  if (!validateGuess(guess, state.wordLength)) {
+    return { code: 'not_enough_letters', message: 'Not enough letters' };
+  }
+  if (!dictionary.has(guess)) {
+    return { code: 'not_in_word_list', message: 'Not in the valid word list!' };
+  }
+  if (state.hardMode) {
+    const violation = validateHardMode(guess, state.attempts, state.evaluations);
+    if (violation) {
+      return { code: 'hard_mode', message: violation };
+    }
+  }
+  return null;
+}
+
+function submit(
+  state: EngineState,
+  dictionary: Set<string>,
+  scored?: LetterState[],
+  solution?: string
+): EngineState {
+  if (isFinished(state)) return state;
+
+  const error = checkGuess(state, dictionary);
+  if (error) return { ...state, error };
+
+  const guess = buildGuess(state);
+  const evaluation = scored ?? evaluateGuess(guess, state.secretWord);
+  const isWin = evaluation.every((s) => s === 'correct');
+  const attemptIndex = state.attemptIndex + 1;
+
+  // Exact matches only stay locked when the player has letter locking enabled
+  const lockedLetters: Record<number, string> = {};
+  if (state.lockGreenMatchedLetters) {
+    for (const [k, v] of Object.entries(state.lockedLetters)) {
+      if (v) lockedLetters[Number(k)] = v;
+    }
+    evaluation.forEach((s, i) => {
+      if (s === 'correct') lockedLetters[i] = guess[i];
+    });
+  }
+
+  let gameStatus: GameState['gameStatus'] = 'playing';
+  if (isWin) gameStatus = 'won';
+  else if (attemptIndex >= state.maxGuesses) gameStatus = 'lost';
+
+  const currentGuess = Array.from({ length: state.wordLength }, (_, i) => lockedLetters[i] ?? '');
+  const secretWord = (solution ?? (isWin ? guess : state.secretWord)).toUpperCase();
+
+  return {
+    ...state,
+    secretWord,
+    attempts: [...state.attempts, guess],
+    evaluations: [...state.evaluations, evaluation],
+    attemptIndex,
+    gameStatus,
+    lockedLetters: gameStatus === 'won'
+      ? Object.fromEntries(Array.from(guess).map((l, i) => [i, l]))
+      : lockedLetters,
+    revealedLetters: state.lockGreenMatchedLetters ? state.revealedLetters : new Set<number>(),
+    revealedLetterValues: state.lockGreenMatchedLetters ? state.revealedLetterValues : {},
+    currentGuess,
+    error: null,
+  };
+}
+
+// Positions a reveal may still uncover
+export function revealCandidates(state: GameState): number[] {
+  return Array.from({ length: state.wordLength }, (_, i) => i)
+    .filter((i) => !state.lockedLetters[i] && !state.revealedLetters.has(i));
+}
+
+// Why a reveal cannot happen right now, or null if it can
+export function checkReveal(state: EngineState): EngineError | null {
+  // Reveals are only offered before the first guess goes in
+  if (state.attemptIndex > 0) {
+    return { code: 'reveal_not_allowed', message: 'Letter reveals are only available on the first guess!' };
+  }
+  if (revealCandidates(state).length === 0) {
+    return { code: 'nothing_to_reveal', message: 'All available letters have been revealed!' };
+  }
+  return null;
+}
+
+// Vowels first, then consonants. Shared with /api/reveal, which holds the answer.
+export function pickRevealPosition(secretWord: string, candidates: number[], random: number): number {
+  const vowels = candidates.filter((i) => isVowel(secretWord[i]));
+  const pool = vowels.length > 0 ? vowels : candidates;
+  const pick = Math.min(pool.length - 1, Math.max(0, Math.floor(random * pool.length)));
+  return pool[pick];
+}
+
+function revealLetter(
+  state: EngineState,
+  action: { random?: number; position?: number; letter?: string }
+): EngineState {
+  if (state.letterRevealsRemaining <= 0 || isFinished(state)) return state;
+
+  const error = checkReveal(state);
+  if (error) return { ...state, error };
+
+  const candidates = revealCandidates(state);
+  const position = action.position ?? pickRevealPosition(state.secretWord, candidates, action.random ?? 0);
+  const letter = (action.letter ?? state.secretWord[position] ?? '').toUpperCase();
+  if (!candidates.includes(position) || !letter) return state;
+
+  const currentGuess = [...state.currentGuess];
+  currentGuess[position] = '';
+
+  return {
+    ...state,
+    revealedLetters: new Set([...Array.from(state.revealedLetters), position]),
+    revealedLetterValues: { ...state.revealedLetterValues, [position]: letter },
+    letterRevealsRemaining: state.letterRevealsRemaining - 1,
+    currentGuess,
+    error: null,
+  };
+}
+
+// Keyboard colouring: revealed/locked letters are correct, and a letter never
+// gets downgraded once a better state has been seen
+export function keyboardLetterStates(state: GameState): Record<string, LetterState> {
+  const states: Record<string, LetterState> = {};
+
+  for (const letter of Object.values(state.lockedLetters)) {
+    if (letter) states[letter] = 'correct';
+  }
+  for (const index of Array.from(state.revealedLetters)) {
+    const letter = state.revealedLetterValues[index];
+    if (letter) states[letter] = 'correct';
+  }
+
+  for (let a = 0; a < state.attempts.length; a++) {
+    const attempt = state.attempts[a];
+    const evaluation = state.evaluations[a] || [];
+    for (let i = 0; i < attempt.length; i++) {
+      const letter = attempt[i];
+      const s = evaluation[i];
+      if (s === 'correct') {
+        states[letter] = 'correct';
+      } else if (s === 'present' && states[letter] !== 'correct') {
+        states[letter] = 'present';
+      } else if (s === 'absent' && !states[letter]) {
+        states[letter] = 'absent';
+      }
+    }
+  }
+
+  return states;
+}
+
+// ---- several boards (Gospels mode) ----
+//
+// One shared guess goes to every board still being played, each with its own
+// answer; boards that are solved stop taking guesses. Letter locking and
+// reveals are per answer, so they are off here.
+
+export interface MultiBoardState {
+  boards: EngineState[];
+  wordLength: WordLength;
+  currentGuess: string[];
+  maxGuesses: number;
+  gameStatus: GameState['gameStatus'];
+  error: EngineError | null;
+}
+
+export type MultiBoardAction =
+  | { type: 'TYPE_LETTER'; letter: string }
+  | { type: 'DELETE_LETTER' }
+  | {
+      type: 'SUBMIT';
+      dictionary: Set<string>;
+      evaluations?: LetterState[][];   // one per board, as scored by the server
+      solutions?: string[];
+    };
+
+export interface MultiBoardOptions {
+  secretWords?: string[];
+  boards?: number;              // required when the secret words are not known
+  wordLength?: WordLength;
+  maxGuesses?: number;
+}
+
+export function createMultiBoardState({
+  secretWords,
+  boards = secretWords?.length ?? 4,
+  wordLength: length,
+  maxGuesses = GAME_CONFIG.GOSPELS_MAX_GUESSES,
+}: MultiBoardOptions): MultiBoardState {
+  const boardStates = Array.from({ length: boards }, (_, i) =>
+    createInitialState({
+      secretWord: secretWords?.[i],
+      wordLength: length,
+      maxGuesses,
+      lockGreenMatchedLetters: false,
+      hardMode: false,
+    })
+  );
+  const wordLength = boardStates[0]?.wordLength ?? length ?? 5;
+
+  return {
+    boards: boardStates,
+    wordLength,
+    currentGuess: new Array(wordLength).fill(''),
+    maxGuesses,
+    gameStatus: 'not_started',
+    error: null,
+  };
+}
+
+// Won once every board is solved; lost when the guesses run out first
+export function multiBoardStatus(boards: GameState[]): GameState['gameStatus'] {
+  if (boards.every((b) => b.gameStatus === 'won')) return 'won';
+  if (boards.every(isFinished)) return 'lost';
+  return boards.some((b) => b.attemptIndex > 0) ? 'playing' : 'not_started';
+}
+
+export function reduceMultiBoard(state: MultiBoardState, action: MultiBoardAction): MultiBoardState {
+  if (state.gameStatus === 'won' || state.gameStatus === 'lost') return state;
+
+  switch (action.type) {
+    case 'TYPE_LETTER': {
+      const upper = action.letter.toUpperCase();
+      const target = state.currentGuess.indexOf('');
+      if (!/^[A-Z]$/.test(upper) || target < 0) return state;
+      const currentGuess = [...state.currentGuess];
+      currentGuess[target] = upper;
+      return { ...state, currentGuess, error: null };
+    }
+    case 'DELETE_LETTER': {
+      const filled = state.currentGuess.filter(Boolean).length;
+      if (filled === 0) return state;
+      const currentGuess = [...state.currentGuess];
+      currentGuess[filled - 1] = '';
+      return { ...state, currentGuess, error: null };
+    }
+    case 'SUBMIT':
+      return submitMultiBoard(state, action.dictionary, action.evaluations, action.solutions);
+    default:
+      return state;
+  }
+}
+
+// Checks the shared guess the same way SUBMIT does for a single board
+export function checkMultiBoardGuess(state: MultiBoardState, dictionary: Set<string>): EngineError | null {
+  const board = state.boards.find((b) => !isFinished(b)) ?? state.boards[0];
+  return board ? checkGuess({ ...board, currentGuess: state.currentGuess }, dictionary) : null;
+}
+
+function submitMultiBoard(
+  state: MultiBoardState,
+  dictionary: Set<string>,
+  evaluations?: LetterState[][],
+  solutions?: string[]
+): MultiBoardState {
+  const error = checkMultiBoardGuess(state, dictionary);
+  if (error) return { ...state, error };
+
+  const boards = state.boards.map((board, i) =>
+    isFinished(board)
+      ? board
+      : submit({ ...board, currentGuess: state.currentGuess }, dictionary, evaluations?.[i], solutions?.[i])
+  );
+
+  return {
+    ...state,
+    boards,
+    currentGuess: new Array(state.wordLength).fill(''),
+    gameStatus: multiBoardStatus(boards),
+    error: null,
+  };
+}
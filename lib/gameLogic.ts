@@ -82,3 +82,42 @@ export function isVowel(letter: string): boolean {
 export function validateGuess(guess: string, wordLength: WordLength): boolean {
   return guess.length === wordLength && /^[A-Z]+$/.test(guess);
 }
+
+function ordinal(n: number): string {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  const mod100 = n % 100;
+  const suffix = mod100 >= 11 && mod100 <= 13 ? 'th' : suffixes[n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+// Hard mode: every revealed hint must be used in later guesses.
+// Returns the reason the guess is rejected, or null if it is allowed.
+export function validateHardMode(guess: string, previousGuesses: string[], evaluations: LetterState[][]): string | null {
+  for (let g = 0; g < previousGuesses.length; g++) {
+    const previous = previousGuesses[g];
+    const evaluation = evaluations[g] || [];
+
+    // Green letters must stay in place
+    for (let i = 0; i < evaluation.length; i++) {
+      if (evaluation[i] === 'correct' && guess[i] !== previous[i]) {
+        return `${ordinal(i + 1)} letter must be ${previous[i]}`;
+      }
+    }
+
+    // Yellow letters must appear somewhere (as many times as they were hinted)
+    const required = new Map<string, number>();
+    for (let i = 0; i < evaluation.length; i++) {
+      if (evaluation[i] !== 'absent') {
+        required.set(previous[i], (required.get(previous[i]) || 0) + 1);
+      }
+    }
+    for (const [letter, count] of Array.from(required.entries())) {
+      const used = guess.split('').filter(l => l === letter).length;
+      if (used < count) {
+        return `Guess must contain ${letter}`;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,59 @@
+/**
+ * Signed game state for the stateless scoring routes (/api/guess,
+ * /api/reveal). The server hands a token out with each puzzle and back with
+ * every scored guess or reveal; the client stores it with its saved game.
+ * It counts the guesses and reveals the server has actually made, so the
+ * solution only goes out for a real solve or a real final miss and letter
+ * reveals stay within the puzzle's budget.
+ * Only import this from API routes - it uses the server secret.
+ */
+
+import crypto from 'crypto';
+import { keyedHash } from './serverSecret';
+
+export interface GameTokenState {
+  puzzle: string;                 // what the token is for, see puzzleKey
+  attempts: number;               // guesses scored so far
+  reveals: number[];              // positions revealed so far, in order
+}
+
+// Dated puzzles by date and length; practice words and Gospels sets by id
+export const puzzleKey = (kind: 'day' | 'practice' | 'gospels', id: string): string => `${kind}:${id}`;
+
+const sign = (payload: string) => keyedHash(`game-token:${payload}`);
+
+export function signGameToken(state: GameTokenState): string {
+  const payload = Buffer.from(JSON.stringify(state)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// A fresh game: every player gets the same token for a puzzle, so it can be cached
+export function issueGameToken(puzzle: string): string {
+  return signGameToken({ puzzle, attempts: 0, reveals: [] });
+}
+
+// The state in `token` if the signature holds and it belongs to `puzzle`, else null
+export function readGameToken(token: unknown, puzzle: string): GameTokenState | null {
+  if (typeof token !== 'string') return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = sign(payload);
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  try {
+    const state = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as GameTokenState;
+    return state.puzzle === puzzle ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+// A number in [0, 1) fixed by the puzzle and the reveals so far, so asking
+// again with an old or fresh token always uncovers the same letter
+export function revealRandom(state: GameTokenState): number {
+  const digest = keyedHash(`reveal:${state.puzzle}:${state.reveals.join(',')}`);
+  return parseInt(digest.slice(0, 8), 16) / 0x100000000;
+}
@@ -0,0 +1,116 @@
+/**
+ * Gospels mode (/gospels): a weekend set of four answers solved with one
+ * shared guess (lib/gospelsData.ts, reduceMultiBoard in lib/engine.ts). Each
+ * board is saved as a PuzzleStateV2 under its own key, so Gospels games never
+ * touch the daily puzzles, streak or stats.
+ */
+
+import { GAME_CONFIG } from './config';
+import { MultiBoardState, createInitialState, createMultiBoardState, multiBoardStatus } from './engine';
+import { PuzzleStateV2, makeId } from './storage';
+import type { GospelsGuessResult, GospelsPuzzle } from './types';
+
+export const GOSPELS_KEY = 'verseword:gospels:v1';
+
+// Saved boards by weekend (the Saturday's date)
+type GospelsStore = Record<string, PuzzleStateV2[]>;
+
+// ---- storage ----
+
+function loadGospelsStore(): GospelsStore {
+  try {
+    const raw = typeof window !== 'undefined' ? localStorage.getItem(GOSPELS_KEY) : null;
+    return raw ? (JSON.parse(raw) as GospelsStore) : {};
+  } catch {
+    return {};
+  }
+}
+
+// `gameToken` is the one from the last scored guess, shared by every board
+export function saveGospelsGame(puzzle: GospelsPuzzle, state: MultiBoardState, gameToken: string) {
+  const updatedAt = new Date().toISOString();
+  const boards: PuzzleStateV2[] = state.boards.map((board, i) => ({
+    id: makeId(puzzle.date, puzzle.len),
+    dateISO: puzzle.date,
+    wordLength: puzzle.len,
+    attempts: board.attempts,
+    evaluations: board.evaluations,
+    solution: board.secretWord || undefined,
+    answerHash: puzzle.answerHashes[i],
+    lockedLetters: {},
+    revealedLetters: {},
+    letterRevealsRemaining: 0,
+    gameStatus: board.gameStatus,
+    attemptIndex: board.attemptIndex,
+    currentGuess: state.currentGuess,
+    completedAt: board.gameStatus === 'won' || board.gameStatus === 'lost' ? updatedAt : undefined,
+    updatedAt,
+    gameToken,
+  }));
+
+  try {
+    localStorage.setItem(GOSPELS_KEY, JSON.stringify({ ...loadGospelsStore(), [puzzle.date]: boards }));
+  } catch (error) {
+    console.error('Error saving Gospels game:', error);
+  }
+}
+
+// The saved boards for a weekend, unless the set has changed under them or
+// they were saved without a game token
+function findSavedBoards(puzzle: GospelsPuzzle): PuzzleStateV2[] | null {
+  const saved = loadGospelsStore()[puzzle.date];
+  if (!saved || saved.length !== puzzle.answerHashes.length || saved.some((b, i) => b.answerHash !== puzzle.answerHashes[i] || !b.gameToken)) {
+    return null;
+  }
+  return saved;
+}
+
+// The saved game for a weekend, or a new one if there is none
+export function loadGospelsGame(puzzle: GospelsPuzzle): MultiBoardState {
+  const fresh = createMultiBoardState({ boards: puzzle.answerHashes.length, wordLength: puzzle.len });
+  const saved = findSavedBoards(puzzle);
+  if (!saved) return fresh;
+
+  const boards = saved.map(board => ({
+    ...createInitialState({
+      secretWord: board.solution,
+      wordLength: puzzle.len,
+      maxGuesses: GAME_CONFIG.GOSPELS_MAX_GUESSES,
+      lockGreenMatchedLetters: false,
+      hardMode: false,
+    }),
+    attempts: board.attempts,
+    evaluations: board.evaluations,
+    attemptIndex: board.attemptIndex,
+    gameStatus: board.gameStatus,
+  }));
+  const currentGuess = saved[0].currentGuess?.length === puzzle.len ? saved[0].currentGuess : fresh.currentGuess;
+  return { ...fresh, boards, currentGuess, gameStatus: multiBoardStatus(boards) };
+}
+
+// The token to send with the next guess: the saved game's, or the puzzle's for a new game
+export function loadGospelsToken(puzzle: GospelsPuzzle): string {
+  return findSavedBoards(puzzle)?.[0].gameToken ?? puzzle.gameToken;
+}
+
+// ---- server ----
+
+// null when the date is not on a weekend
+export async function loadGospelsPuzzle(dateISO: string): Promise<GospelsPuzzle | null> {
+  const response = await fetch(`/api/gospels/${dateISO}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load Gospels puzzle: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Same as submitGuess in lib/daily.ts, scored on every board at once
+export async function submitGospelsGuess(dateISO: string, guess: string, gameToken: string): Promise<GospelsGuessResult> {
+  const params = new URLSearchParams({ date: dateISO, guess, token: gameToken });
+  const response = await fetch(`/api/gospels/guess?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to check guess: ${response.status}`);
+  }
+  return response.json();
+}
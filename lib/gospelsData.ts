@@ -0,0 +1,68 @@
+/**
+ * Server-side Gospels mode: a themed set of four answers, guessed together
+ * with one shared input (see lib/gospels.ts). Each weekend plays one set from
+ * lib/data/gospels-sets.json, in turn; Saturday and Sunday share it.
+ * Only import this from API routes and scripts - it reads the filesystem.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { hashAnswer } from './puzzleData';
+import { issueGameToken, puzzleKey } from './gameToken';
+import { addDays, daysBetween } from './timezone';
+import { GospelsPuzzle, WordLength } from './types';
+
+const GOSPELS_SETS_FILE = path.join(process.cwd(), 'lib', 'data', 'gospels-sets.json');
+
+// The weekend the first set plays on; later weekends take the sets in turn
+const FIRST_WEEKEND = '2025-01-04';
+
+export interface GospelsSet {
+  name: string;
+  words: string[];                // one answer per board, all the same length
+}
+
+let gospelsSets: GospelsSet[] | null = null;
+
+// Sets whose answers share one length of 5-7 letters, parsed once per server process
+export function loadGospelsSets(): GospelsSet[] {
+  if (!gospelsSets) {
+    const raw = JSON.parse(fs.readFileSync(GOSPELS_SETS_FILE, 'utf8')) as GospelsSet[];
+    gospelsSets = raw
+      .map(set => ({ name: set.name, words: set.words.map(word => word.trim().toUpperCase()) }))
+      .filter(set => {
+        const len = set.words[0]?.length;
+        const valid = len >= 5 && len <= 7 && set.words.every(word => word.length === len);
+        if (!valid) console.error(`Skipping Gospels set "${set.name}": answers must share one length of 5-7 letters`);
+        return valid;
+      });
+  }
+  return gospelsSets;
+}
+
+// The Saturday of the weekend a date falls on, or null on a weekday
+export function weekendOf(dateISO: string): string | null {
+  const day = new Date(`${dateISO}T00:00:00Z`).getUTCDay();
+  if (day === 6) return dateISO;
+  if (day === 0) return addDays(dateISO, -1);
+  return null;
+}
+
+export function findGospelsSet(dateISO: string): { date: string; set: GospelsSet } | null {
+  const saturday = weekendOf(dateISO);
+  const sets = loadGospelsSets();
+  if (!saturday || sets.length === 0) return null;
+
+  const weekend = Math.floor(daysBetween(FIRST_WEEKEND, saturday) / 7);
+  return { date: saturday, set: sets[((weekend % sets.length) + sets.length) % sets.length] };
+}
+
+export function toGospelsPuzzle(date: string, set: GospelsSet): GospelsPuzzle {
+  return {
+    date,
+    name: set.name,
+    len: set.words[0].length as WordLength,
+    answerHashes: set.words.map(hashAnswer),
+    gameToken: issueGameToken(puzzleKey('gospels', date)),
+  };
+}
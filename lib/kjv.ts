@@ -0,0 +1,107 @@
+/**
+ * Server-side access to the bundled King James Version (1769, public domain)
+ * in lib/data/kjv.json, stored as { book: [chapter][verse] -> text }.
+ * Only import this from API routes and scripts - it reads the filesystem.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { VerseRange, parseReference } from './scriptureRef';
+
+const KJV_FILE = path.join(process.cwd(), 'lib', 'data', 'kjv.json');
+
+// Longer verses don't fit the clue ribbon on a phone
+const MAX_CLUE_LENGTH = 160;
+
+export interface Verse {
+  book: string;
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+type Bible = Record<string, string[][]>;
+
+let bible: Bible | null = null;
+let versesByWord: Map<string, Verse[]> | null = null;
+
+// Parsed once per server process; the file is ~4MB
+export function loadBible(): Bible {
+  if (!bible) {
+    bible = JSON.parse(fs.readFileSync(KJV_FILE, 'utf8')) as Bible;
+  }
+  return bible;
+}
+
+export function formatVerseRef(verse: Pick<Verse, 'book' | 'chapter' | 'verse'>): string {
+  return `${verse.book} ${verse.chapter}:${verse.verse}`;
+}
+
+// Whole-word, case-insensitive; `word` must be letters only
+function wordPattern(word: string): RegExp {
+  return new RegExp(`\\b${word}\\b`, 'gi');
+}
+
+// Verses by every word they contain (uppercased), built once per server process
+function loadVerseIndex(): Map<string, Verse[]> {
+  if (!versesByWord) {
+    const index = new Map<string, Verse[]>();
+    for (const [book, chapters] of Object.entries(loadBible())) {
+      chapters.forEach((verses, c) => {
+        verses.forEach((text, v) => {
+          const verse: Verse = { book, chapter: c + 1, verse: v + 1, text };
+          new Set(text.toUpperCase().match(/\w+/g) ?? []).forEach(word => {
+            const list = index.get(word);
+            if (list) list.push(verse);
+            else index.set(word, [verse]);
+          });
+        });
+      });
+    }
+    versesByWord = index;
+  }
+  return versesByWord;
+}
+
+// Every verse containing `word` as a whole word, in canonical order
+export function findVersesWithWord(word: string): Verse[] {
+  return loadVerseIndex().get(word.toUpperCase()) ?? [];
+}
+
+// Replaces every occurrence of `word` with one underscore per letter
+export function blankWord(text: string, word: string): string {
+  return text.replace(wordPattern(word), '_'.repeat(word.length));
+}
+
+// The same verse for a given word and seed (the puzzle date) on every request,
+// preferring ones short enough to read at a glance
+export function pickVerse(word: string, seed: string): Verse | null {
+  const matches = findVersesWithWord(word);
+  if (matches.length === 0) return null;
+
+  const short = matches.filter(v => v.text.length <= MAX_CLUE_LENGTH);
+  const pool = short.length > 0 ? short : matches;
+  const hash = crypto.createHash('sha256').update(`${seed}:${word.toUpperCase()}`).digest();
+  return pool[hash.readUInt32BE(0) % pool.length];
+}
+
+// Verses of one range; out-of-range chapters or verses are simply left out
+export function getVerses(range: VerseRange): Verse[] {
+  const verses = loadBible()[range.book]?.[range.chapter - 1] ?? [];
+  const first = Math.max(range.verseStart ?? 1, 1);
+  const last = Math.min(range.verseEnd ?? verses.length, verses.length);
+
+  const result: Verse[] = [];
+  for (let v = first; v <= last; v++) {
+    result.push({ book: range.book, chapter: range.chapter, verse: v, text: verses[v - 1] });
+  }
+  return result;
+}
+
+// Text for a reference such as "Gen. 11:27-32" or "Ps 23"; null if it can't be parsed
+export function resolveReference(ref: string): Verse[] | null {
+  const ranges = parseReference(ref);
+  if (!ranges) return null;
+  return ranges.reduce<Verse[]>((all, range) => all.concat(getVerses(range)), []);
+}
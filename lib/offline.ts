@@ -0,0 +1,61 @@
+/**
+ * Page-side helpers for the offline service worker in public/sw.js.
+ */
+
+export interface OfflineCacheState {
+  version: string;
+  shellEntries: number;
+  dictionaries: number[];         // word lengths with a cached dictionary
+  puzzleDays: number;
+  puzzlesFrom: string | null;     // YYYY-MM-DD
+  puzzlesTo: string | null;
+  updatedAt: string | null;       // when the puzzle pack was built
+}
+
+const SW_URL = '/sw.js';
+const MESSAGE_TIMEOUT_MS = 10000;
+
+export function isOfflineSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+// Guesses and reveals are scored by the server, so they fail while this is true
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+// Only register in production builds - in dev the worker would cache hot-reload chunks
+export function registerServiceWorker(): void {
+  if (!isOfflineSupported() || process.env.NODE_ENV !== 'production') return;
+
+  navigator.serviceWorker.register(SW_URL).catch((error) => {
+    console.error('Service worker registration failed:', error);
+  });
+}
+
+async function askWorker(type: 'GET_CACHE_STATE' | 'REFRESH_CACHE'): Promise<OfflineCacheState | null> {
+  if (!isOfflineSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const worker = registration?.active;
+  if (!worker) return null;
+
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    const timer = window.setTimeout(() => resolve(null), MESSAGE_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      window.clearTimeout(timer);
+      resolve(event.data as OfflineCacheState);
+    };
+    worker.postMessage({ type }, [channel.port2]);
+  });
+}
+
+export function getOfflineCacheState(): Promise<OfflineCacheState | null> {
+  return askWorker('GET_CACHE_STATE');
+}
+
+// Re-download the dictionaries and the released puzzles
+export function refreshOfflineCache(): Promise<OfflineCacheState | null> {
+  return askWorker('REFRESH_CACHE');
+}
@@ -0,0 +1,139 @@
+/**
+ * Practice mode (/?practice=true): words from the curated list, one after
+ * another, never the answer of a day that is not over yet (see lib/practiceData.ts). Practice games live under their own key with their own
+ * history and stats, so they never touch the daily puzzles, streak or stats
+ * (lib/storage.ts, lib/stats.ts).
+ */
+
+import { LengthStats, statsByLength } from './stats';
+import type { GuessResult, LetterState, PracticePuzzle, RevealResult, WordLength } from './types';
+
+export const PRACTICE_KEY = 'verseword:practice:v1';
+
+// Recent words the server is asked not to repeat
+const RECENT_LIMIT = 50;
+const HISTORY_LIMIT = 500;
+
+export interface PracticeGame {
+  id: string;
+  wordLength: WordLength;
+  clue: string;
+  answerHash: string;
+  gameToken?: string;             // see lib/gameToken.ts
+  attempts: string[];
+  evaluations: LetterState[][];
+  revealedLetters: Record<number, string>;
+  letterRevealsRemaining: number;
+  gameStatus: 'not_started' | 'playing' | 'won' | 'lost';
+  solution?: string;              // only known once the game is over
+  hardMode?: boolean;
+}
+
+export interface PracticeResult {
+  id: string;
+  wordLength: WordLength;
+  solution: string;
+  won: boolean;
+  guesses: number;
+  hardMode?: boolean;
+  completedAt: string;
+}
+
+interface PracticeStore {
+  current: PracticeGame | null;
+  history: PracticeResult[];      // oldest first
+}
+
+export interface PracticeStats {
+  played: number;
+  wins: number;
+  guessDistribution: number[];    // index 0 = won in 1 guess, etc.
+  bestRun: number;                // most wins in a row
+  byLength: Record<WordLength, LengthStats>;
+}
+
+// ---- storage ----
+
+export function loadPracticeStore(): PracticeStore {
+  try {
+    const raw = typeof window !== 'undefined' ? localStorage.getItem(PRACTICE_KEY) : null;
+    const store = raw ? (JSON.parse(raw) as Partial<PracticeStore>) : {};
+    return { current: store.current ?? null, history: Array.isArray(store.history) ? store.history : [] };
+  } catch {
+    return { current: null, history: [] };
+  }
+}
+
+function savePracticeStore(store: PracticeStore) {
+  try {
+    localStorage.setItem(PRACTICE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('Error saving practice games:', error);
+  }
+}
+
+export function savePracticeGame(game: PracticeGame | null) {
+  savePracticeStore({ ...loadPracticeStore(), current: game });
+}
+
+export function recordPracticeResult(result: PracticeResult) {
+  const store = loadPracticeStore();
+  const history = store.history.concat(result).slice(-HISTORY_LIMIT);
+  savePracticeStore({ ...store, history });
+}
+
+export function recentPracticeIds(): string[] {
+  return loadPracticeStore().history.slice(-RECENT_LIMIT).map(r => r.id);
+}
+
+export function practiceStats(history: PracticeResult[] = loadPracticeStore().history): PracticeStats {
+  const guessDistribution = [0, 0, 0, 0, 0, 0, 0];
+  let run = 0;
+  let bestRun = 0;
+  history.forEach(r => {
+    if (r.won) {
+      guessDistribution[Math.min(7, r.guesses) - 1] += 1;
+      run += 1;
+      bestRun = Math.max(bestRun, run);
+    } else {
+      run = 0;
+    }
+  });
+  return {
+    played: history.length,
+    wins: history.filter(r => r.won).length,
+    guessDistribution,
+    bestRun,
+    byLength: statsByLength(history),
+  };
+}
+
+// ---- server ----
+
+export async function loadPracticePuzzle(length: WordLength, exclude: string[] = []): Promise<PracticePuzzle> {
+  const params = new URLSearchParams({ length: String(length), exclude: exclude.join(',') });
+  const response = await fetch(`/api/practice?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load practice word: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Same as submitGuess in lib/daily.ts, for a practice word
+export async function submitPracticeGuess(id: string, guess: string, gameToken: string): Promise<GuessResult> {
+  const params = new URLSearchParams({ practice: id, guess, token: gameToken });
+  const response = await fetch(`/api/guess?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to check guess: ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function requestPracticeReveal(id: string, gameToken: string): Promise<RevealResult> {
+  const params = new URLSearchParams({ practice: id, token: gameToken });
+  const response = await fetch(`/api/reveal?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Failed to reveal letter: ${response.status}`);
+  }
+  return response.json();
+}
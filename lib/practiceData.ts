@@ -0,0 +1,113 @@
+/**
+ * Server-side practice words: the curated biblical word list, not the
+ * schedule. Answers of days that are not yet over everywhere are held back
+ * until they are, so practice never plays an upcoming daily puzzle. Each word
+ * is addressed by an id derived from its answer hash, so /api/guess and
+ * /api/reveal can score it without the answer ever reaching the client (same
+ * as dated puzzles).
+ * Only import this from API routes and scripts - it reads the filesystem.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Verse, blankWord, pickVerse } from './kjv';
+import { issueGameToken, puzzleKey } from './gameToken';
+import { hashAnswer, listPuzzleYears, loadClues, loadDictionaryWords, loadPuzzleRange } from './puzzleData';
+import { addDays, todayISO } from './timezone';
+import { CluesData, PracticePuzzle, WordLength } from './types';
+
+const PRACTICE_WORDS_FILE = path.join(process.cwd(), 'lib', 'data', 'biblical_words_curated_STRICT.json');
+const WORD_LENGTHS: WordLength[] = [5, 6, 7];
+
+export const PRACTICE_ID = /^[0-9a-f]{12}$/;
+
+export const practiceId = (word: string): string => hashAnswer(word).slice(0, 12);
+
+let practiceWords: Record<WordLength, string[]> | null = null;
+let wordsById: Map<string, string> | null = null;
+let allClues: CluesData | null = null;
+let heldBack: { from: string; words: Set<string> } | null = null;
+
+// Curated words by length that are also valid guesses, parsed once per server process
+export function loadPracticeWords(length: WordLength): string[] {
+  if (!practiceWords) {
+    const curated = JSON.parse(fs.readFileSync(PRACTICE_WORDS_FILE, 'utf8')) as string[];
+    const words = Array.from(new Set(curated.map(word => word.trim().toUpperCase())));
+    practiceWords = { 5: [], 6: [], 7: [] };
+    WORD_LENGTHS.forEach(len => {
+      const dictionary = new Set(loadDictionaryWords(len));
+      (practiceWords as Record<WordLength, string[]>)[len] = words.filter(word => dictionary.has(word));
+    });
+  }
+  return practiceWords[length];
+}
+
+// Answers scheduled from yesterday (puzzle timezone) on: players west of it
+// may still be on yesterday's puzzle, and later days are not released yet.
+// Recomputed once a day.
+function isHeldBack(word: string): boolean {
+  const from = addDays(todayISO('global'), -1);
+  if (!heldBack || heldBack.from !== from) {
+    heldBack = { from, words: new Set(loadPuzzleRange(from).map(p => p.word.toUpperCase())) };
+  }
+  return heldBack.words.has(word);
+}
+
+export function findPracticeWord(id: string): string | null {
+  if (!wordsById) {
+    wordsById = new Map();
+    WORD_LENGTHS.forEach(length => {
+      loadPracticeWords(length).forEach(word => (wordsById as Map<string, string>).set(practiceId(word), word));
+    });
+  }
+  const word = wordsById.get(id);
+  return word && !isHeldBack(word) ? word : null;
+}
+
+function writtenClue(word: string): string | undefined {
+  if (!allClues) {
+    const clues: CluesData = {};
+    listPuzzleYears().forEach(year => {
+      Object.entries(loadClues(year)).forEach(([key, clue]) => {
+        if (clue.trim()) clues[key.toUpperCase()] = clue;
+      });
+    });
+    allClues = clues;
+  }
+  return allClues[word];
+}
+
+// The verse a practice word is clued with, when it has no written clue
+export function practiceVerse(word: string): Verse | null {
+  return writtenClue(word) ? null : pickVerse(word, 'practice');
+}
+
+// A written clue from any year (newest wins), else a KJV verse with the word
+// blanked; most curated words were never scheduled, so have no written clue.
+// The verse's reference would give the answer away, so it only comes with the
+// solution (see /api/guess).
+function practiceClue(word: string): string | null {
+  const written = writtenClue(word);
+  if (written) return written;
+
+  const verse = pickVerse(word, 'practice');
+  return verse ? blankWord(verse.text, word) : null;
+}
+
+// A random practice word of `length`, skipping the ids in `exclude` (the
+// player's recent words) until every word has been excluded
+export function pickPracticePuzzle(length: WordLength, exclude: Set<string>): PracticePuzzle | null {
+  const words = loadPracticeWords(length).filter(word => !isHeldBack(word));
+  const fresh = words.filter(word => !exclude.has(practiceId(word)));
+  const pool = (fresh.length > 0 ? fresh : words).slice();
+
+  while (pool.length > 0) {
+    const [word] = pool.splice(Math.floor(Math.random() * pool.length), 1);
+    const clue = practiceClue(word);
+    if (clue) {
+      const id = practiceId(word);
+      return { id, len: length, clue, answerHash: hashAnswer(word), gameToken: issueGameToken(puzzleKey('practice', id)) };
+    }
+  }
+  return null;
+}
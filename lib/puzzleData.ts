@@ -0,0 +1,185 @@
+/**
+ * Server-side access to the scheduled puzzles in lib/data/puzzles-{year}.json.
+ * Only import this from API routes and scripts - it reads the filesystem.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { estimateDifficulty } from './difficulty';
+import { keyedHash } from './serverSecret';
+import { CluesData, Difficulty, PuzzleData, WordDefinition, WordDefinitionsData } from './types';
+
+const DATA_DIR = path.join(process.cwd(), 'lib', 'data');
+const PUZZLE_FILE = /^puzzles-(\d{4})\.json$/;
+const WORD_DEFINITIONS_FILE = /^word-definitions-(\d{4})\.json$/;
+
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+// Optional ?length= for picking one of a day's puzzles
+export const WORD_LENGTH_PARAM = /^[567]$/;
+
+/**
+ * One day in puzzles-{year}.json: a single answer, or up to one answer per
+ * word length. The first listed is the day's main puzzle, which is what
+ * requests without a length, share links and the schedule editor use.
+ *   "2025-08-25": { "word": "ABRAHAM" }
+ *   "2026-03-01": { "words": ["ABRAHAM", "DAVID", "JOSEPH"] }
+ */
+export type PuzzleFileDay = { word: string } | { words: string[] };
+
+export function puzzleFileWords(day: PuzzleFileDay): string[] {
+  return 'words' in day ? day.words : [day.word];
+}
+
+// The single-answer form where possible, so existing files stay as they are
+export function toPuzzleFileDay(words: string[]): PuzzleFileDay {
+  return words.length === 1 ? { word: words[0] } : { words };
+}
+
+// Years that have a puzzles-{year}.json file, oldest first
+export function listPuzzleYears(): number[] {
+  return fs
+    .readdirSync(DATA_DIR)
+    .map(name => name.match(PUZZLE_FILE))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => Number(m[1]))
+    .sort((a, b) => a - b);
+}
+
+export function loadPuzzleYear(year: number): PuzzleData[] {
+  const filePath = path.join(DATA_DIR, `puzzles-${year}.json`);
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, PuzzleFileDay>;
+
+  const puzzles: PuzzleData[] = [];
+  Object.entries(raw).forEach(([date, day]) => {
+    puzzleFileWords(day).forEach((word, i) => {
+      puzzles.push({ date, word, len: word.length, main: i === 0 });
+    });
+  });
+  return puzzles;
+}
+
+// Every scheduled puzzle across all year files, sorted by date (each day's
+// main puzzle first)
+export function loadAllPuzzles(): PuzzleData[] {
+  const puzzles: PuzzleData[] = [];
+
+  for (const year of listPuzzleYears()) {
+    try {
+      puzzles.push(...loadPuzzleYear(year));
+    } catch (error) {
+      console.error(`Error reading puzzles-${year}.json:`, error);
+    }
+  }
+
+  return puzzles.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Inclusive YYYY-MM-DD range; either end may be left open
+export function loadPuzzleRange(from?: string, to?: string): PuzzleData[] {
+  return loadAllPuzzles().filter(p => (!from || p.date >= from) && (!to || p.date <= to));
+}
+
+// The day's puzzle of `length`, or its main puzzle
+export function findPuzzle(date: string, length?: number): PuzzleData | null {
+  const year = Number(date.slice(0, 4));
+  try {
+    return loadPuzzleYear(year).find(p => p.date === date && (length ? p.len === length : p.main)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function loadClues(year: number): CluesData {
+  try {
+    const filePath = path.join(DATA_DIR, `clues-${year}.json`);
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as CluesData;
+  } catch {
+    return {};
+  }
+}
+
+// Case-agnostic clue lookup
+export function findClue(clues: CluesData, word: string): string {
+  const normalizedWord = word.toUpperCase();
+  const matchingKey = Object.keys(clues).find(key => key.toUpperCase() === normalizedWord);
+  return matchingKey ? clues[matchingKey] : "I literally have no clue";
+}
+
+// Years that have a word-definitions-{year}.json file, newest first
+export function listWordDefinitionYears(): number[] {
+  return fs
+    .readdirSync(DATA_DIR)
+    .map(name => name.match(WORD_DEFINITIONS_FILE))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => Number(m[1]))
+    .sort((a, b) => b - a);
+}
+
+export function loadWordDefinitions(year: number): WordDefinitionsData {
+  try {
+    const filePath = path.join(DATA_DIR, `word-definitions-${year}.json`);
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as WordDefinitionsData;
+  } catch {
+    return { metadata: {}, definitions: {} };
+  }
+}
+
+// Definitions for a puzzle answer, from `year`'s file if given, else the newest
+// file that has the word (answers can repeat across years)
+export function findWordDefinition(word: string, year?: number): WordDefinition[] | null {
+  const upperWord = word.toUpperCase();
+  const years = listWordDefinitionYears();
+  const ordered = year && years.includes(year) ? [year, ...years.filter(y => y !== year)] : years;
+
+  for (const y of ordered) {
+    const definitions = loadWordDefinitions(y).definitions[upperWord];
+    if (definitions) return definitions;
+  }
+  return null;
+}
+
+const dictionaryCache = new Map<number, string[]>();
+
+// Guess dictionary for a word length, uppercased
+export function loadDictionaryWords(length: number): string[] {
+  let words = dictionaryCache.get(length);
+  if (!words) {
+    const filePath = path.join(DATA_DIR, `dictionary${length}.json`);
+    words = (JSON.parse(fs.readFileSync(filePath, 'utf8')) as string[]).map(word => word.toUpperCase());
+    dictionaryCache.set(length, words);
+  }
+  return words;
+}
+
+const dictionarySets = new Map<number, Set<string>>();
+
+export function isDictionaryWord(word: string): boolean {
+  const upperWord = word.toUpperCase();
+  if (upperWord.length < 5 || upperWord.length > 7) return false;
+  let words = dictionarySets.get(upperWord.length);
+  if (!words) {
+    words = new Set(loadDictionaryWords(upperWord.length));
+    dictionarySets.set(upperWord.length, words);
+  }
+  return words.has(upperWord);
+}
+
+// Scoring runs the reference solver, so each answer is only scored once per
+// server process (dictionaries only change with a deploy)
+const difficultyCache = new Map<string, Difficulty>();
+
+export function answerDifficulty(word: string): Difficulty {
+  const upperWord = word.toUpperCase();
+  let difficulty = difficultyCache.get(upperWord);
+  if (!difficulty) {
+    difficulty = estimateDifficulty(upperWord, loadDictionaryWords(upperWord.length));
+    difficultyCache.set(upperWord, difficulty);
+  }
+  return difficulty;
+}
+
+// Lets a client confirm a solved puzzle without being sent the answer. Keyed
+// with the server secret: a plain hash of a dictionary word is a lookup away.
+export function hashAnswer(word: string): string {
+  return keyedHash(`answer:${word.toUpperCase()}`);
+}
@@ -0,0 +1,26 @@
+/**
+ * Puzzle numbers: #1 is the Aug 25, 2025 puzzle and every calendar day after
+ * it adds one. Conversions work on YYYY-MM-DD strings only, so they give the
+ * same answer in every timezone; "today" comes from lib/timezone.ts.
+ */
+
+import { addDays, daysBetween, todayISO } from './timezone';
+
+export const FIRST_PUZZLE_DATE = '2025-08-25';
+
+export function puzzleNumberFor(dateISO: string): number {
+  return daysBetween(FIRST_PUZZLE_DATE, dateISO) + 1;
+}
+
+export function dateForPuzzleNumber(puzzleNumber: number): string {
+  return addDays(FIRST_PUZZLE_DATE, puzzleNumber - 1);
+}
+
+export function isValidPuzzleNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+// Today's number under the player's rollover setting
+export function todayPuzzleNumber(): number {
+  return puzzleNumberFor(todayISO());
+}
@@ -0,0 +1,135 @@
+/**
+ * Export and import of everything Verseword keeps in localStorage, as one
+ * versioned JSON file. Puzzles are merged per PuzzleId on import; stats are
+ * rebuilt from the merged puzzles afterwards.
+ */
+
+import { PuzzlesById, V2_KEY, isPreviewKey, loadAll, normalizePuzzleState, pickPuzzleState, saveAll } from './storage';
+import { loadStats, saveStats, STATS_KEY } from './stats';
+
+export const SAVE_FILE_FORMAT = 'verseword-save';
+export const SAVE_FILE_VERSION = 1;
+
+const SETTINGS_KEY = 'verseword-settings';
+
+export interface SaveFile {
+  format: typeof SAVE_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: Record<string, string>;   // raw localStorage values by key
+}
+
+export interface ImportSummary {
+  added: number;        // puzzles that were not on this device
+  replaced: number;     // puzzles where the imported game won the conflict
+  kept: number;         // puzzles where this device's game was kept
+  skipped: number;      // records that failed validation
+  otherKeys: number;    // settings and other keys restored
+}
+
+// Editor playtests stay on the device they were played on
+const isVersewordKey = (key: string) => (key.startsWith('verseword:') && !isPreviewKey(key)) || key.startsWith('verseword-');
+
+export function exportSaveData(): SaveFile {
+  const data: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && isVersewordKey(key)) {
+      data[key] = localStorage.getItem(key) ?? '';
+    }
+  }
+
+  return {
+    format: SAVE_FILE_FORMAT,
+    version: SAVE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+}
+
+// Trigger a browser download of the current save data
+export function downloadSaveFile(): void {
+  const file = exportSaveData();
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `verseword-save-${file.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function parseSaveFile(text: string): SaveFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+
+  const file = parsed as Partial<SaveFile> | null;
+  if (!file || file.format !== SAVE_FILE_FORMAT) {
+    throw new Error('This is not a Verseword save file.');
+  }
+  if (typeof file.version !== 'number' || file.version > SAVE_FILE_VERSION) {
+    throw new Error('This save file was made by a newer version of Verseword.');
+  }
+  if (!file.data || typeof file.data !== 'object') {
+    throw new Error('This save file has no data.');
+  }
+
+  return file as SaveFile;
+}
+
+export function importSaveData(file: SaveFile): ImportSummary {
+  const summary: ImportSummary = { added: 0, replaced: 0, kept: 0, skipped: 0, otherKeys: 0 };
+
+  // Puzzles: validate each record, then merge per PuzzleId
+  const rawPuzzles = file.data[V2_KEY];
+  if (rawPuzzles) {
+    let incoming: Record<string, unknown> = {};
+    try {
+      incoming = JSON.parse(rawPuzzles);
+    } catch {
+      throw new Error('The puzzle history in this save file is corrupted.');
+    }
+
+    const merged: PuzzlesById = loadAll('player');
+    for (const [id, value] of Object.entries(incoming)) {
+      const state = normalizePuzzleState(value);
+      if (!state || state.id !== id) {
+        summary.skipped++;
+        continue;
+      }
+
+      const current = merged[state.id];
+      if (!current) {
+        merged[state.id] = state;
+        summary.added++;
+      } else if (pickPuzzleState(current, state) === state) {
+        merged[state.id] = state;
+        summary.replaced++;
+      } else {
+        summary.kept++;
+      }
+    }
+    saveAll(merged, 'player');
+  }
+
+  // Everything else: imported settings win, other keys only fill gaps
+  for (const [key, value] of Object.entries(file.data)) {
+    if (!isVersewordKey(key) || key === V2_KEY || key === STATS_KEY || typeof value !== 'string') continue;
+    if (key === SETTINGS_KEY || localStorage.getItem(key) === null) {
+      localStorage.setItem(key, value);
+      summary.otherKeys++;
+    }
+  }
+
+  // Stats are derived from the puzzles, so rebuild them from the merged set
+  saveStats(loadStats());
+
+  return summary;
+}
@@ -0,0 +1,54 @@
+import { ScheduleEntry } from './types';
+
+// Editor-only client for /api/admin/schedule; the password rides along in a
+// header, which lib/adminAuth.ts checks
+export const ADMIN_PASSWORD_HEADER = 'x-admin-password';
+
+// Kept for the tab only, so closing it signs the editor out
+const EDITOR_KEY_STORAGE = 'verseword:admin-password';
+
+// The password entered on /admin/schedule; also unlocks ?preview=true playtests
+export function getEditorKey(): string | null {
+  return typeof window !== 'undefined' ? sessionStorage.getItem(EDITOR_KEY_STORAGE) : null;
+}
+
+export function setEditorKey(key: string | null): void {
+  if (key) {
+    sessionStorage.setItem(EDITOR_KEY_STORAGE, key);
+  } else {
+    sessionStorage.removeItem(EDITOR_KEY_STORAGE);
+  }
+}
+
+export type ScheduleChange =
+  | { action: 'assign'; date: string; word: string }
+  | { action: 'swap'; date: string; otherDate: string }
+  | { action: 'clue'; date: string; clue: string };
+
+// null if the password is wrong
+async function readResponse(response: Response): Promise<ScheduleEntry[] | null> {
+  if (response.status === 401) return null;
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Schedule request failed: ${response.status}`);
+  }
+  return data.entries;
+}
+
+export async function loadSchedule(password: string, from: string, to: string): Promise<ScheduleEntry[] | null> {
+  const params = new URLSearchParams({ from, to });
+  const response = await fetch(`/api/admin/schedule?${params.toString()}`, {
+    headers: { [ADMIN_PASSWORD_HEADER]: password },
+  });
+  return readResponse(response);
+}
+
+// The days that changed, or null if the password is wrong
+export async function updateSchedule(password: string, change: ScheduleChange): Promise<ScheduleEntry[] | null> {
+  const response = await fetch('/api/admin/schedule', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [ADMIN_PASSWORD_HEADER]: password },
+    body: JSON.stringify(change),
+  });
+  return readResponse(response);
+}
@@ -0,0 +1,251 @@
+/**
+ * Reads and edits the puzzle schedule for /admin/schedule (see
+ * /api/admin/schedule). Only import this from API routes - it writes
+ * lib/data/puzzles-{year}.json and clues-{year}.json, so edits only stick
+ * when the app runs from a checkout (`next dev` or `next start`) and still
+ * need committing like any other data change.
+ * The editor manages each day's main puzzle; a day's other lengths (see
+ * PuzzleFileDay) are kept as they are.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_NO_REPEAT_DAYS } from './dataValidation';
+import { PuzzleFileDay, findWordDefinition, loadAllPuzzles, loadClues, puzzleFileWords, toPuzzleFileDay } from './puzzleData';
+import { puzzleNumberFor } from './puzzleNumber';
+import { addDays, daysBetween, isReleased } from './timezone';
+import { CluesData, ScheduleEntry, ScheduleWarning } from './types';
+
+const DATA_DIR = path.join(process.cwd(), 'lib', 'data');
+const WORD_LENGTHS = [5, 6, 7];
+
+type PuzzleFile = Record<string, PuzzleFileDay>;
+
+function readDataFile<T>(file: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(DATA_DIR, file), 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+// Same layout as scripts/buildData.ts writes, via a temp file so a crash
+// never leaves half a schedule behind
+function writeDataFile(file: string, data: unknown) {
+  const filePath = path.join(DATA_DIR, file);
+  fs.writeFileSync(`${filePath}.tmp`, JSON.stringify(data, null, 2));
+  fs.renameSync(`${filePath}.tmp`, filePath);
+}
+
+function loadDictionaries(): Record<number, Set<string>> {
+  const dictionaries: Record<number, Set<string>> = {};
+  WORD_LENGTHS.forEach(length => {
+    const words = readDataFile<string[]>(`dictionary${length}.json`, []);
+    dictionaries[length] = new Set(words.map(word => word.toUpperCase()));
+  });
+  return dictionaries;
+}
+
+// Clue files key words in any case (see findClue)
+function clueKey(clues: CluesData, word: string): string | undefined {
+  return Object.keys(clues).find(key => key.toUpperCase() === word);
+}
+
+export function isValidAnswer(word: string): boolean {
+  return /^[A-Z]+$/.test(word) && WORD_LENGTHS.includes(word.length);
+}
+
+// Released days are already being played, so they never change
+export function isEditableDate(date: string): boolean {
+  return !isReleased(date);
+}
+
+// Every day from `from` to `to` inclusive, with or without a puzzle
+export function loadSchedule(from: string, to: string): ScheduleEntry[] {
+  const puzzles = loadAllPuzzles();
+  const dictionaries = loadDictionaries();
+  const scheduled = new Map(puzzles.filter(p => p.main).map(p => [p.date, p.word.toUpperCase()] as [string, string]));
+  const otherWords = new Map<string, string[]>();
+  puzzles.filter(p => !p.main).forEach(p => {
+    otherWords.set(p.date, (otherWords.get(p.date) ?? []).concat(p.word.toUpperCase()));
+  });
+
+  // Dates each word was the answer on, oldest first
+  const usedOn = new Map<string, string[]>();
+  puzzles.forEach(p => {
+    const word = p.word.toUpperCase();
+    usedOn.set(word, (usedOn.get(word) ?? []).concat(p.date));
+  });
+
+  const cluesByYear = new Map<number, CluesData>();
+  const cluesFor = (year: number) => {
+    if (!cluesByYear.has(year)) cluesByYear.set(year, loadClues(year));
+    return cluesByYear.get(year) as CluesData;
+  };
+
+  const entries: ScheduleEntry[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const word = scheduled.get(date) ?? null;
+    const entry: ScheduleEntry = {
+      date,
+      puzzleNumber: puzzleNumberFor(date),
+      word,
+      otherWords: otherWords.get(date) ?? [],
+      clue: null,
+      released: isReleased(date),
+      lastUsed: null,
+      warnings: [],
+    };
+
+    if (word) {
+      const clues = cluesFor(Number(date.slice(0, 4)));
+      const key = clueKey(clues, word);
+      entry.clue = key ? clues[key] : null;
+
+      const previous = (usedOn.get(word) ?? []).filter(d => d < date).pop();
+      if (previous) {
+        entry.lastUsed = { date: previous, daysAgo: daysBetween(previous, date) };
+      }
+
+      const warnings: ScheduleWarning[] = [];
+      if (!dictionaries[word.length]?.has(word)) warnings.push('not_in_dictionary');
+      if (!entry.clue) warnings.push('missing_clue');
+      if (!findWordDefinition(word)) warnings.push('missing_definition');
+      if (entry.lastUsed && entry.lastUsed.daysAgo <= DEFAULT_NO_REPEAT_DAYS) warnings.push('duplicate_answer');
+      entry.warnings = warnings;
+    }
+
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+const puzzleFileFor = (date: string) => `puzzles-${date.slice(0, 4)}.json`;
+
+// Each day's main answer, by date
+const mainWords = () =>
+  new Map(loadAllPuzzles().filter(p => p.main).map(p => [p.date, p.word.toUpperCase()] as [string, string]));
+
+const otherWordsOn = (puzzles: PuzzleFile, date: string) =>
+  puzzles[date] ? puzzleFileWords(puzzles[date]).slice(1) : [];
+
+// A day has at most one puzzle per length
+function lengthConflict(puzzles: PuzzleFile, date: string, word: string | null): string | null {
+  return word && otherWordsOn(puzzles, date).some(other => other.length === word.length)
+    ? `${date} already has a ${word.length}-letter puzzle`
+    : null;
+}
+
+// The day's answers with `word` as its main puzzle, keeping its other lengths.
+// Removing the main puzzle promotes the next one.
+function withMainWord(puzzles: PuzzleFile, date: string, word: string | null): string[] {
+  const conflict = lengthConflict(puzzles, date, word);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+  const others = otherWordsOn(puzzles, date);
+  return word ? [word].concat(others) : others;
+}
+
+// Why `word` can't become the day's main puzzle, or null if it can
+export function assignConflict(date: string, word: string | null): string | null {
+  return lengthConflict(readDataFile<PuzzleFile>(puzzleFileFor(date), {}), date, word);
+}
+
+// The same check for both days of a swap (see swapWords)
+export function swapConflict(date: string, otherDate: string): string | null {
+  const scheduled = mainWords();
+  return assignConflict(date, scheduled.get(otherDate) ?? null)
+    ?? assignConflict(otherDate, scheduled.get(date) ?? null);
+}
+
+function setScheduledWord(date: string, word: string | null) {
+  if (!isEditableDate(date)) {
+    throw new Error(`${date} is already released`);
+  }
+
+  const file = puzzleFileFor(date);
+  const puzzles = readDataFile<PuzzleFile>(file, {});
+  const words = withMainWord(puzzles, date, word);
+  if (words.length > 0) {
+    puzzles[date] = toPuzzleFileDay(words);
+  } else {
+    delete puzzles[date];
+  }
+
+  const sorted: PuzzleFile = {};
+  Object.keys(puzzles).sort().forEach(d => { sorted[d] = puzzles[d]; });
+  writeDataFile(file, sorted);
+
+  if (word) copyClueIfMissing(Number(date.slice(0, 4)), word);
+}
+
+// A word moving into a new year brings its clue along from the newest year
+// that has one; otherwise the editor writes one (see setClue)
+function copyClueIfMissing(year: number, word: string) {
+  const file = `clues-${year}.json`;
+  const clues = readDataFile<CluesData>(file, {});
+  if (clueKey(clues, word)) return;
+
+  const years = fs
+    .readdirSync(DATA_DIR)
+    .map(name => name.match(/^clues-(\d{4})\.json$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(m => Number(m[1]))
+    .filter(y => y !== year)
+    .sort((a, b) => b - a);
+
+  for (const y of years) {
+    const other = loadClues(y);
+    const key = clueKey(other, word);
+    if (key && other[key].trim()) {
+      clues[word] = other[key];
+      writeDataFile(file, clues);
+      return;
+    }
+  }
+}
+
+export function assignWord(date: string, word: string) {
+  setScheduledWord(date, word.toUpperCase());
+}
+
+// Swaps the answers on two days; either day may be empty, which moves the other
+export function swapWords(date: string, otherDate: string) {
+  const scheduled = mainWords();
+  const word = scheduled.get(date) ?? null;
+  const otherWord = scheduled.get(otherDate) ?? null;
+
+  if (!isEditableDate(date) || !isEditableDate(otherDate)) {
+    throw new Error(`Can't swap ${date} and ${otherDate}: released days are read-only`);
+  }
+  // Check both days before writing either
+  const conflict = swapConflict(date, otherDate);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+
+  setScheduledWord(date, otherWord);
+  setScheduledWord(otherDate, word);
+}
+
+// Clues are per word, so this also changes the clue for any other day that
+// year with the same answer
+export function setClue(date: string, clue: string) {
+  if (!isEditableDate(date)) {
+    throw new Error(`${date} is already released`);
+  }
+
+  const puzzle = loadAllPuzzles().find(p => p.date === date && p.main);
+  if (!puzzle) {
+    throw new Error(`No puzzle is scheduled on ${date}`);
+  }
+
+  const word = puzzle.word.toUpperCase();
+  const file = `clues-${date.slice(0, 4)}.json`;
+  const clues = readDataFile<CluesData>(file, {});
+  clues[clueKey(clues, word) ?? word] = clue.trim();
+  writeDataFile(file, clues);
+}
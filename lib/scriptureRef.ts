@@ -0,0 +1,412 @@
+/**
+ * Scripture references as they appear in Easton's dictionary and the word
+ * definitions ("Gen. 11:27", "Ps 23", "1 Cor. 13:4-7"): book names, aliases,
+ * parsing into chapter/verse ranges, canonical formatting
+ * and finding references in running text.
+ */
+
+// Canonical 66-book order (Protestant)
+export const BOOKS_CANONICAL_ORDER: string[] = [
+  'Genesis', 'Exodus', 'Leviticus', 'Numbers', 'Deuteronomy',
+  'Joshua', 'Judges', 'Ruth', '1 Samuel', '2 Samuel',
+  '1 Kings', '2 Kings', '1 Chronicles', '2 Chronicles', 'Ezra',
+  'Nehemiah', 'Esther', 'Job', 'Psalms', 'Proverbs',
+  'Ecclesiastes', 'Song of Solomon', 'Isaiah', 'Jeremiah', 'Lamentations',
+  'Ezekiel', 'Daniel', 'Hosea', 'Joel', 'Amos',
+  'Obadiah', 'Jonah', 'Micah', 'Nahum', 'Habakkuk',
+  'Zephaniah', 'Haggai', 'Zechariah', 'Malachi',
+  'Matthew', 'Mark', 'Luke', 'John', 'Acts',
+  'Romans', '1 Corinthians', '2 Corinthians', 'Galatians', 'Ephesians',
+  'Philippians', 'Colossians', '1 Thessalonians', '2 Thessalonians', '1 Timothy',
+  '2 Timothy', 'Titus', 'Philemon', 'Hebrews', 'James',
+  '1 Peter', '2 Peter', '1 John', '2 John', '3 John',
+  'Jude', 'Revelation'
+];
+
+export const BOOK_INDEX: Record<string, number> = BOOKS_CANONICAL_ORDER
+  .reduce((acc, name, idx) => { acc[name.toLowerCase()] = idx; return acc; }, {} as Record<string, number>);
+
+// Common aliases -> canonical names
+const BOOK_ALIASES: Record<string, string> = {
+  // Psalms + Song
+  'ps': 'Psalms',
+  'psa': 'Psalms',
+  'psalm': 'Psalms',
+  'psalms': 'Psalms',
+  'song of songs': 'Song of Solomon',
+  'song of solomon': 'Song of Solomon',
+  'canticles': 'Song of Solomon',
+  'cant': 'Song of Solomon',
+  // Gospels and common abbrev
+  'mt': 'Matthew',
+  'mat': 'Matthew',
+  'matt': 'Matthew',
+  'mk': 'Mark',
+  'mrk': 'Mark',
+  'lk': 'Luke',
+  'jn': 'John',
+  'jhn': 'John',
+  'act': 'Acts',
+  // OT common abbrev
+  'ge': 'Genesis',
+  'gen': 'Genesis',
+  'ex': 'Exodus',
+  'exod': 'Exodus',
+  'lev': 'Leviticus',
+  'nu': 'Numbers',
+  'num': 'Numbers',
+  'deut': 'Deuteronomy',
+  'jos': 'Joshua',
+  'josh': 'Joshua',
+  'judg': 'Judges',
+  'judge': 'Judges',
+  '1sam': '1 Samuel',
+  '2sam': '2 Samuel',
+  'samuel': 'Samuel',
+  'sam': 'Samuel',
+  'sa': 'Samuel',
+  '1kgs': '1 Kings',
+  '2kgs': '2 Kings',
+  'kgs': 'Kings',
+  '1chron': '1 Chronicles',
+  '2chron': '2 Chronicles',
+  'chronicles': 'Chronicles',
+  'chron': 'Chronicles',
+  'chr': 'Chronicles',
+  'ch': 'Chronicles',
+  'neh': 'Nehemiah',
+  'esth': 'Esther',
+  'prov': 'Proverbs',
+  'eccl': 'Ecclesiastes',
+  'ecc': 'Ecclesiastes',
+  'eccles': 'Ecclesiastes',
+  'isa': 'Isaiah',
+  'jer': 'Jeremiah',
+  'lam': 'Lamentations',
+  'ezek': 'Ezekiel',
+  'dan': 'Daniel',
+  'hos': 'Hosea',
+  'obad': 'Obadiah',
+  'jon': 'Jonah',
+  'mic': 'Micah',
+  'nah': 'Nahum',
+  'hab': 'Habakkuk',
+  'zeph': 'Zephaniah',
+  'hag': 'Haggai',
+  'zech': 'Zechariah',
+  'mal': 'Malachi',
+  // Epistles common abbrev
+  'rom': 'Romans',
+  'cor': 'Corinthians',
+  'gal': 'Galatians',
+  'eph': 'Ephesians',
+  'phil': 'Philippians',
+  'php': 'Philippians',
+  'col': 'Colossians',
+  'thess': 'Thessalonians',
+  'tim': 'Timothy',
+  'tit': 'Titus',
+  'philem': 'Philemon',
+  'phlm': 'Philemon',
+  'heb': 'Hebrews',
+  'jas': 'James',
+  'jms': 'James',
+  'pet': 'Peter',
+  'rev': 'Revelation',
+};
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function normalizeBookName(rawBook: string): string {
+  // Remove periods and collapse whitespace
+  const noDots = rawBook.replace(/\./g, '');
+  let base = normalizeWhitespace(noDots);
+
+  // Strip leading prefixes like "Comp", "Cf", "Compare", "See"
+  base = base.replace(/^(?:comp|cf|compare|see)\s+/i, '');
+
+  // Lowercase forms for mapping
+  const lower = base.toLowerCase();
+  const ordinalNormalized = lower.replace(/\b(1st|2nd|3rd)\b/g, m => ({ '1st': '1', '2nd': '2', '3rd': '3' }[m] as string));
+
+  // Direct alias mapping
+  if (BOOK_ALIASES[ordinalNormalized]) return BOOK_ALIASES[ordinalNormalized];
+  if (BOOK_ALIASES[lower]) return BOOK_ALIASES[lower];
+
+  // Handle numeric prefix + abbreviation (e.g., "1 Sam", "2 Kgs", "1Thess")
+  const numMatch = base.match(/^([123])\s*(\D.*)$/);
+  if (numMatch) {
+    const n = numMatch[1];
+    const rest = normalizeWhitespace(numMatch[2]);
+    const restLower = rest.toLowerCase();
+    const aliased = BOOK_ALIASES[restLower] || BOOK_ALIASES[restLower.replace(/\s+/g, '')];
+    if (aliased) return `${n} ${aliased}`;
+  }
+
+  // Title-case words, preserving leading number where present
+  const parts = base.split(' ');
+  const titleCased = parts.map((part, i) => {
+    if (i === 0 && /^[123]$/.test(part)) return part; // keep numeric prefix
+    if (['of', 'the', 'and'].includes(part.toLowerCase())) return part.toLowerCase();
+    return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase();
+  }).join(' ');
+
+  return titleCased;
+}
+
+export function isKnownBook(book: string): boolean {
+  return BOOK_INDEX[book.toLowerCase()] !== undefined;
+}
+
+// Books with one chapter, cited by verse alone ("Jude 3")
+const SINGLE_CHAPTER_BOOKS = new Set(['Obadiah', 'Philemon', '2 John', '3 John', 'Jude']);
+
+// ---- parsing ----
+
+// A passage within one chapter. No verses means the whole chapter; a
+// verseStart without verseEnd runs to the end of the chapter ("Gen. 1:31ff").
+export interface VerseRange {
+  book: string;
+  chapter: number;
+  verseStart?: number;
+  verseEnd?: number;
+}
+
+// "C", "C-D", "C:V", "C:V-W", "C:V-D:W", "C:Vff"
+const CHAPTER_ITEM = /^(\d+)(?::(\d+)(ff)?)?(?:[-–](\d+)(?::(\d+))?)?$/;
+// "V", "V-W", "V-D:W", "Vff" - only after a comma that follows a verse
+const VERSE_ITEM = /^(\d+)(ff)?(?:[-–](?:(\d+):)?(\d+))?$/;
+
+// Everything from a verse to the end of `endChapter`, verse `verseEnd`
+function spanChapters(book: string, chapter: number, verseStart: number, endChapter: number, verseEnd: number): VerseRange[] | null {
+  if (endChapter < chapter) return null;
+  if (endChapter === chapter) {
+    return verseEnd < verseStart ? null : [{ book, chapter, verseStart, verseEnd }];
+  }
+
+  const ranges: VerseRange[] = [{ book, chapter, verseStart }];
+  for (let c = chapter + 1; c < endChapter; c++) ranges.push({ book, chapter: c });
+  ranges.push({ book, chapter: endChapter, verseStart: 1, verseEnd });
+  return ranges;
+}
+
+/**
+ * Parse "1 Cor. 13:4-7", "Ps 23", "Rom. 8:28, 31; 9:1", "comp. Heb. 12:2" and
+ * the like into per-chapter ranges, in the order written. In a one-chapter
+ * book a lone number is a verse ("Jude 3" is Jude 1:3). Returns null if the
+ * book is unknown or the chapter/verse part doesn't follow the grammar.
+ */
+export function parseReference(ref: string): VerseRange[] | null {
+  const match = normalizeWhitespace(ref)
+    .replace(/[.,;)]+$/, '')
+    .match(/^(.*?[A-Za-z]\.?)\s*(\d[\d:,;\s\-–f]*)$/);
+  if (!match) return null;
+
+  const book = normalizeBookName(match[1]);
+  if (!isKnownBook(book)) return null;
+
+  const singleChapter = SINGLE_CHAPTER_BOOKS.has(book);
+  const ranges: VerseRange[] = [];
+  let chapter = singleChapter ? 1 : 0;
+
+  for (const group of match[2].split(';')) {
+    // A bare number after a comma is a verse once we're in a chapter's verses,
+    // and always is in a one-chapter book
+    let inVerses = singleChapter;
+
+    for (const rawItem of group.split(',')) {
+      const item = rawItem.replace(/\s+/g, '');
+      if (!item) return null;
+
+      const verseItem = inVerses && !item.includes(':') ? item.match(VERSE_ITEM) : null;
+      if (verseItem) {
+        const verseStart = parseInt(verseItem[1], 10);
+        if (verseItem[2]) {
+          if (verseItem[4]) return null; // "3ff-5"
+          ranges.push({ book, chapter, verseStart });
+        } else if (verseItem[4]) {
+          const endChapter = verseItem[3] ? parseInt(verseItem[3], 10) : chapter;
+          const span = spanChapters(book, chapter, verseStart, endChapter, parseInt(verseItem[4], 10));
+          if (!span) return null;
+          ranges.push(...span);
+          chapter = endChapter;
+        } else {
+          ranges.push({ book, chapter, verseStart, verseEnd: verseStart });
+        }
+        continue;
+      }
+
+      const chapterItem = item.match(CHAPTER_ITEM);
+      if (!chapterItem) return null;
+
+      chapter = parseInt(chapterItem[1], 10);
+      const [, , verse, ff, end, endVerse] = chapterItem;
+
+      if (!verse) {
+        // Whole chapters: "23" or "113-118"
+        if (endVerse) return null; // "1-2:3" is ambiguous
+        const lastChapter = end ? parseInt(end, 10) : chapter;
+        if (lastChapter < chapter) return null;
+        for (let c = chapter; c <= lastChapter; c++) ranges.push({ book, chapter: c });
+        chapter = lastChapter;
+        inVerses = false;
+        continue;
+      }
+
+      const verseStart = parseInt(verse, 10);
+      if (ff) {
+        if (end) return null;
+        ranges.push({ book, chapter, verseStart });
+      } else if (!end) {
+        ranges.push({ book, chapter, verseStart, verseEnd: verseStart });
+      } else if (endVerse) {
+        const endChapter = parseInt(end, 10);
+        const span = spanChapters(book, chapter, verseStart, endChapter, parseInt(endVerse, 10));
+        if (!span) return null;
+        ranges.push(...span);
+        chapter = endChapter;
+      } else {
+        const verseEnd = parseInt(end, 10);
+        if (verseEnd < verseStart) return null;
+        ranges.push({ book, chapter, verseStart, verseEnd });
+      }
+      inVerses = true;
+    }
+  }
+
+  if (ranges.some(r => r.chapter < 1 || r.verseStart === 0)) return null;
+  return ranges;
+}
+
+// ---- formatting ----
+
+const isWholeChapter = (r: VerseRange) => r.verseStart === undefined;
+const isOpenEnded = (r: VerseRange) => r.verseStart !== undefined && r.verseEnd === undefined;
+
+function formatVerses(r: VerseRange): string {
+  if (isOpenEnded(r)) return `${r.verseStart}ff`;
+  return r.verseStart === r.verseEnd ? `${r.verseStart}` : `${r.verseStart}-${r.verseEnd}`;
+}
+
+// Chapter/verse part for ranges that all share one book
+function formatChapters(ranges: VerseRange[]): string {
+  const groups: string[] = [];
+  let i = 0;
+
+  while (i < ranges.length) {
+    const r = ranges[i];
+
+    if (isWholeChapter(r)) {
+      // Run of consecutive whole chapters: "113-118"
+      let j = i;
+      while (j + 1 < ranges.length && isWholeChapter(ranges[j + 1]) && ranges[j + 1].chapter === ranges[j].chapter + 1) j++;
+      groups.push(j > i ? `${r.chapter}-${ranges[j].chapter}` : `${r.chapter}`);
+      i = j + 1;
+      continue;
+    }
+
+    // Runs into a later chapter: "1:31-2:3" (with any whole chapters in between)
+    if (isOpenEnded(r)) {
+      let j = i + 1;
+      while (j < ranges.length && isWholeChapter(ranges[j]) && ranges[j].chapter === ranges[j - 1].chapter + 1) j++;
+      const last = ranges[j];
+      if (last && last.chapter === ranges[j - 1].chapter + 1 && last.verseStart === 1 && last.verseEnd !== undefined) {
+        let text = `${r.chapter}:${r.verseStart}-${last.chapter}:${last.verseEnd}`;
+        i = j + 1;
+        // Later verses in the chapter the span ended in: "1:31-2:3, 5"
+        while (i < ranges.length && ranges[i].chapter === last.chapter && !isWholeChapter(ranges[i])) {
+          text += `, ${formatVerses(ranges[i])}`;
+          i++;
+        }
+        groups.push(text);
+        continue;
+      }
+    }
+
+    // Verses within one chapter: "8:28, 31"
+    let text = `${r.chapter}:${formatVerses(r)}`;
+    i++;
+    while (i < ranges.length && ranges[i].chapter === r.chapter && !isWholeChapter(ranges[i]) && !isOpenEnded(ranges[i - 1])) {
+      text += `, ${formatVerses(ranges[i])}`;
+      i++;
+    }
+    groups.push(text);
+  }
+
+  return groups.join('; ');
+}
+
+/**
+ * Canonical form of parsed ranges: full book names, ", " between verses of a
+ * chapter and "; " between chapters, e.g. "Romans 8:28, 31; 9:1". Parsing the
+ * result gives back the same ranges.
+ */
+export function formatReference(ranges: VerseRange[]): string {
+  const parts: string[] = [];
+  let i = 0;
+
+  while (i < ranges.length) {
+    let j = i;
+    while (j + 1 < ranges.length && ranges[j + 1].book === ranges[i].book) j++;
+    parts.push(`${ranges[i].book} ${formatChapters(ranges.slice(i, j + 1))}`);
+    i = j + 1;
+  }
+
+  return parts.join('; ');
+}
+
+// Canonical form of a reference string, or null if it doesn't parse
+export function normalizeReference(ref: string): string | null {
+  const ranges = parseReference(ref);
+  return ranges ? formatReference(ranges) : null;
+}
+
+// ---- sorting and extraction ----
+
+// Canonical book order, then chapter, then verse; unparseable refs sort last
+export function compareReferences(a: string, b: string): number {
+  const key = (ref: string) => {
+    const first = parseReference(ref)?.[0];
+    return first
+      ? [BOOK_INDEX[first.book.toLowerCase()], first.chapter, first.verseStart ?? 0]
+      : [Number.MAX_SAFE_INTEGER, 0, 0];
+  };
+  const [ka, kb] = [key(a), key(b)];
+  return ka[0] - kb[0] || ka[1] - kb[1] || ka[2] - kb[2];
+}
+
+// Book names as written in running text; "Song of Solomon" is the only multi-word one
+const BOOK_IN_TEXT = String.raw`(?:[123]\s?)?(?:Song\sof\s(?:Solomon|Songs)|[A-Z][a-z]+)\.?`;
+const ITEM_IN_TEXT = String.raw`\d+(?::\d+)?(?:ff)?(?:\s?[-–]\s?\d+(?::\d+)?)?`;
+// A later item must not be the numbered start of the next book ("...; 1 Chr. 6:3")
+const REFERENCE_IN_TEXT = new RegExp(
+  String.raw`\b(${BOOK_IN_TEXT})\s(${ITEM_IN_TEXT}(?:[,;]\s?(?![123]\s?[A-Z])${ITEM_IN_TEXT})*)`,
+  'g'
+);
+
+export interface FoundReference {
+  ref: string;
+  index: number;
+}
+
+// Scripture references with an explicit, known book in running text
+// (e.g. an Easton entry). Book-less follow-ups like "(2:1, 4)" are skipped.
+export function findReferences(text: string): FoundReference[] {
+  const found: FoundReference[] = [];
+  REFERENCE_IN_TEXT.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = REFERENCE_IN_TEXT.exec(text))) {
+    const [ref, book, tail] = match;
+    // Chapter-only references ("Ps. 34") count only when the book is
+    // abbreviated, so "Exodus 1491" or "Joseph 71" aren't taken for one
+    const looksLikeReference = tail.includes(':') || book.endsWith('.');
+    if (looksLikeReference && isKnownBook(normalizeBookName(book)) && parseReference(ref)) {
+      found.push({ ref, index: match.index });
+    }
+  }
+
+  return found;
+}
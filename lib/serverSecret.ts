@@ -0,0 +1,35 @@
+/**
+ * The server's secret, from VERSEWORD_ANSWER_SECRET. It keys the answer
+ * hashes sent to players (hashAnswer in lib/puzzleData.ts), so nobody can
+ * find an answer by hashing every word in the public dictionaries.
+ * Only import this from API routes and scripts.
+ *
+ * It must stay the same across deploys: saved games compare answer hashes to
+ * notice an answer that changed under them.
+ */
+
+import crypto from 'crypto';
+
+// Development only; production refuses to run without the real secret
+const DEVELOPMENT_SECRET = 'verseword-development-secret';
+
+let warned = false;
+
+export function serverSecret(): string {
+  const secret = process.env.VERSEWORD_ANSWER_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('VERSEWORD_ANSWER_SECRET is not set');
+  }
+  if (!warned) {
+    console.error('VERSEWORD_ANSWER_SECRET is not set; using the development secret');
+    warned = true;
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+// HMAC-SHA256 of `value` under the server secret, hex encoded
+export function keyedHash(value: string): string {
+  return crypto.createHmac('sha256', serverSecret()).update(value).digest('hex');
+}
@@ -0,0 +1,155 @@
+/**
+ * A reference Verseword solver: guesses only words that could still be the
+ * answer, scored with the same evaluateGuess the server uses. Deterministic,
+ * so the same answer and dictionary always take the same path. No I/O - pass
+ * the dictionary in (loadDictionary on the client, loadDictionaryWords on the
+ * server).
+ *
+ * analyzeGame replays a finished game row by row for the Analysis panel.
+ */
+
+import { evaluateGuess } from './gameLogic';
+import { LetterState } from './types';
+
+// Above this many candidates the exact minimax pick is too slow, so guesses
+// are chosen by letter coverage instead
+const MINIMAX_LIMIT = 250;
+
+export const patternKey = (evaluation: LetterState[]): string =>
+  evaluation.map(state => (state === 'correct' ? 'G' : state === 'present' ? 'Y' : '-')).join('');
+
+// Candidates that would have produced `evaluation` for `guess`
+export function filterCandidates(candidates: string[], guess: string, evaluation: LetterState[]): string[] {
+  const key = patternKey(evaluation);
+  return candidates.filter(word => patternKey(evaluateGuess(guess, word)) === key);
+}
+
+// Prefers words whose distinct letters appear in the most candidates
+function coverageGuess(candidates: string[]): string {
+  const counts: Record<string, number> = {};
+  candidates.forEach(word => {
+    new Set(word.split('')).forEach(letter => {
+      counts[letter] = (counts[letter] ?? 0) + 1;
+    });
+  });
+
+  let best = candidates[0];
+  let bestScore = -1;
+  candidates.forEach(word => {
+    const score = Array.from(new Set(word.split(''))).reduce((sum, letter) => sum + counts[letter], 0);
+    if (score > bestScore) {
+      best = word;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// Minimises the largest group of candidates left after the guess
+function minimaxGuess(candidates: string[]): string {
+  let best = candidates[0];
+  let bestWorst = Infinity;
+  candidates.forEach(guess => {
+    const groups: Record<string, number> = {};
+    let worst = 0;
+    candidates.forEach(answer => {
+      const key = patternKey(evaluateGuess(guess, answer));
+      groups[key] = (groups[key] ?? 0) + 1;
+      if (groups[key] > worst) worst = groups[key];
+    });
+    if (worst < bestWorst) {
+      best = guess;
+      bestWorst = worst;
+    }
+  });
+  return best;
+}
+
+// Information `guess` is expected to gain against `candidates`, in bits
+export function expectedBits(guess: string, candidates: string[]): number {
+  const groups: Record<string, number> = {};
+  candidates.forEach(answer => {
+    const key = patternKey(evaluateGuess(guess, answer));
+    groups[key] = (groups[key] ?? 0) + 1;
+  });
+  return Object.keys(groups).reduce((bits, key) => {
+    const p = groups[key] / candidates.length;
+    return bits - p * Math.log2(p);
+  }, 0);
+}
+
+// The candidate with the most expected information, or the coverage pick when
+// there are too many candidates to compare them all
+function bestGuess(candidates: string[]): string {
+  if (candidates.length > MINIMAX_LIMIT) return coverageGuess(candidates);
+  let best = candidates[0];
+  let bestBits = -1;
+  candidates.forEach(guess => {
+    const bits = expectedBits(guess, candidates);
+    if (bits > bestBits) {
+      best = guess;
+      bestBits = bits;
+    }
+  });
+  return best;
+}
+
+export function pickGuess(candidates: string[]): string {
+  if (candidates.length <= 2) return candidates[0];
+  return candidates.length > MINIMAX_LIMIT ? coverageGuess(candidates) : minimaxGuess(candidates);
+}
+
+// The guesses the solver makes for `answer`, ending with the answer itself.
+// The answer is added to the dictionary if it's missing.
+export function solve(answer: string, dictionary: string[], maxGuesses = 12): string[] {
+  const target = answer.toUpperCase();
+  const words = dictionary.map(word => word.toUpperCase()).filter(word => word.length === target.length);
+  let candidates = Array.from(new Set(words.concat(target))).sort();
+
+  const guesses: string[] = [];
+  while (guesses.length < maxGuesses) {
+    const guess = pickGuess(candidates);
+    guesses.push(guess);
+    if (guess === target) break;
+    candidates = filterCandidates(candidates, guess, evaluateGuess(guess, target));
+  }
+  return guesses;
+}
+
+export interface GuessAnalysis {
+  guess: string;
+  candidatesBefore: number;
+  candidatesAfter: number;
+  bits: number;            // information the guess actually gained
+  bestGuess: string;       // best pick from the candidates left before this row
+  bestBits: number;        // information bestGuess was expected to gain
+  bestIsHeuristic: boolean; // too many candidates to compare; bestGuess is the letter-coverage pick
+}
+
+// Replays a game from its scored rows, so it works without knowing the answer.
+// Letter reveals aren't counted; they only narrow things further.
+export function analyzeGame(attempts: string[], evaluations: LetterState[][], dictionary: string[]): GuessAnalysis[] {
+  const length = attempts[0]?.length ?? 0;
+  let candidates = Array.from(new Set(
+    dictionary.map(word => word.toUpperCase()).filter(word => word.length === length)
+  )).sort();
+
+  const rows: GuessAnalysis[] = [];
+  attempts.forEach((attempt, i) => {
+    if (!evaluations[i] || candidates.length === 0) return;
+    const guess = attempt.toUpperCase();
+    const best = bestGuess(candidates);
+    const remaining = filterCandidates(candidates, guess, evaluations[i]);
+    rows.push({
+      guess,
+      candidatesBefore: candidates.length,
+      candidatesAfter: remaining.length,
+      bits: Math.log2(candidates.length / Math.max(remaining.length, 1)),
+      bestGuess: best,
+      bestBits: expectedBits(best, candidates),
+      bestIsHeuristic: candidates.length > MINIMAX_LIMIT,
+    });
+    candidates = remaining;
+  });
+  return rows;
+}
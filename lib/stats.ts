@@ -1,4 +1,5 @@
 import { loadAll, PuzzleStateV2 } from "./storage";
+import { addDays, daysBetween, todayISO } from "./timezone";
 
 export const STATS_KEY = "verseword:stats:v1";
 
@@ -10,8 +11,17 @@ export type GameResult = {
   solution?: string;        // optional, useful for debugging
   mode?: {
     hideClue: boolean;
-    randomPuzzle: boolean;
   };
+  hardMode?: boolean;       // every revealed hint had to be reused
+};
+
+// Played, wins and guesses for one word length
+export type LengthStats = {
+  played: number;
+  wins: number;
+  guessDistribution: number[];
+  currentStreak?: number;   // dated games only (see loadStats)
+  maxStreak?: number;
 };
 
 export type StatsSnapshot = {
@@ -22,6 +32,7 @@ export type StatsSnapshot = {
   guessDistribution: number[]; // index 0 = won in 1 guess, etc.
   lastPlayedDate?: string;     // ISO date of last recorded game
   results?: GameResult[];      // optional detailed history (bounded)
+  byLength?: Record<5 | 6 | 7, LengthStats>;
 };
 
 const DEFAULT_STATS: StatsSnapshot = {
@@ -36,10 +47,7 @@ const DEFAULT_STATS: StatsSnapshot = {
 // Utility: date math on YYYY-MM-DD
 export function isNextDay(prevISO?: string, nextISO?: string) {
   if (!prevISO || !nextISO) return false;
-  const prev = new Date(prevISO + "T00:00:00Z");
-  const next = new Date(nextISO + "T00:00:00Z");
-  const diff = (next.getTime() - prev.getTime()) / 86_400_000;
-  return Math.round(diff) === 1;
+  return daysBetween(prevISO, nextISO) === 1;
 }
 
 // Convert PuzzleStateV2 to GameResult for stats computation
@@ -49,13 +57,44 @@ function puzzleToGameResult(puzzle: PuzzleStateV2): GameResult {
     wordLength: puzzle.wordLength,
     won: puzzle.gameStatus === 'won',
     guesses: puzzle.gameStatus === 'won' ? puzzle.attemptIndex + 1 : puzzle.attempts.length,
-    solution: puzzle.secretWord,
+    solution: puzzle.solution,
+    hardMode: !!puzzle.hardMode,
   };
 }
 
+// Current and longest runs of consecutive days won, from results sorted by
+// date. A day counts as won if any of its puzzles was.
+function streaks(results: GameResult[]): { current: number; max: number } {
+  const wonByDate = new Map<string, boolean>();
+  results.forEach(r => wonByDate.set(r.dateISO, !!wonByDate.get(r.dateISO) || r.won));
+
+  let current = 0;
+  let max = 0;
+  let prev: string | null = null;
+  wonByDate.forEach((won, dateISO) => {
+    if (won) {
+      if (!prev || addDays(prev, 1) === dateISO) {
+        current += 1;
+      } else {
+        current = 1;
+      }
+      max = Math.max(max, current);
+      prev = dateISO;
+    } else {
+      current = 0;
+    }
+  });
+
+  // A streak survives until the day after its last win has passed
+  if (prev && daysBetween(prev, todayISO()) > 1) {
+    current = 0;
+  }
+  return { current, max };
+}
+
 export function loadStats(): StatsSnapshot {
-  // Compute stats from all stored puzzles
-  const allPuzzles = loadAll();
+  // Compute stats from all stored puzzles (never editor playtests)
+  const allPuzzles = loadAll('player');
   const completedPuzzles = Object.values(allPuzzles).filter(
     p => p.gameStatus !== 'playing' && p.gameStatus !== 'not_started' && p.attempts.length > 0
   );
@@ -82,29 +121,14 @@ export function loadStats(): StatsSnapshot {
     }
   });
   
-  // Current/Max streak, by date continuity
-  let current = 0;
-  let max = 0;
-  let prev: string | null = null;
-  
-  const addDay = (iso: string, delta = 1) => {
-    const d = new Date(iso);
-    d.setDate(d.getDate() + delta);
-    return d.toISOString().slice(0, 10);
-  };
-  
-  results.forEach(r => {
-    if (r.won) {
-      if (!prev || addDay(prev) === r.dateISO) {
-        current += 1;
-      } else {
-        current = 1;
-      }
-      max = Math.max(max, current);
-      prev = r.dateISO;
-    } else {
-      current = 0;
-    }
+  // Current/Max streak, by date continuity: overall, and for each length on
+  // its own now that a day can have one puzzle per length
+  const { current, max } = streaks(results);
+  const byLength = statsByLength(results);
+  ([5, 6, 7] as const).forEach(length => {
+    const lengthStreaks = streaks(results.filter(r => r.wordLength === length));
+    byLength[length].currentStreak = lengthStreaks.current;
+    byLength[length].maxStreak = lengthStreaks.max;
   });
   
   const lastPlayedDate = results[results.length - 1]?.dateISO;
@@ -117,9 +141,28 @@ export function loadStats(): StatsSnapshot {
     guessDistribution: dist,
     lastPlayedDate,
     results: results.slice(-180), // Keep last 180 results
+    byLength,
   };
 }
 
+export function statsByLength(results: Pick<GameResult, 'wordLength' | 'won' | 'guesses'>[]): Record<5 | 6 | 7, LengthStats> {
+  const byLength = {
+    5: { played: 0, wins: 0, guessDistribution: [0, 0, 0, 0, 0, 0, 0] },
+    6: { played: 0, wins: 0, guessDistribution: [0, 0, 0, 0, 0, 0, 0] },
+    7: { played: 0, wins: 0, guessDistribution: [0, 0, 0, 0, 0, 0, 0] },
+  };
+  results.forEach(r => {
+    const stats = byLength[r.wordLength];
+    if (!stats) return;
+    stats.played += 1;
+    if (r.won) {
+      stats.wins += 1;
+      stats.guessDistribution[Math.min(7, r.guesses) - 1] += 1;
+    }
+  });
+  return byLength;
+}
+
 export function saveStats(s: StatsSnapshot) {
   // Note: Stats are now computed from puzzle data, so this is mainly for backward compatibility
   // Keep detailed history bounded (e.g., last 180 results)
@@ -173,12 +216,17 @@ export function recordResult(result: GameResult, maxGuesses: number) {
   saveStats(stats);
 }
 
-export function winRate(stats: StatsSnapshot) {
+// Wordle-style marker appended to a score when the game was played in hard mode
+export function hardModeMarker(result: Pick<GameResult, 'hardMode'>): string {
+  return result.hardMode ? '*' : '';
+}
+
+export function winRate(stats: Pick<StatsSnapshot, 'played' | 'wins'>) {
   if (stats.played === 0) return 0;
   return Math.round((stats.wins / stats.played) * 100);
 }
 
-export function averageGuesses(stats: StatsSnapshot) {
+export function averageGuesses(stats: Pick<StatsSnapshot, 'wins' | 'guessDistribution'>) {
   if (stats.wins === 0) return 0;
   
   let total = 0;
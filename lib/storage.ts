@@ -1,4 +1,9 @@
 /* eslint-disable no-console */
+import type { LetterState } from './types';
+import type { StorageAdapter } from './storageAdapters';
+import { evaluateGuess } from './gameLogic';
+import { todayISO } from './timezone';
+
 export type WordLength = 5 | 6 | 7;
 export type PuzzleId = `${string}:${WordLength}`; // `${YYYY-MM-DD}:${length}`
 
@@ -6,8 +11,11 @@ export interface PuzzleStateV2 {
   id: PuzzleId;
   dateISO: string;
   wordLength: WordLength;
-  secretWord: string;
   attempts: string[];
+  evaluations: LetterState[][];   // as scored by /api/guess
+  solution?: string;              // only known once the game is won or lost
+  answerHash?: string;            // detects a puzzle whose answer changed under a saved game
+  gameToken?: string;             // server-signed guess and reveal counts (lib/gameToken.ts)
   lockedLetters: Record<number, string>;
   revealedLetters: Record<number, string>;
   letterRevealsRemaining: number;
@@ -15,6 +23,8 @@ export interface PuzzleStateV2 {
   attemptIndex: number;
   currentGuess: string[];
   completedAt?: string;
+  updatedAt?: string;             // last local write, used to merge copies from other devices
+  hardMode?: boolean;
   // Animation states to preserve exact visual appearance
   showWinAnimation?: boolean;
   winAnimationComplete?: boolean;
@@ -27,18 +37,23 @@ export interface PuzzleStateV2 {
 
 export type PuzzlesById = Record<PuzzleId, PuzzleStateV2>;
 
-const V2_KEY = 'verseword:puzzles:v2';
+export const V2_KEY = 'verseword:puzzles:v2';
 const LAST_KEY = 'verseword:lastPlayed:v2';
 const IS_PLAYING_KEY = 'verseword:isPlaying';
 
+// Editor playtests (?preview=true, see Game) keep their games under their own
+// keys, so the player's history, stats, sync and save files never see them.
+// The puzzle functions below take the namespace as their last argument and
+// default to the player's games.
+export type StorageNamespace = 'player' | 'preview';
+const PREVIEW_PREFIX = 'verseword:preview:';
+
+export const isPreviewKey = (k: string) => k.startsWith(PREVIEW_PREFIX);
+
+const keyFor = (k: string, ns: StorageNamespace): string =>
+  ns === 'preview' ? k.replace('verseword:', PREVIEW_PREFIX) : k;
+
 // ---- utils ----
-export const toDateISO = (d: Date) => {
-  // Use EST timezone for consistency with the rest of the app
-  const estDate = new Date(d.toLocaleString("en-US", {timeZone: "America/New_York"}));
-  return estDate.getFullYear() + '-' + 
-         String(estDate.getMonth() + 1).padStart(2, '0') + '-' + 
-         String(estDate.getDate()).padStart(2, '0');
-};
 export const makeId = (dateISO: string, len: WordLength): PuzzleId =>
   `${dateISO}:${len}` as PuzzleId;
 
@@ -51,10 +66,19 @@ const readJSON = <T>(k: string): T | null => {
   }
 };
 
+// Optional second copy of everything written here (IndexedDB or the sync server)
+let mirror: StorageAdapter | null = null;
+
+export function setStorageMirror(adapter: StorageAdapter | null): void {
+  mirror = adapter;
+}
+
 const writeJSON = (k: string, v: unknown) => {
   try {
     if (typeof window !== 'undefined') {
-      localStorage.setItem(k, JSON.stringify(v));
+      const raw = JSON.stringify(v);
+      localStorage.setItem(k, raw);
+      if (!isPreviewKey(k)) mirror?.set(k, raw).catch(error => console.error(`Error mirroring ${k} to ${mirror?.name}:`, error));
       // Verify the write was successful
       const written = localStorage.getItem(k);
       if (!written) {
@@ -104,11 +128,11 @@ export function migrateIfNeeded(): void {
     return;
   }
 
-  const dateISO = v1.date || toDateISO(new Date());
+  const dateISO = v1.date || todayISO();
   const len = Math.max(5, Math.min(7, v1.wordLength)) as WordLength;
 
   const id = makeId(dateISO, len);
-  const state: PuzzleStateV2 = {
+  const state = upgradeAnswerFields({
     id,
     dateISO,
     wordLength: len,
@@ -130,7 +154,7 @@ export function migrateIfNeeded(): void {
     showFadeInForInput: v1.gameStatus === 'won',
     fadeOutClearInput: false,
     previouslyRevealedPositions: [],
-  };
+  });
 
   writeJSON(V2_KEY, { [id]: state });
   writeJSON(LAST_KEY, { id });
@@ -138,48 +162,158 @@ export function migrateIfNeeded(): void {
   // localStorage.removeItem(V1_KEY);
 }
 
+// ---- answer fields ----
+// Older saves kept the answer on every puzzle. Swap it for the per-guess
+// evaluations and keep the answer only for games that are already over.
+type WithLegacyAnswer = Omit<PuzzleStateV2, 'evaluations'> & {
+  evaluations?: LetterState[][];
+  secretWord?: string;
+};
+
+function upgradeAnswerFields(state: WithLegacyAnswer): PuzzleStateV2 {
+  const { secretWord, ...rest } = state;
+  const finished = rest.gameStatus === 'won' || rest.gameStatus === 'lost';
+  const evaluations = rest.evaluations
+    ?? (secretWord ? rest.attempts.map(a => evaluateGuess(a, secretWord.toUpperCase())) : []);
+  const solution = rest.solution ?? (finished && secretWord ? secretWord.toUpperCase() : undefined);
+  return { ...rest, evaluations, solution };
+}
+
+// ---- schema checks ----
+const STATUSES = ['not_started', 'playing', 'won', 'lost'];
+const LETTER_STATES = ['correct', 'present', 'absent'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isStringArray = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every(x => typeof x === 'string');
+const isLetterRecord = (v: unknown): v is Record<number, string> =>
+  !!v && typeof v === 'object' && !Array.isArray(v) &&
+  Object.entries(v).every(([k, x]) => Number.isInteger(Number(k)) && typeof x === 'string');
+
+// Validates an untrusted record (e.g. from an imported save file) against the
+// PuzzleStateV2 shape, upgrading saves that still carry the answer.
+// Returns null when the record can't be used.
+export function normalizePuzzleState(value: unknown): PuzzleStateV2 | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+
+  const wordLength = v.wordLength;
+  if (wordLength !== 5 && wordLength !== 6 && wordLength !== 7) return null;
+  if (typeof v.dateISO !== 'string' || !ISO_DATE.test(v.dateISO)) return null;
+  if (v.id !== makeId(v.dateISO, wordLength)) return null;
+  if (!isStringArray(v.attempts) || !v.attempts.every(a => a.length === wordLength)) return null;
+  if (!isLetterRecord(v.lockedLetters) || !isLetterRecord(v.revealedLetters)) return null;
+  if (typeof v.gameStatus !== 'string' || !STATUSES.includes(v.gameStatus)) return null;
+  if (typeof v.attemptIndex !== 'number' || typeof v.letterRevealsRemaining !== 'number') return null;
+  if (!isStringArray(v.currentGuess)) return null;
+
+  if (v.evaluations !== undefined) {
+    const evaluations = v.evaluations;
+    if (!Array.isArray(evaluations) || evaluations.length !== v.attempts.length) return null;
+    if (!evaluations.every(row => isStringArray(row) && row.every(s => LETTER_STATES.includes(s)))) return null;
+  } else if (typeof v.secretWord !== 'string') {
+    return null;
+  }
+  if (v.solution !== undefined && typeof v.solution !== 'string') return null;
+
+  return upgradeAnswerFields(v as unknown as WithLegacyAnswer);
+}
+
+// Conflict rule when the same puzzle exists twice: a finished game beats an
+// unfinished one, then the most recently updated copy, then the one with more
+// attempts. Ties keep `current`.
+export function pickPuzzleState(current: PuzzleStateV2, incoming: PuzzleStateV2): PuzzleStateV2 {
+  const done = (p: PuzzleStateV2) => p.gameStatus === 'won' || p.gameStatus === 'lost';
+  if (done(current) !== done(incoming)) return done(incoming) ? incoming : current;
+  if (current.updatedAt && incoming.updatedAt && current.updatedAt !== incoming.updatedAt) {
+    return incoming.updatedAt > current.updatedAt ? incoming : current;
+  }
+  return incoming.attempts.length > current.attempts.length ? incoming : current;
+}
+
+// Merge two puzzle histories record by record. Invalid incoming records are dropped.
+export function mergePuzzles(current: PuzzlesById, incoming: Record<string, unknown>): PuzzlesById {
+  const merged: PuzzlesById = { ...current };
+  for (const [id, value] of Object.entries(incoming)) {
+    const state = normalizePuzzleState(value);
+    if (!state || state.id !== id) continue;
+    const existing = merged[state.id];
+    merged[state.id] = existing ? pickPuzzleState(existing, state) : state;
+  }
+  return merged;
+}
+
 // ---- v2 - public API ----
-export function loadAll(): PuzzlesById {
-  migrateIfNeeded();
-  return readJSON<PuzzlesById>(V2_KEY) ?? {};
+export function loadAll(ns: StorageNamespace = 'player'): PuzzlesById {
+  if (ns === 'player') migrateIfNeeded();
+  const all = readJSON<Record<PuzzleId, WithLegacyAnswer>>(keyFor(V2_KEY, ns)) ?? {};
+
+  const legacy = Object.values(all).some(p => p.secretWord !== undefined || !p.evaluations);
+  if (!legacy) return all as PuzzlesById;
+
+  const upgraded: PuzzlesById = {};
+  for (const [id, state] of Object.entries(all)) {
+    upgraded[id as PuzzleId] = upgradeAnswerFields(state);
+  }
+  saveAll(upgraded, ns);
+  return upgraded;
 }
 
-export function saveAll(all: PuzzlesById) {
-  writeJSON(V2_KEY, all);
+export function saveAll(all: PuzzlesById, ns: StorageNamespace = 'player') {
+  writeJSON(keyFor(V2_KEY, ns), all);
 }
 
-export function getPuzzle(id: PuzzleId): PuzzleStateV2 | null {
-  const all = loadAll();
+export function getPuzzle(id: PuzzleId, ns: StorageNamespace = 'player'): PuzzleStateV2 | null {
+  const all = loadAll(ns);
   return all[id] ?? null;
 }
 
-export function upsertPuzzle(state: PuzzleStateV2): void {
-  const all = loadAll();
-  all[state.id] = state;
-  saveAll(all);
-  writeJSON(LAST_KEY, { id: state.id });
+export function upsertPuzzle(state: PuzzleStateV2, ns: StorageNamespace = 'player'): void {
+  const all = loadAll(ns);
+  all[state.id] = { ...state, updatedAt: new Date().toISOString() };
+  saveAll(all, ns);
+  writeJSON(keyFor(LAST_KEY, ns), { id: state.id });
 }
 
-export function ensurePuzzle(dateISO: string, len: WordLength, init: () => Omit<PuzzleStateV2, 'id'>): PuzzleStateV2 {
+export function ensurePuzzle(dateISO: string, len: WordLength, init: () => Omit<PuzzleStateV2, 'id'>, ns: StorageNamespace = 'player'): PuzzleStateV2 {
   const id = makeId(dateISO, len);
-  const all = loadAll();
+  const all = loadAll(ns);
   const existing = all[id];
   if (existing) return existing;
-  const next: PuzzleStateV2 = { id, ...init() };
+  const next: PuzzleStateV2 = { id, ...init(), updatedAt: new Date().toISOString() };
   all[id] = next;
-  saveAll(all);
-  writeJSON(LAST_KEY, { id });
+  saveAll(all, ns);
+  writeJSON(keyFor(LAST_KEY, ns), { id });
   return next;
 }
 
-export function getLastPlayed(): PuzzleId | null {
-  const last = readJSON<{ id: PuzzleId }>(LAST_KEY);
+// Pull the puzzle history kept by an adapter (e.g. IndexedDB after localStorage
+// was cleared, or the sync server) and merge it into the local copy
+export async function restoreFromAdapter(adapter: StorageAdapter): Promise<PuzzlesById> {
+  const raw = await adapter.get(V2_KEY);
+  if (!raw) return loadAll('player');
+
+  let incoming: Record<string, unknown>;
+  try {
+    incoming = JSON.parse(raw);
+  } catch {
+    console.error(`Ignoring unreadable puzzle history from ${adapter.name}`);
+    return loadAll('player');
+  }
+
+  const merged = mergePuzzles(loadAll('player'), incoming);
+  saveAll(merged, 'player');
+  return merged;
+}
+
+export function getLastPlayed(ns: StorageNamespace = 'player'): PuzzleId | null {
+  const last = readJSON<{ id: PuzzleId }>(keyFor(LAST_KEY, ns));
   return last?.id ?? null;
 }
 
 // convenience helpers
 export function todayId(len: WordLength): PuzzleId {
-  return makeId(toDateISO(new Date()), len);
+  return makeId(todayISO(), len);
 }
 
 // ---- isPlaying shortcut ----
@@ -203,12 +337,10 @@ export function setIsPlaying(): void {
     return;
   }
   
-  const now = new Date();
-  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-  
+  // Lasts until the puzzle day rolls over (global or local, see lib/timezone.ts)
   const data = {
     isPlaying: true,
-    expiresAt: midnight.getTime()
+    dateISO: todayISO()
   };
   
   writeJSON(IS_PLAYING_KEY, data);
@@ -220,12 +352,13 @@ export function isCurrentlyPlaying(): boolean {
     return false; // Default to false during SSR
   }
   
-  const data = readJSON<{isPlaying: boolean, expiresAt: number}>(IS_PLAYING_KEY);
+  const data = readJSON<{isPlaying: boolean, dateISO?: string, expiresAt?: number}>(IS_PLAYING_KEY);
   
   if (!data) return false;
   
-  // Check if expired
-  if (Date.now() > data.expiresAt) {
+  // Check if expired (older records carry a local-midnight expiresAt instead)
+  const expired = data.dateISO ? data.dateISO !== todayISO() : Date.now() > (data.expiresAt ?? 0);
+  if (expired) {
     // Clean up expired data
     localStorage.removeItem(IS_PLAYING_KEY);
     return false;
@@ -0,0 +1,125 @@
+/**
+ * Pluggable key/value stores behind lib/storage.ts.
+ *
+ * localStorage stays the synchronous working copy the UI reads from; one of
+ * these adapters can be attached as a mirror (see setStorageMirror) so every
+ * write also lands somewhere more durable - IndexedDB on this device, or the
+ * /api/sync server so other devices can pick it up.
+ */
+
+export interface StorageAdapter {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// ---- localStorage ----
+export const localStorageAdapter: StorageAdapter = {
+  name: 'localStorage',
+  async get(key) {
+    return typeof window !== 'undefined' ? localStorage.getItem(key) : null;
+  },
+  async set(key, value) {
+    if (typeof window !== 'undefined') localStorage.setItem(key, value);
+  },
+  async remove(key) {
+    if (typeof window !== 'undefined') localStorage.removeItem(key);
+  },
+};
+
+// ---- IndexedDB ----
+const IDB_NAME = 'verseword';
+const IDB_STORE = 'kv';
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+export function createIndexedDBAdapter(): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await open();
+    return new Promise<T>((resolve, reject) => {
+      const request = op(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    name: 'indexedDB',
+    async get(key) {
+      const value = await run<string | undefined>('readonly', store => store.get(key));
+      return value ?? null;
+    },
+    async set(key, value) {
+      await run('readwrite', store => store.put(value, key));
+    },
+    async remove(key) {
+      await run('readwrite', store => store.delete(key));
+    },
+  };
+}
+
+// ---- remote (/api/sync) ----
+// The server only keeps the puzzle history; every other key is device-local.
+const REMOTE_KEY = 'verseword:puzzles:v2';
+const PUSH_DEBOUNCE_MS = 2000;
+
+export function createRemoteAdapter(syncCode: string): StorageAdapter {
+  let pushTimer: ReturnType<typeof setTimeout> | null = null;
+  let pending: string | null = null;
+
+  const push = async (value: string) => {
+    const response = await fetch('/api/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: syncCode, puzzles: JSON.parse(value) }),
+    });
+    if (!response.ok) {
+      throw new Error(`Sync upload failed: ${response.status}`);
+    }
+  };
+
+  return {
+    name: 'remote',
+    async get(key) {
+      if (key !== REMOTE_KEY) return null;
+      const response = await fetch(`/api/sync?code=${encodeURIComponent(syncCode)}`);
+      if (!response.ok) {
+        throw new Error(`Sync download failed: ${response.status}`);
+      }
+      const body: { puzzles: unknown } = await response.json();
+      return JSON.stringify(body.puzzles ?? {});
+    },
+    // Game state is saved on nearly every keystroke, so uploads are batched
+    async set(key, value) {
+      if (key !== REMOTE_KEY) return;
+      pending = value;
+      if (pushTimer) clearTimeout(pushTimer);
+      pushTimer = setTimeout(() => {
+        pushTimer = null;
+        const body = pending;
+        pending = null;
+        if (body) push(body).catch(error => console.error('Error syncing puzzles:', error));
+      }, PUSH_DEBOUNCE_MS);
+    },
+    async remove() {
+      // Deleting remote history is not supported; it is merged, never replaced
+    },
+  };
+}
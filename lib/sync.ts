@@ -0,0 +1,113 @@
+/**
+ * Cross-device sync: picks which storage adapter mirrors the local puzzle
+ * history, and talks to /api/sync when the player has a sync code.
+ */
+
+import { PuzzlesById, V2_KEY, loadAll, mergePuzzles, restoreFromAdapter, saveAll, setStorageMirror } from './storage';
+import { createIndexedDBAdapter, createRemoteAdapter, isIndexedDBAvailable } from './storageAdapters';
+
+// Four groups of four, no 0/O or 1/I to keep codes easy to type
+export const SYNC_CODE = /^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/;
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const SYNC_CODE_KEY = 'verseword:syncCode';
+const LAST_SYNC_KEY = 'verseword:lastSync';
+
+export function getSyncCode(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(SYNC_CODE_KEY);
+}
+
+export function getLastSync(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem(LAST_SYNC_KEY);
+}
+
+export function normalizeSyncCode(input: string): string {
+  const chars = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return chars.match(/.{1,4}/g)?.join('-') ?? '';
+}
+
+// New random code for the first device; other devices enter it with setSyncCode
+export function createSyncCode(): string {
+  const bytes = new Uint8Array(12);
+  crypto.getRandomValues(bytes);
+  const chars = Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  const code = normalizeSyncCode(chars);
+  localStorage.setItem(SYNC_CODE_KEY, code);
+  return code;
+}
+
+export function setSyncCode(input: string): string {
+  const code = normalizeSyncCode(input);
+  if (!SYNC_CODE.test(code)) {
+    throw new Error('Sync codes look like ABCD-EFGH-JKLM.');
+  }
+  localStorage.setItem(SYNC_CODE_KEY, code);
+  return code;
+}
+
+export function clearSyncCode(): void {
+  localStorage.removeItem(SYNC_CODE_KEY);
+  localStorage.removeItem(LAST_SYNC_KEY);
+  attachStorageMirror();
+}
+
+// Upload local history, merge what the server sends back, and keep the result
+export async function syncNow(): Promise<PuzzlesById> {
+  const code = getSyncCode();
+  if (!code) throw new Error('Sync is not turned on.');
+
+  const response = await fetch('/api/sync', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code, puzzles: loadAll('player') }),
+  });
+  if (!response.ok) {
+    throw new Error(`Sync failed: ${response.status}`);
+  }
+
+  const body: { puzzles: Record<string, unknown> } = await response.json();
+  const merged = mergePuzzles(loadAll('player'), body.puzzles ?? {});
+  saveAll(merged, 'player');
+  localStorage.setItem(LAST_SYNC_KEY, new Date().toISOString());
+  return merged;
+}
+
+// Point storage writes at the right mirror for the current sync code
+export function attachStorageMirror(): void {
+  const code = getSyncCode();
+  if (code) {
+    setStorageMirror(createRemoteAdapter(code));
+  } else {
+    setStorageMirror(isIndexedDBAvailable() ? createIndexedDBAdapter() : null);
+  }
+}
+
+// Called once on app start. With a sync code, writes go to the server and the
+// server copy is merged in; otherwise IndexedDB keeps a device-local backup.
+export async function startStorageSync(): Promise<void> {
+  if (typeof window === 'undefined') return;
+
+  if (getSyncCode()) {
+    attachStorageMirror();
+    try {
+      await syncNow();
+    } catch (error) {
+      console.error('Error syncing puzzles:', error);
+    }
+    return;
+  }
+
+  if (isIndexedDBAvailable()) {
+    const idb = createIndexedDBAdapter();
+    try {
+      await restoreFromAdapter(idb);
+      // Seed the backup with anything that only existed in localStorage
+      await idb.set(V2_KEY, JSON.stringify(loadAll('player')));
+    } catch (error) {
+      console.error('Error restoring puzzles from IndexedDB:', error);
+    }
+    setStorageMirror(idb);
+  }
+}
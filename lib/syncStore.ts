@@ -0,0 +1,54 @@
+/**
+ * Server-side store for /api/sync: one JSON file per sync code.
+ * Only import this from API routes - it reads and writes the filesystem.
+ *
+ * Files live in VERSEWORD_SYNC_DIR (default .data/sync under the project),
+ * so the sync endpoint works with a plain `next dev` or `next start`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PuzzlesById, mergePuzzles } from './storage';
+import { SYNC_CODE } from './sync';
+
+export interface SyncRecord {
+  puzzles: PuzzlesById;
+  updatedAt: string | null;
+}
+
+const SYNC_DIR = process.env.VERSEWORD_SYNC_DIR || path.join(process.cwd(), '.data', 'sync');
+
+function fileFor(code: string): string {
+  if (!SYNC_CODE.test(code)) {
+    throw new Error(`Invalid sync code: ${code}`);
+  }
+  return path.join(SYNC_DIR, `${code}.json`);
+}
+
+export function readSyncRecord(code: string): SyncRecord {
+  try {
+    return JSON.parse(fs.readFileSync(fileFor(code), 'utf8')) as SyncRecord;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { puzzles: {}, updatedAt: null };
+    }
+    throw error;
+  }
+}
+
+// Merge an upload into the stored history and return the result
+export function mergeSyncRecord(code: string, incoming: Record<string, unknown>): SyncRecord {
+  const current = readSyncRecord(code);
+  const record: SyncRecord = {
+    puzzles: mergePuzzles(current.puzzles, incoming),
+    updatedAt: new Date().toISOString(),
+  };
+
+  // Write to a temp file first so a crash never leaves half a record behind
+  const file = fileFor(code);
+  fs.mkdirSync(SYNC_DIR, { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(record));
+  fs.renameSync(`${file}.tmp`, file);
+
+  return record;
+}
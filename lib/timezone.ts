@@ -1,15 +1,103 @@
 /**
- * Timezone utilities for consistent EST date handling
+ * Date service: which calendar day it is for the daily puzzle, plus date
+ * arithmetic on YYYY-MM-DD strings. Every "what is today" question goes
+ * through here so the rollover rule lives in one place.
+ *
+ * Two rollover modes, picked per player in Settings:
+ * - 'global': everyone moves to the next puzzle at midnight in
+ *   GAME_CONFIG.DAILY_PUZZLE_TIMEZONE (the original behaviour)
+ * - 'local': the puzzle changes at the player's own midnight
  */
 
-export function getESTDateString(date: Date = new Date()): string {
-  const estDate = new Date(date.toLocaleString("en-US", {timeZone: "America/New_York"}));
-  return estDate.getFullYear() + '-' + 
-         String(estDate.getMonth() + 1).padStart(2, '0') + '-' + 
-         String(estDate.getDate()).padStart(2, '0');
+import { GAME_CONFIG } from './config';
+
+export type RolloverMode = 'global' | 'local';
+
+const SETTINGS_KEY = 'verseword-settings';
+
+// First place on Earth to reach a new day (UTC+14; Etc/ signs are inverted).
+// A puzzle is released once its day has started anywhere, so local-midnight
+// players east of the puzzle timezone are not locked out of their today.
+const EARLIEST_UTC_OFFSET_HOURS = 14;
+const EARLIEST_TIMEZONE = `Etc/GMT-${EARLIEST_UTC_OFFSET_HOURS}`;
+
+const MS_PER_DAY = 86_400_000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export function getRolloverMode(): RolloverMode {
+  if (typeof window === 'undefined') return 'global';
+  try {
+    const { dailyRollover } = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return dailyRollover === 'local' || dailyRollover === 'global' ? dailyRollover : GAME_CONFIG.DAILY_ROLLOVER;
+  } catch {
+    return GAME_CONFIG.DAILY_ROLLOVER;
+  }
+}
+
+// Calendar date of an instant as seen in a given IANA timezone
+export function dateISOInTimeZone(date: Date, timeZone: string): string {
+  const formatted = date.toLocaleDateString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+  const [month, day, year] = formatted.split('/');
+  return `${year}-${month}-${day}`;
+}
+
+// Calendar date from the Date's local fields. Use this for dates built from
+// year/month/day (calendar cells, URL params) - never toISOString, which
+// shifts the day for players east of UTC.
+export function localDateISO(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Local midnight of a YYYY-MM-DD string
+export function parseDateISO(dateISO: string): Date {
+  const [year, month, day] = dateISO.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// The puzzle day an instant belongs to for this player
+export function toPuzzleDateISO(date: Date = new Date(), mode: RolloverMode = getRolloverMode()): string {
+  return mode === 'local' ? localDateISO(date) : dateISOInTimeZone(date, GAME_CONFIG.DAILY_PUZZLE_TIMEZONE);
+}
+
+export function todayISO(mode?: RolloverMode): string {
+  return toPuzzleDateISO(new Date(), mode);
+}
+
+export function isToday(dateISO: string): boolean {
+  return dateISO === todayISO();
+}
+
+// The latest puzzle day any player can be on right now (server-side gate)
+export function latestReleasedDateISO(now: Date = new Date()): string {
+  return dateISOInTimeZone(now, EARLIEST_TIMEZONE);
+}
+
+// When the day after latestReleasedDateISO starts in the earliest timezone
+export function nextReleaseAt(now: Date = new Date()): Date {
+  const next = addDays(latestReleasedDateISO(now), 1);
+  return new Date(toUTC(next) - EARLIEST_UTC_OFFSET_HOURS * 3_600_000);
+}
+
+export function isReleased(dateISO: string): boolean {
+  return dateISO <= latestReleasedDateISO();
+}
+
+// ---- arithmetic on YYYY-MM-DD (UTC, so DST never adds or drops a day) ----
+const toUTC = (dateISO: string) => {
+  const [year, month, day] = dateISO.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export function addDays(dateISO: string, days: number): string {
+  return new Date(toUTC(dateISO) + days * MS_PER_DAY).toISOString().slice(0, 10);
 }
 
-export function isTodayEST(dateString: string): boolean {
-  const today = getESTDateString();
-  return dateString === today;
+export function daysBetween(fromISO: string, toISO: string): number {
+  return Math.round((toUTC(toISO) - toUTC(fromISO)) / MS_PER_DAY);
 }
@@ -3,31 +3,179 @@ export type WordLength = 5 | 6 | 7;
 export type LetterState = 'correct' | 'present' | 'absent';
 
 export interface DailyPuzzle {
-  word: string;
+  date: string;
+  len: WordLength;
   clue?: string;
   isToday: boolean;
+  puzzleNumber: number;
+  answerHash: string;
+  gameToken: string;              // signed game state for /api/guess and /api/reveal
+  difficulty?: Difficulty;        // editors only, for the playtest readout
+}
+
+// Response from /api/practice: a word from the curated list that is not an upcoming daily answer
+export interface PracticePuzzle {
+  id: string;                     // used instead of a date by /api/guess and /api/reveal
+  len: WordLength;
+  clue: string;
+  answerHash: string;
+  gameToken: string;
+}
+
+// Response from /api/guess
+export interface GuessResult {
+  evaluation: LetterState[];
+  solved: boolean;
+  solution?: string;              // only sent once the game is won or lost
+  verseReference?: string;        // the verse clue's reference, sent with the solution
+  gameToken: string;              // replaces the one sent with the guess
+}
+
+// Response from /api/reveal
+export interface RevealResult {
+  position: number;
+  letter: string;
+  gameToken: string;
+}
+
+// Response from /api/gospels/[date]: four answers guessed with one shared input
+export interface GospelsPuzzle {
+  date: string;                   // the Saturday of the weekend
+  name: string;                   // theme of the set
+  len: WordLength;
+  answerHashes: string[];         // one per board
+  gameToken: string;              // signed state for /api/gospels/guess, see lib/gameToken.ts
+}
+
+// Response from /api/gospels/guess: the guess scored on every board
+export interface GospelsGuessResult {
+  evaluations: LetterState[][];
+  solved: boolean[];
+  solutions?: string[];           // only sent with the final attempt
+  gameToken: string;              // pass with the next guess
+}
+
+// Response from /api/verse: a KJV verse with the answer blanked out
+export interface VerseClue {
+  date: string;
+  text: string;                   // the reference comes with the solution (GuessResult)
+}
+
+// Response from /api/verses: KJV text for each requested reference
+export interface PassageText {
+  ref: string;                    // as requested
+  verses: { reference: string; text: string }[];  // empty if it couldn't be resolved
+  truncated?: boolean;
+}
+
+// Easton's Bible Dictionary (see /api/easton)
+export interface EastonSummary {
+  term: string;
+  slug: string;                   // ?term= key, e.g. "abel-beth-maachah"
+  preview: string;                // start of the first definition
+  match?: 'term' | 'text';        // how it matched the search, if there was one
+}
+
+export interface EastonSearchResult {
+  query: string;
+  page: number;                   // 1-based
+  pageSize: number;
+  total: number;
+  results: EastonSummary[];
+}
+
+// A run of definition text; `term` links to another entry, `ref` is a scripture reference
+export interface EastonSegment {
+  text: string;
+  term?: string;
+  ref?: string;
+}
+
+export interface EastonEntry {
+  term: string;
+  slug: string;
+  definitions: EastonSegment[][];
+  puzzles: { date: string; puzzleNumber: number }[];  // earlier puzzles with this answer, newest first
+}
+
+// Estimated from the guess dictionary, see lib/difficulty.ts
+export type DifficultyLevel = 'easy' | 'medium' | 'hard' | 'expert';
+
+export interface Difficulty {
+  score: number;                  // 0-100
+  level: DifficultyLevel;
+  signals: {
+    solverGuesses: number;        // guesses the reference solver needed
+    neighbors: number;            // dictionary words one letter away
+    rarity: number;               // 0-1, higher means rarer letters
+    repeats: number;              // repeated letters
+  };
+}
+
+// One of a day's puzzles, as listed by /api/puzzles
+export interface PuzzleListing {
+  date: string;
+  len: WordLength;
+  main: boolean;                  // the day's main puzzle (see PuzzleFileDay in lib/puzzleData.ts)
+}
+
+// A released day as the archive calendar shows it
+export interface ArchiveDay {
+  main: WordLength;
+  levels: Partial<Record<WordLength, DifficultyLevel>>;  // estimated difficulty of each length's puzzle
+}
+
+// Something an editor should look at before a day goes out (see /api/admin/schedule)
+export type ScheduleWarning = 'not_in_dictionary' | 'missing_clue' | 'missing_definition' | 'duplicate_answer';
+
+// One day on /admin/schedule
+export interface ScheduleEntry {
+  date: string;
+  puzzleNumber: number;
+  word: string | null;            // the day's main puzzle; null if nothing is scheduled
+  otherWords: string[];           // the day's other lengths, edited in the data file
+  clue: string | null;
+  released: boolean;              // released days are read-only
+  lastUsed: { date: string; daysAgo: number } | null;  // the previous time this word was the answer
+  warnings: ScheduleWarning[];
 }
 
 export interface PuzzleData {
   date: string;
   word: string;
   len: number;
+  main: boolean;                  // the day's first listed answer (see PuzzleFileDay)
 }
 
 export interface CluesData {
   [word: string]: string;
 }
 
+// One block of lib/data/word-definitions-{year}.json (see /api/word-definitions)
+export interface WordDefinition {
+  partOfSpeech: string;           // empty for Easton entries
+  definitions: string[];
+  examples: string[];             // scripture references, e.g. "Genesis 12:1"
+}
+
+export interface WordDefinitionsData {
+  metadata: Record<string, unknown>;
+  definitions: Record<string, WordDefinition[]>;
+}
+
 export interface GameState {
   wordLength: WordLength;
-  secretWord: string;
+  secretWord: string;             // empty until the server reveals the solution
   clue?: string;
   attempts: string[];
+  evaluations: LetterState[][];   // server-scored rows, one per attempt
   lockedLetters: Record<number | string, string | null>;
   gameStatus: 'not_started' | 'playing' | 'won' | 'lost';
   attemptIndex: number;
   revealedLetters: Set<number>;
+  revealedLetterValues: Record<number, string>;
   letterRevealsRemaining: number;
+  hardMode?: boolean;             // fixed at the first guess; the setting only changes later games
 }
 
 export interface Toast {
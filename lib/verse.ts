@@ -0,0 +1,30 @@
+import { PassageText, VerseClue, WordLength } from './types';
+
+// Verse-completion clue for a puzzle date and length (see /api/verse). Rejects
+// when the answer doesn't appear in any verse, so callers can fall back to the
+// plain clue.
+export async function loadVerseClue(dateISO: string, length: WordLength): Promise<VerseClue> {
+  const response = await fetch(`/api/verse?date=${dateISO}&length=${length}`);
+  if (!response.ok) {
+    throw new Error(`No verse available for date ${dateISO}`);
+  }
+  return response.json();
+}
+
+// KJV text for a batch of references (see /api/verses), keyed by the reference as given
+export async function loadPassages(refs: string[]): Promise<Record<string, PassageText>> {
+  const params = new URLSearchParams();
+  refs.forEach(ref => params.append('ref', ref));
+
+  const response = await fetch(`/api/verses?${params.toString()}`);
+  if (response.status === 404) return {};
+  if (!response.ok) {
+    throw new Error(`Failed to load verses: ${response.status}`);
+  }
+
+  const body: { passages: PassageText[] } = await response.json();
+  return body.passages.reduce<Record<string, PassageText>>((byRef, passage) => {
+    byRef[passage.ref] = passage;
+    return byRef;
+  }, {});
+}
@@ -0,0 +1,43 @@
+/**
+ * The player's word length, picked on the splash screen or in Settings.
+ * Daily puzzles always use the schedule's length; the pick sets the length
+ * of practice words and filters the archive. null means mixed lengths.
+ */
+
+import { GAME_CONFIG } from './config';
+import { WordLength } from './types';
+
+export const WORD_LENGTHS: WordLength[] = [5, 6, 7];
+
+const SETTINGS_KEY = 'verseword-settings';
+
+export function parseWordLength(value: unknown): WordLength | null {
+  const length = Number(value);
+  return length === 5 || length === 6 || length === 7 ? length : null;
+}
+
+export function getPreferredWordLength(): WordLength | null {
+  if (typeof window === 'undefined') return GAME_CONFIG.DEFAULT_WORD_LENGTH;
+  try {
+    const settings = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return 'wordLength' in settings ? parseWordLength(settings.wordLength) : GAME_CONFIG.DEFAULT_WORD_LENGTH;
+  } catch {
+    return GAME_CONFIG.DEFAULT_WORD_LENGTH;
+  }
+}
+
+// Merged into the saved settings, so the splash screen can change the length
+// without the Settings panel open
+export function setPreferredWordLength(length: WordLength | null) {
+  try {
+    const settings = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, wordLength: length }));
+  } catch (error) {
+    console.error('Error saving word length:', error);
+  }
+}
+
+// A length for the next practice word when the player plays mixed lengths
+export function randomWordLength(): WordLength {
+  return WORD_LENGTHS[Math.floor(Math.random() * WORD_LENGTHS.length)];
+}
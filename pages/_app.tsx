@@ -2,6 +2,9 @@ import type { AppProps } from "next/app";
 import "@/styles/globals.css";
 import Layout from "@/components/Layout";
 import { useState, useEffect, useCallback } from "react";
+import { registerServiceWorker } from "@/lib/offline";
+import { startStorageSync } from "@/lib/sync";
+import { puzzleNumberFor } from "@/lib/puzzleNumber";
 
 // Optional per-page layout control: a page component may export `narrow = true` or `title`.
 type NextPageWithLayout = AppProps["Component"] & {
@@ -11,10 +14,13 @@ type NextPageWithLayout = AppProps["Component"] & {
 
 // Default settings that match the Game component's defaults
 const DEFAULT_SETTINGS = {
+  wordLength: null,
   maxGuesses: 6,
   hideClue: false,
-  randomPuzzle: false,
   lockGreenMatchedLetters: false,
+  hardMode: false,
+  verseClues: false,
+  dailyRollover: 'global',
 };
 
 export default function MyApp({ Component, pageProps }: AppProps) {
@@ -46,9 +52,10 @@ export default function MyApp({ Component, pageProps }: AppProps) {
         for (const puzzleId of puzzleIds) {
           const puzzle = puzzlesData[puzzleId];
           const isCompleted = puzzle.gameStatus === 'won' || puzzle.gameStatus === 'lost';
-          const isDailyPuzzle = !puzzleId.includes('archive') && !puzzle.randomPuzzle;
+          // Practice games are kept apart (lib/practice.ts), so every stored game is dated
+          const isDailyPuzzle = !puzzleId.includes('archive');
           
-          if (isCompleted && isDailyPuzzle && puzzle.secretWord) {
+          if (isCompleted && isDailyPuzzle && puzzle.solution) {
             // This is a completed daily puzzle, check if it's more recent
             if (!mostRecentCompletedPuzzle || !mostRecentCompletedId || puzzleId > mostRecentCompletedId) {
               mostRecentCompletedPuzzle = puzzle;
@@ -62,23 +69,23 @@ export default function MyApp({ Component, pageProps }: AppProps) {
         
         if (mostRecentCompletedPuzzle && mostRecentCompletedId) {
           console.log('✅ Found completed puzzle:', mostRecentCompletedId);
-          console.log('🔤 Secret word:', mostRecentCompletedPuzzle.secretWord);
+          console.log('🔤 Solution:', mostRecentCompletedPuzzle.solution);
           
-          if (mostRecentCompletedPuzzle.secretWord) {
+          if (mostRecentCompletedPuzzle.solution) {
             // Check if word exists in definitions
             try {
-              console.log('🌐 Checking word in definitions:', mostRecentCompletedPuzzle.secretWord);
-              const response = await fetch(`/api/word-definitions?word=${encodeURIComponent(mostRecentCompletedPuzzle.secretWord)}`);
+              console.log('🌐 Checking word in definitions:', mostRecentCompletedPuzzle.solution);
+              const response = await fetch(`/api/word-definitions?word=${encodeURIComponent(mostRecentCompletedPuzzle.solution)}`);
               console.log('📡 API response status:', response.status);
               
               if (response.ok) {
                 console.log('✅ Word found in definitions, showing scripture link');
                 setShowScriptureLink(true);
-                setScriptureWord(mostRecentCompletedPuzzle.secretWord);
+                setScriptureWord(mostRecentCompletedPuzzle.solution);
                 
-                // Extract puzzle number from puzzle ID (e.g., "2025-09-01:6" -> "9")
-                const puzzleNumber = mostRecentCompletedId.split(':')[0].split('-').slice(1).join('');
-                setScripturePuzzleNumber(puzzleNumber);
+                // Puzzle number from the puzzle ID's date (e.g., "2025-09-01:6" -> "8")
+                const puzzleNumber = puzzleNumberFor(mostRecentCompletedId.split(':')[0]);
+                setScripturePuzzleNumber(String(puzzleNumber));
                 return;
               } else {
                 console.log('❌ Word not found in definitions');
@@ -103,6 +110,17 @@ export default function MyApp({ Component, pageProps }: AppProps) {
     }
   }, []);
 
+  // Offline support: app shell, dictionaries and released puzzles (public/sw.js);
+  // guesses still need the network
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  // Back up / sync the puzzle history, then refresh anything derived from it
+  useEffect(() => {
+    startStorageSync().then(() => checkForScriptureLink());
+  }, [checkForScriptureLink]);
+
   // Load settings from localStorage on mount
   useEffect(() => {
     try {
@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useCallback } from "react";
+import Head from "next/head";
+import Link from "next/link";
+import { AlertTriangle, ArrowLeftRight, ChevronLeft, ChevronRight, Lock, Play } from "lucide-react";
+import CalendarGrid from "../../components/CalendarGrid";
+import { ScheduleChange, getEditorKey, loadSchedule, setEditorKey, updateSchedule } from "../../lib/schedule";
+import { localDateISO, parseDateISO, todayISO } from "../../lib/timezone";
+import { ScheduleEntry, ScheduleWarning } from "../../lib/types";
+
+const WARNING_LABELS: Record<ScheduleWarning, string> = {
+  not_in_dictionary: "Not in the guess dictionary, so players can't enter it",
+  missing_clue: "No clue",
+  missing_definition: "No definition for the scripture page",
+  duplicate_answer: "Used again too soon (under 180 days)",
+};
+
+function formatDate(dateISO: string): string {
+  return parseDateISO(dateISO).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+}
+
+function monthRange(month: Date): { from: string; to: string } {
+  return {
+    from: localDateISO(new Date(month.getFullYear(), month.getMonth(), 1)),
+    to: localDateISO(new Date(month.getFullYear(), month.getMonth() + 1, 0)),
+  };
+}
+
+export default function ScheduleAdminPage() {
+  const [password, setPassword] = useState<string | null>(null);
+  const [passwordInput, setPasswordInput] = useState("");
+  const [currentMonth, setCurrentMonth] = useState<Date>(() => {
+    const today = parseDateISO(todayISO());
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [entries, setEntries] = useState<Map<string, ScheduleEntry>>(new Map());
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [swapFrom, setSwapFrom] = useState<string | null>(null);  // picking the other day of a swap
+  const [wordInput, setWordInput] = useState("");
+  const [clueInput, setClueInput] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPassword(getEditorKey());
+  }, []);
+
+  const signOut = useCallback((message: string | null) => {
+    setEditorKey(null);
+    setPassword(null);
+    setEntries(new Map());
+    setError(message);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!password) return;
+    const { from, to } = monthRange(currentMonth);
+    setIsLoading(true);
+    try {
+      const data = await loadSchedule(password, from, to);
+      if (!data) return signOut("Wrong password.");
+      setEntries(new Map(data.map(entry => [entry.date, entry] as [string, ScheduleEntry])));
+      setError(null);
+    } catch (err) {
+      console.error("Error loading the schedule:", err);
+      setError(err instanceof Error ? err.message : "Failed to load the schedule.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [password, currentMonth, signOut]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const selected = selectedDate ? entries.get(selectedDate) ?? null : null;
+
+  // Reset the inline editors whenever another day is picked or it changes
+  useEffect(() => {
+    setWordInput(selected?.word ?? "");
+    setClueInput(selected?.clue ?? "");
+  }, [selected]);
+
+  const applyChange = async (change: ScheduleChange) => {
+    if (!password) return;
+    setIsSaving(true);
+    try {
+      const changed = await updateSchedule(password, change);
+      if (!changed) return signOut("Wrong password.");
+      // Other days' "last used" can move too, so reload the month
+      await refresh();
+    } catch (err) {
+      console.error("Error updating the schedule:", err);
+      setError(err instanceof Error ? err.message : "Failed to update the schedule.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDayClick = (dateISO: string) => {
+    if (swapFrom) {
+      const entry = entries.get(dateISO);
+      if (dateISO !== swapFrom && entry && !entry.released) {
+        applyChange({ action: "swap", date: swapFrom, otherDate: dateISO });
+        setSelectedDate(dateISO);
+      }
+      setSwapFrom(null);
+      return;
+    }
+    setSelectedDate(dateISO);
+  };
+
+  const navigateMonth = (offset: number) => {
+    setCurrentMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+  };
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passwordInput) return;
+    setEditorKey(passwordInput);
+    setPassword(passwordInput);
+    setPasswordInput("");
+  };
+
+  if (!password) {
+    return (
+      <div className="max-w-sm mx-auto pt-8 px-6">
+        <Head>
+          <meta name="robots" content="noindex,nofollow" />
+        </Head>
+        <h1 className="text-2xl text-center mb-6">Puzzle Schedule</h1>
+        <form onSubmit={handleSignIn} className="space-y-3">
+          <input
+            type="password"
+            value={passwordInput}
+            onChange={(e) => setPasswordInput(e.target.value)}
+            placeholder="Editor password"
+            aria-label="Editor password"
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:border-gray-500 focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 focus:outline-none"
+          />
+          <button
+            type="submit"
+            className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+          >
+            <Lock className="w-4 h-4" />
+            Sign in
+          </button>
+        </form>
+        {error && <p className="text-center text-gray-600 mt-4">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 md:px-0 pt-4 pb-8">
+      <Head>
+        <meta name="robots" content="noindex,nofollow" />
+      </Head>
+
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl">Puzzle Schedule</h1>
+        <button onClick={() => signOut(null)} className="text-sm text-gray-500 hover:text-gray-900">
+          Sign out
+        </button>
+      </div>
+
+      {error && <p className="text-gray-600 mb-4">{error}</p>}
+
+      <div className="grid md:grid-cols-[1fr_20rem] gap-8">
+        {/* Calendar */}
+        <div>
+          <div className="flex items-center justify-center gap-4 mb-6">
+            <button
+              onClick={() => navigateMonth(-1)}
+              aria-label="Previous month"
+              className="w-10 h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="w-44 text-center text-lg">
+              {currentMonth.toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+            </span>
+            <button
+              onClick={() => navigateMonth(1)}
+              aria-label="Next month"
+              className="w-10 h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+
+          {swapFrom && (
+            <p className="text-center text-sm text-gray-600 mb-3">
+              Pick a day to swap with {formatDate(swapFrom)}, or{" "}
+              <button onClick={() => setSwapFrom(null)} className="underline">cancel</button>
+            </p>
+          )}
+
+          <div className={isLoading ? "opacity-50" : ""}>
+            <CalendarGrid
+              month={currentMonth}
+              labelClassName="h-8"
+              renderDay={(day) => {
+                const dateISO = localDateISO(day);
+                const entry = entries.get(dateISO);
+                return (
+                  <button
+                    onClick={() => handleDayClick(dateISO)}
+                    className={`
+                      h-20 w-full rounded-lg border p-1 text-left flex flex-col transition-colors
+                      ${entry?.released ? "bg-gray-50 text-gray-400 border-gray-100" : "border-gray-200 hover:bg-gray-100"}
+                      ${dateISO === selectedDate ? "ring-2 ring-green-600" : ""}
+                      ${dateISO === swapFrom ? "ring-2 ring-blue-500" : ""}
+                      ${dateISO === todayISO() ? "border-green-300" : ""}
+                    `}
+                  >
+                    <span className="flex items-center justify-between text-xs">
+                      {day.getDate()}
+                      {entry && entry.warnings.length > 0 && (
+                        <AlertTriangle className="w-3.5 h-3.5 text-amber-500" aria-label="Has warnings" />
+                      )}
+                    </span>
+                    <span className={`mt-auto text-xs md:text-sm font-medium truncate ${entry?.word ? "" : "text-gray-300"}`}>
+                      {entry?.word ?? "—"}
+                    </span>
+                  </button>
+                );
+              }}
+            />
+          </div>
+        </div>
+
+        {/* Selected day */}
+        <div>
+          {!selected && <p className="text-gray-500">Pick a day to edit it.</p>}
+
+          {selected && (
+            <div className="space-y-5">
+              <div>
+                <h2 className="text-xl">{formatDate(selected.date)}</h2>
+                <p className="text-sm text-gray-500">
+                  Verseword #{selected.puzzleNumber}
+                  {selected.released && " · released, read-only"}
+                </p>
+              </div>
+
+              {selected.otherWords.length > 0 && (
+                <p className="text-sm text-gray-600">
+                  Also on this day: {selected.otherWords.join(", ")} (edit these in the puzzles file)
+                </p>
+              )}
+
+              {selected.word && (
+                <p className="text-sm text-gray-600">
+                  {selected.lastUsed
+                    ? `${selected.word} was last used ${selected.lastUsed.daysAgo} days earlier (${formatDate(selected.lastUsed.date)})`
+                    : `${selected.word} hasn't been used before`}
+                </p>
+              )}
+
+              {selected.word && (
+                <Link
+                  href={{ pathname: "/", query: { date: selected.date, archive: "true", preview: "true" } }}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  <Play className="w-4 h-4" />
+                  Playtest
+                </Link>
+              )}
+
+              {selected.warnings.length > 0 && (
+                <ul className="space-y-1">
+                  {selected.warnings.map(warning => (
+                    <li key={warning} className="flex items-start gap-2 text-sm text-amber-700">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      {WARNING_LABELS[warning]}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {!selected.released && (
+                <>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      applyChange({ action: "assign", date: selected.date, word: wordInput });
+                    }}
+                  >
+                    <label className="block text-sm text-gray-500 mb-1" htmlFor="schedule-word">Answer</label>
+                    <div className="flex gap-2">
+                      <input
+                        id="schedule-word"
+                        value={wordInput}
+                        onChange={(e) => setWordInput(e.target.value.toUpperCase().replace(/[^A-Z]/g, ""))}
+                        maxLength={7}
+                        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg bg-white uppercase tracking-wider focus:border-gray-500 focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 focus:outline-none"
+                      />
+                      <button
+                        type="submit"
+                        disabled={isSaving || wordInput.length < 5 || wordInput === selected.word}
+                        className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Assign
+                      </button>
+                    </div>
+                  </form>
+
+                  {selected.word && (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        applyChange({ action: "clue", date: selected.date, clue: clueInput });
+                      }}
+                    >
+                      <label className="block text-sm text-gray-500 mb-1" htmlFor="schedule-clue">Clue</label>
+                      <div className="flex gap-2">
+                        <input
+                          id="schedule-clue"
+                          value={clueInput}
+                          onChange={(e) => setClueInput(e.target.value)}
+                          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg bg-white focus:border-gray-500 focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 focus:outline-none"
+                        />
+                        <button
+                          type="submit"
+                          disabled={isSaving || !clueInput.trim() || clueInput === selected.clue}
+                          className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          Save
+                        </button>
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">Changes the clue for every {selected.date.slice(0, 4)} day with this answer</p>
+                    </form>
+                  )}
+
+                  <button
+                    onClick={() => setSwapFrom(swapFrom === selected.date ? null : selected.date)}
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-4 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                  >
+                    <ArrowLeftRight className="w-4 h-4" />
+                    {swapFrom === selected.date ? "Cancel swap" : "Swap with another day"}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+ScheduleAdminPage.title = "Schedule";  // header shows "Verseword · Schedule"
@@ -0,0 +1,90 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { requireEditor } from '../../../lib/adminAuth';
+import { ISO_DATE } from '../../../lib/puzzleData';
+import { assignConflict, assignWord, isEditableDate, isValidAnswer, loadSchedule, setClue, swapConflict, swapWords } from '../../../lib/scheduleAdmin';
+import { daysBetween } from '../../../lib/timezone';
+
+const MAX_RANGE_DAYS = 62;
+
+// Editor access to the puzzle schedule (password header, see lib/adminAuth.ts).
+// GET ?from=&to= lists every day in the range. POST changes one or two days:
+//   { action: 'assign', date, word }
+//   { action: 'swap', date, otherDate }
+//   { action: 'clue', date, clue }
+// and returns the changed days.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Cache-Control', 'no-store');
+  if (!requireEditor(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      const { from, to } = req.query;
+      if (typeof from !== 'string' || typeof to !== 'string' || !ISO_DATE.test(from) || !ISO_DATE.test(to)) {
+        return res.status(400).json({ error: 'Invalid date range. Use from=YYYY-MM-DD&to=YYYY-MM-DD.' });
+      }
+      const days = daysBetween(from, to);
+      if (days < 0 || days >= MAX_RANGE_DAYS) {
+        return res.status(400).json({ error: `Date range must be 1 to ${MAX_RANGE_DAYS} days.` });
+      }
+      return res.status(200).json({ entries: loadSchedule(from, to) });
+    }
+
+    if (req.method === 'POST') {
+      const { action, date, word, otherDate, clue } = req.body ?? {};
+      if (typeof date !== 'string' || !ISO_DATE.test(date)) {
+        return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD.' });
+      }
+      if (!isEditableDate(date)) {
+        return res.status(409).json({ error: `${date} is already released.` });
+      }
+
+      if (action === 'assign') {
+        const upperWord = typeof word === 'string' ? word.trim().toUpperCase() : '';
+        if (!isValidAnswer(upperWord)) {
+          return res.status(400).json({ error: 'Answers must be 5, 6 or 7 letters.' });
+        }
+        const conflict = assignConflict(date, upperWord);
+        if (conflict) {
+          return res.status(409).json({ error: `${conflict}.` });
+        }
+        assignWord(date, upperWord);
+        return res.status(200).json({ entries: loadSchedule(date, date) });
+      }
+
+      if (action === 'swap') {
+        if (typeof otherDate !== 'string' || !ISO_DATE.test(otherDate) || otherDate === date) {
+          return res.status(400).json({ error: 'Invalid otherDate. Use a different YYYY-MM-DD.' });
+        }
+        if (!isEditableDate(otherDate)) {
+          return res.status(409).json({ error: `${otherDate} is already released.` });
+        }
+        const conflict = swapConflict(date, otherDate);
+        if (conflict) {
+          return res.status(409).json({ error: `${conflict}.` });
+        }
+        swapWords(date, otherDate);
+        return res.status(200).json({ entries: loadSchedule(date, date).concat(loadSchedule(otherDate, otherDate)) });
+      }
+
+      if (action === 'clue') {
+        if (typeof clue !== 'string' || !clue.trim()) {
+          return res.status(400).json({ error: 'Clue is required.' });
+        }
+        const [entry] = loadSchedule(date, date);
+        if (!entry.word) {
+          return res.status(409).json({ error: `No puzzle is scheduled on ${date}.` });
+        }
+        setClue(date, clue);
+        return res.status(200).json({ entries: loadSchedule(date, date) });
+      }
+
+      return res.status(400).json({ error: 'Unknown action.' });
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error updating the schedule:', error);
+    res.status(500).json({ error: 'Failed to update the schedule' });
+  }
+}
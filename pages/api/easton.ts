@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getEastonEntry, searchEaston } from '../../lib/eastonData';
+import { ISO_DATE } from '../../lib/puzzleData';
+import { todayISO } from '../../lib/timezone';
+
+const MAX_QUERY_LENGTH = 100;
+
+// Easton's Bible Dictionary: ?q=grace&page=2 searches (an empty q lists every
+// term), ?term=abel-meholah returns one entry with its cross-links.
+// ?today= is the player's puzzle day; the entry only lists puzzles before it.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { q = '', page = '1', term, today = todayISO('global') } = req.query;
+
+  try {
+    if (term !== undefined) {
+      if (typeof term !== 'string' || !term) {
+        return res.status(400).json({ error: 'Invalid term parameter.' });
+      }
+      if (typeof today !== 'string' || !ISO_DATE.test(today)) {
+        return res.status(400).json({ error: 'Invalid today parameter. Use YYYY-MM-DD.' });
+      }
+
+      const entry = getEastonEntry(term, today);
+      if (!entry) {
+        return res.status(404).json({ error: 'Term not found in Easton\'s Bible Dictionary.' });
+      }
+
+      // The entry lists past answers, so keep it out of shared caches
+      res.setHeader('Cache-Control', 'private, no-store');
+      return res.status(200).json(entry);
+    }
+
+    const pageNumber = Number(page);
+    if (typeof q !== 'string' || q.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({ error: `Invalid q parameter. Maximum length is ${MAX_QUERY_LENGTH}.` });
+    }
+    if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+      return res.status(400).json({ error: 'Invalid page parameter. Use a page number from 1.' });
+    }
+
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.status(200).json(searchEaston(q, pageNumber));
+  } catch (error) {
+    console.error('Error searching Easton\'s dictionary:', error);
+    res.status(500).json({ error: 'Failed to search the dictionary' });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { findGospelsSet, toGospelsPuzzle } from '../../../lib/gospelsData';
+import { ISO_DATE } from '../../../lib/puzzleData';
+import { isReleased } from '../../../lib/timezone';
+
+// The Gospels mode set for a weekend date (Saturday or Sunday). Score guesses
+// with /api/gospels/guess; the answers stay on the server.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { date } = req.query;
+
+  if (typeof date !== 'string' || !ISO_DATE.test(date)) {
+    return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD.' });
+  }
+  if (!isReleased(date)) {
+    return res.status(403).json({ error: 'This puzzle is not available yet.' });
+  }
+
+  try {
+    const found = findGospelsSet(date);
+    if (!found) {
+      return res.status(404).json({ error: `No Gospels puzzle for ${date}; it runs on weekends.` });
+    }
+
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.status(200).json(toGospelsPuzzle(found.date, found.set));
+  } catch (error) {
+    console.error('Error reading Gospels set:', error);
+    res.status(500).json({ error: 'Failed to load puzzle' });
+  }
+}
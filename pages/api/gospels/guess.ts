@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { findGospelsSet } from '../../../lib/gospelsData';
+import { ISO_DATE, isDictionaryWord } from '../../../lib/puzzleData';
+import { puzzleKey, readGameToken, signGameToken } from '../../../lib/gameToken';
+import { evaluateGuess } from '../../../lib/gameLogic';
+import { GAME_CONFIG } from '../../../lib/config';
+import { isReleased } from '../../../lib/timezone';
+import { GospelsGuessResult } from '../../../lib/types';
+
+// Scores one guess against every board of the Gospels set for ?date=, as
+// /api/guess does for a single puzzle. The client ignores boards it has
+// already solved. ?token= counts the shared guesses (see lib/gameToken.ts), so
+// the solutions are only sent back with the real final attempt.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { date, guess, token } = req.query;
+
+  if (typeof date !== 'string' || !ISO_DATE.test(date)) {
+    return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD.' });
+  }
+  if (typeof guess !== 'string' || !/^[A-Za-z]+$/.test(guess)) {
+    return res.status(400).json({ error: 'Invalid guess.' });
+  }
+  if (!isReleased(date)) {
+    return res.status(403).json({ error: 'This puzzle is not available yet.' });
+  }
+
+  try {
+    const found = findGospelsSet(date);
+    if (!found) {
+      return res.status(404).json({ error: `No Gospels puzzle for ${date}; it runs on weekends.` });
+    }
+
+    const game = readGameToken(token, puzzleKey('gospels', found.date));
+    if (!game) {
+      return res.status(400).json({ error: 'Invalid game token.' });
+    }
+    if (game.attempts >= GAME_CONFIG.GOSPELS_MAX_GUESSES) {
+      return res.status(400).json({ error: 'No guesses left.' });
+    }
+
+    const words = found.set.words;
+    const upperGuess = guess.toUpperCase();
+    if (upperGuess.length !== words[0].length) {
+      return res.status(400).json({ error: `Guess must be ${words[0].length} letters.` });
+    }
+    if (!isDictionaryWord(upperGuess)) {
+      return res.status(400).json({ error: 'Not in the word list.' });
+    }
+
+    const attempts = game.attempts + 1;
+    const result: GospelsGuessResult = {
+      evaluations: words.map(word => evaluateGuess(upperGuess, word)),
+      solved: words.map(word => upperGuess === word),
+      gameToken: signGameToken({ ...game, attempts }),
+    };
+    if (attempts >= GAME_CONFIG.GOSPELS_MAX_GUESSES) {
+      result.solutions = words;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error scoring Gospels guess:', error);
+    res.status(500).json({ error: 'Failed to check guess' });
+  }
+}
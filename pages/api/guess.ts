@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hasEditorKey } from '../../lib/adminAuth';
+import { ISO_DATE, WORD_LENGTH_PARAM, findPuzzle, isDictionaryWord } from '../../lib/puzzleData';
+import { PRACTICE_ID, findPracticeWord, practiceVerse } from '../../lib/practiceData';
+import { formatVerseRef, pickVerse } from '../../lib/kjv';
+import { puzzleKey, readGameToken, signGameToken } from '../../lib/gameToken';
+import { evaluateGuess } from '../../lib/gameLogic';
+import { GAME_CONFIG } from '../../lib/config';
+import { isReleased } from '../../lib/timezone';
+import { GuessResult } from '../../lib/types';
+
+// Scores a guess against the puzzle for ?date= (or the practice word for
+// ?practice=, see /api/practice) so the answer never has to reach the client.
+// ?length= picks one of the day's puzzles, as for /api/puzzle/[date].
+// ?token= is the game token from the puzzle or the last scored guess (see
+// lib/gameToken.ts); it counts the guesses, so the solution is only sent back
+// with a winning guess or a real final miss.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { date, length, practice, guess, token } = req.query;
+
+  const isPractice = typeof practice === 'string';
+  if (isPractice && !PRACTICE_ID.test(practice)) {
+    return res.status(400).json({ error: 'Invalid practice id.' });
+  }
+  if (!isPractice && (typeof date !== 'string' || !ISO_DATE.test(date))) {
+    return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD.' });
+  }
+  if (length !== undefined && (typeof length !== 'string' || !WORD_LENGTH_PARAM.test(length))) {
+    return res.status(400).json({ error: 'Invalid length. Must be 5, 6, or 7.' });
+  }
+  if (typeof guess !== 'string' || !/^[A-Za-z]+$/.test(guess)) {
+    return res.status(400).json({ error: 'Invalid guess.' });
+  }
+
+  if (!isPractice && !isReleased(date as string) && !hasEditorKey(req)) {
+    return res.status(403).json({ error: 'This puzzle is not available yet.' });
+  }
+
+  try {
+    const answer = isPractice ? findPracticeWord(practice) : findPuzzle(date as string, length ? Number(length) : undefined)?.word;
+    if (!answer) {
+      return res.status(404).json({ error: isPractice ? 'Unknown practice word' : `No ${length ? `${length}-letter ` : ''}puzzle available for date ${date}` });
+    }
+
+    const word = answer.toUpperCase();
+    const game = readGameToken(token, isPractice ? puzzleKey('practice', practice) : puzzleKey('day', `${date}:${word.length}`));
+    if (!game) {
+      return res.status(400).json({ error: 'Invalid game token.' });
+    }
+    if (game.attempts >= GAME_CONFIG.MAX_GUESSES) {
+      return res.status(400).json({ error: 'No guesses left.' });
+    }
+
+    const upperGuess = guess.toUpperCase();
+    if (upperGuess.length !== word.length) {
+      return res.status(400).json({ error: `Guess must be ${word.length} letters.` });
+    }
+    if (!isDictionaryWord(upperGuess)) {
+      return res.status(400).json({ error: 'Not in the word list.' });
+    }
+
+    const attempts = game.attempts + 1;
+    const evaluation = evaluateGuess(upperGuess, word);
+    const solved = upperGuess === word;
+    const result: GuessResult = { evaluation, solved, gameToken: signGameToken({ ...game, attempts }) };
+    if (solved || attempts >= GAME_CONFIG.MAX_GUESSES) {
+      result.solution = word;
+      const verse = isPractice ? practiceVerse(word) : pickVerse(word, date as string);
+      if (verse) result.verseReference = formatVerseRef(verse);
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error scoring guess:', error);
+    res.status(500).json({ error: 'Failed to check guess' });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { findClue, hashAnswer, loadClues, loadPuzzleRange } from '../../lib/puzzleData';
+import { puzzleNumberFor } from '../../lib/puzzleNumber';
+import { issueGameToken, puzzleKey } from '../../lib/gameToken';
+import { addDays, latestReleasedDateISO, nextReleaseAt, todayISO } from '../../lib/timezone';
+import { CluesData } from '../../lib/types';
+
+// Released puzzles (never a later day, and never the answer word), fetched by
+// the service worker (public/sw.js) so today's board still opens while offline.
+// Guesses and reveals are scored by the server only, so they need the network.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    // Start a day early: with local-midnight rollover, players west of the
+    // puzzle timezone are still on yesterday's puzzle
+    const from = addDays(todayISO('global'), -1);
+    const clueCache = new Map<number, CluesData>();
+    const cluesFor = (year: number) => {
+      if (!clueCache.has(year)) clueCache.set(year, loadClues(year));
+      return clueCache.get(year)!;
+    };
+
+    const puzzles = loadPuzzleRange(from, latestReleasedDateISO()).map(p => {
+      const word = p.word.toUpperCase();
+      return {
+        date: p.date,
+        len: word.length,
+        main: p.main,
+        clue: findClue(cluesFor(Number(p.date.slice(0, 4))), word),
+        puzzleNumber: puzzleNumberFor(p.date),
+        answerHash: hashAnswer(word),
+        gameToken: issueGameToken(puzzleKey('day', `${p.date}:${word.length}`)),
+      };
+    });
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json({
+      generatedAt: new Date().toISOString(),
+      refreshAfter: nextReleaseAt().toISOString(),
+      from,
+      puzzles,
+    });
+  } catch (error) {
+    console.error('Error building offline pack:', error);
+    res.status(500).json({ error: 'Failed to build offline pack' });
+  }
+}
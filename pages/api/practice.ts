@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { PRACTICE_ID, pickPracticePuzzle } from '../../lib/practiceData';
+import { WordLength } from '../../lib/types';
+
+// A random practice word for ?length= (5, 6 or 7). ?exclude= lists practice
+// ids the player has had recently (comma separated). Score it with
+// /api/guess?practice={id}; the answer stays on the server.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { length, exclude } = req.query;
+
+  if (length !== '5' && length !== '6' && length !== '7') {
+    return res.status(400).json({ error: 'Invalid word length. Must be 5, 6, or 7.' });
+  }
+
+  const excluded = new Set(
+    typeof exclude === 'string' ? exclude.split(',').filter(id => PRACTICE_ID.test(id)) : []
+  );
+
+  try {
+    const puzzle = pickPracticePuzzle(Number(length) as WordLength, excluded);
+    if (!puzzle) {
+      return res.status(404).json({ error: `No practice words available for length ${length}` });
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(puzzle);
+  } catch (error) {
+    console.error('Error picking practice word:', error);
+    res.status(500).json({ error: 'Failed to load practice word' });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hasEditorKey } from '../../../lib/adminAuth';
+import { ISO_DATE, WORD_LENGTH_PARAM, answerDifficulty, findClue, findPuzzle, hashAnswer, loadClues } from '../../../lib/puzzleData';
+import { puzzleNumberFor } from '../../../lib/puzzleNumber';
+import { issueGameToken, puzzleKey } from '../../../lib/gameToken';
+import { isReleased } from '../../../lib/timezone';
+
+// The puzzle for a date; ?length= picks one of the day's lengths, otherwise
+// the day's main puzzle (see PuzzleFileDay in lib/puzzleData.ts)
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { date, length } = req.query;
+
+  if (typeof date !== 'string' || !ISO_DATE.test(date)) {
+    return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD.' });
+  }
+  if (length !== undefined && (typeof length !== 'string' || !WORD_LENGTH_PARAM.test(length))) {
+    return res.status(400).json({ error: 'Invalid length. Must be 5, 6, or 7.' });
+  }
+
+  // Never hand out a puzzle before its day has started somewhere, except to
+  // an editor playtesting it
+  const released = isReleased(date);
+  const editor = hasEditorKey(req);
+  if (!released && !editor) {
+    return res.status(403).json({ error: 'This puzzle is not available yet.' });
+  }
+
+  try {
+    const puzzle = findPuzzle(date, length ? Number(length) : undefined);
+    if (!puzzle) {
+      return res.status(404).json({ error: `No ${length ? `${length}-letter ` : ''}puzzle available for date ${date}` });
+    }
+
+    const word = puzzle.word.toUpperCase();
+    const clue = findClue(loadClues(Number(date.slice(0, 4))), word);
+
+    // An unreleased day, or an editor's copy, must never land in a shared cache
+    res.setHeader('Cache-Control', released && !editor ? 'public, max-age=300' : 'no-store');
+    res.status(200).json({
+      date,
+      len: word.length,
+      clue,
+      puzzleNumber: puzzleNumberFor(date),
+      answerHash: hashAnswer(word),
+      gameToken: issueGameToken(puzzleKey('day', `${date}:${word.length}`)),
+      // The signals narrow the answer down to a handful of dictionary words,
+      // so only editors get them (playtest readout)
+      ...(editor ? { difficulty: answerDifficulty(word) } : {}),
+    });
+  } catch (error) {
+    console.error('Error reading puzzle:', error);
+    res.status(500).json({ error: 'Failed to load puzzle' });
+  }
+}
@@ -1,41 +1,36 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import fs from 'fs';
-import path from 'path';
+import { ISO_DATE, answerDifficulty, loadPuzzleRange } from '../../lib/puzzleData';
+import { latestReleasedDateISO } from '../../lib/timezone';
 
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { random } = req.query;
+  const { random, from, to, date, difficulty } = req.query;
 
-  try {
-    // Get current year and try to load the unified puzzle file
-    const currentYear = new Date().getFullYear();
-    let puzzlesData: any = {};
-    let loadedYear = currentYear;
-
-    // Try to load puzzles for current year, fall back to 2025 if not found
-    for (let year = currentYear; year >= 2025; year--) {
-      try {
-        const filePath = path.join(process.cwd(), 'lib', 'data', `puzzles-${year}.json`);
-        const fileContent = fs.readFileSync(filePath, 'utf8');
-        puzzlesData = JSON.parse(fileContent);
-        loadedYear = year;
-        break; // Successfully loaded, exit loop
-      } catch (yearError) {
-        // Continue to next year if this one fails
-        continue;
-      }
+  // Optional YYYY-MM-DD filters: ?date= for a single day, ?from=&to= for a range
+  for (const [name, value] of Object.entries({ from, to, date })) {
+    if (value !== undefined && (typeof value !== 'string' || !ISO_DATE.test(value))) {
+      return res.status(400).json({ error: `Invalid ${name} parameter. Use YYYY-MM-DD.` });
     }
+  }
 
-    if (Object.keys(puzzlesData).length === 0) {
-      return res.status(500).json({ error: 'No puzzle data available for any year' });
+  try {
+    // Merge every puzzles-{year}.json so archive dates survive year boundaries.
+    // Answers stay on the server (see /api/guess), and future days stay hidden.
+    const today = latestReleasedDateISO();
+    const until = typeof to === 'string' && to < today ? to : today;
+    const range = typeof date === 'string'
+      ? (date > today ? [] : loadPuzzleRange(date, date))
+      : loadPuzzleRange(from as string | undefined, until);
+    // One entry per puzzle, so a day can appear once per length (main first).
+    // ?difficulty=true adds each answer's estimated difficulty level (see
+    // lib/difficulty.ts); the range includes today, so never the signals
+    const puzzles = range.map(p => (difficulty === 'true'
+      ? { date: p.date, len: p.len, main: p.main, level: answerDifficulty(p.word).level }
+      : { date: p.date, len: p.len, main: p.main }));
+
+    if (puzzles.length === 0) {
+      return res.status(404).json({ error: 'No puzzle data available for the requested dates' });
     }
 
-    // Convert the object format to array format for compatibility
-    const puzzles = Object.entries(puzzlesData).map(([date, puzzle]: [string, any]) => ({
-      date,
-      word: puzzle.word,
-      len: puzzle.word.length
-    }));
-
     // If random mode is requested, return a single random puzzle
     if (random === 'true') {
       const randomIndex = Math.floor(Math.random() * puzzles.length);
@@ -46,7 +41,7 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
 
     res.status(200).json(puzzles);
   } catch (error) {
-    console.error('Error reading puzzles file:', error);
+    console.error('Error reading puzzles files:', error);
     res.status(500).json({ error: 'Failed to load puzzles' });
   }
 }
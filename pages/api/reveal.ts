@@ -0,0 +1,63 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hasEditorKey } from '../../lib/adminAuth';
+import { ISO_DATE, WORD_LENGTH_PARAM, findPuzzle } from '../../lib/puzzleData';
+import { PRACTICE_ID, findPracticeWord } from '../../lib/practiceData';
+import { puzzleKey, readGameToken, revealRandom, signGameToken } from '../../lib/gameToken';
+import { pickRevealPosition } from '../../lib/engine';
+import { GAME_CONFIG } from '../../lib/config';
+import { isReleased } from '../../lib/timezone';
+import { WordLength } from '../../lib/types';
+
+// Picks and returns one letter of the answer for a letter reveal, for ?date=
+// (and ?length=) or ?practice= (see /api/guess). ?token= is the game token;
+// reveals are only allowed before the first guess and up to the puzzle's
+// budget, and always come in the same order, so a fresh token can't uncover
+// more letters.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { date, length, practice, token } = req.query;
+
+  const isPractice = typeof practice === 'string';
+  if (isPractice && !PRACTICE_ID.test(practice)) {
+    return res.status(400).json({ error: 'Invalid practice id.' });
+  }
+  if (!isPractice && (typeof date !== 'string' || !ISO_DATE.test(date))) {
+    return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD.' });
+  }
+  if (length !== undefined && (typeof length !== 'string' || !WORD_LENGTH_PARAM.test(length))) {
+    return res.status(400).json({ error: 'Invalid length. Must be 5, 6, or 7.' });
+  }
+  if (!isPractice && !isReleased(date as string) && !hasEditorKey(req)) {
+    return res.status(403).json({ error: 'This puzzle is not available yet.' });
+  }
+
+  try {
+    const answer = isPractice ? findPracticeWord(practice) : findPuzzle(date as string, length ? Number(length) : undefined)?.word;
+    if (!answer) {
+      return res.status(404).json({ error: isPractice ? 'Unknown practice word' : `No ${length ? `${length}-letter ` : ''}puzzle available for date ${date}` });
+    }
+
+    const word = answer.toUpperCase();
+    const game = readGameToken(token, isPractice ? puzzleKey('practice', practice) : puzzleKey('day', `${date}:${word.length}`));
+    if (!game) {
+      return res.status(400).json({ error: 'Invalid game token.' });
+    }
+    if (game.attempts > 0) {
+      return res.status(400).json({ error: 'Letter reveals are only available on the first guess.' });
+    }
+
+    const budget = GAME_CONFIG.LETTER_REVEALS[word.length as WordLength] ?? 0;
+    const candidates = Array.from({ length: word.length }, (_, i) => i).filter(i => !game.reveals.includes(i));
+    if (game.reveals.length >= budget || candidates.length === 0) {
+      return res.status(400).json({ error: 'No letter reveals left.' });
+    }
+
+    const position = pickRevealPosition(word, candidates, revealRandom(game));
+    const gameToken = signGameToken({ ...game, reveals: [...game.reveals, position] });
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json({ position, letter: word[position], gameToken });
+  } catch (error) {
+    console.error('Error revealing letter:', error);
+    res.status(500).json({ error: 'Failed to reveal letter' });
+  }
+}
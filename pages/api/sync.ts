@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { mergeSyncRecord, readSyncRecord } from '../../lib/syncStore';
+import { SYNC_CODE } from '../../lib/sync';
+
+// Cross-device puzzle history, keyed by an anonymous sync code.
+// GET ?code= returns the stored history; POST { code, puzzles } merges an
+// upload into it (per puzzle, see pickPuzzleState) and returns the merged set.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  res.setHeader('Cache-Control', 'no-store');
+
+  try {
+    if (req.method === 'GET') {
+      const { code } = req.query;
+      if (typeof code !== 'string' || !SYNC_CODE.test(code)) {
+        return res.status(400).json({ error: 'Invalid sync code.' });
+      }
+      return res.status(200).json(readSyncRecord(code));
+    }
+
+    if (req.method === 'POST') {
+      const { code, puzzles } = req.body ?? {};
+      if (typeof code !== 'string' || !SYNC_CODE.test(code)) {
+        return res.status(400).json({ error: 'Invalid sync code.' });
+      }
+      if (!puzzles || typeof puzzles !== 'object' || Array.isArray(puzzles)) {
+        return res.status(400).json({ error: 'Missing puzzles.' });
+      }
+      return res.status(200).json(mergeSyncRecord(code, puzzles));
+    }
+
+    res.setHeader('Allow', 'GET, POST');
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('Error syncing puzzles:', error);
+    res.status(500).json({ error: 'Failed to sync' });
+  }
+}
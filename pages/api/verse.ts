@@ -0,0 +1,45 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ISO_DATE, WORD_LENGTH_PARAM, findPuzzle } from '../../lib/puzzleData';
+import { blankWord, pickVerse } from '../../lib/kjv';
+import { isReleased } from '../../lib/timezone';
+import { VerseClue } from '../../lib/types';
+
+// A KJV verse containing the answer for ?date= (and ?length=, see
+// /api/puzzle/[date]), with the answer blanked out, for the verse-completion
+// clue mode. Neither the answer nor the verse's reference is sent; /api/guess
+// returns the reference with the solution.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { date, length } = req.query;
+
+  if (typeof date !== 'string' || !ISO_DATE.test(date)) {
+    return res.status(400).json({ error: 'Invalid date. Use YYYY-MM-DD.' });
+  }
+  if (length !== undefined && (typeof length !== 'string' || !WORD_LENGTH_PARAM.test(length))) {
+    return res.status(400).json({ error: 'Invalid length. Must be 5, 6, or 7.' });
+  }
+  if (!isReleased(date)) {
+    return res.status(403).json({ error: 'This puzzle is not available yet.' });
+  }
+
+  try {
+    const puzzle = findPuzzle(date, length ? Number(length) : undefined);
+    if (!puzzle) {
+      return res.status(404).json({ error: `No ${length ? `${length}-letter ` : ''}puzzle available for date ${date}` });
+    }
+
+    const word = puzzle.word.toUpperCase();
+    const verse = pickVerse(word, date);
+    if (!verse) {
+      return res.status(404).json({ error: `No verse found for the puzzle on ${date}` });
+    }
+
+    const clue: VerseClue = {
+      date,
+      text: blankWord(verse.text, word),
+    };
+    res.status(200).json(clue);
+  } catch (error) {
+    console.error('Error loading verse:', error);
+    res.status(500).json({ error: 'Failed to load verse' });
+  }
+}
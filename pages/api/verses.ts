@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { formatVerseRef, resolveReference } from '../../lib/kjv';
+import { PassageText } from '../../lib/types';
+
+const MAX_REFS = 100;
+const MAX_VERSES_PER_REF = 200; // Psalm 119 is 176 verses
+
+// KJV text for scripture references: ?ref=Gen. 11:27-32 (repeat ?ref= to batch).
+// Handles single verses, ranges, comma lists and whole chapters.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { ref } = req.query;
+  const refs = (Array.isArray(ref) ? ref : ref ? [ref] : []).map(r => r.trim()).filter(Boolean);
+
+  if (refs.length === 0) {
+    return res.status(400).json({ error: 'Missing ref parameter, e.g. ?ref=John 3:16' });
+  }
+  if (refs.length > MAX_REFS) {
+    return res.status(400).json({ error: `Too many references. Maximum is ${MAX_REFS}.` });
+  }
+
+  try {
+    const passages: PassageText[] = refs.map(r => {
+      const verses = resolveReference(r) ?? [];
+      const passage: PassageText = {
+        ref: r,
+        verses: verses.slice(0, MAX_VERSES_PER_REF).map(v => ({ reference: formatVerseRef(v), text: v.text })),
+      };
+      if (verses.length > MAX_VERSES_PER_REF) passage.truncated = true;
+      return passage;
+    });
+
+    if (passages.every(p => p.verses.length === 0)) {
+      return res.status(404).json({ error: 'No verses found for the requested references' });
+    }
+
+    // The bundled text is static
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.status(200).json({ passages });
+  } catch (error) {
+    console.error('Error resolving verses:', error);
+    res.status(500).json({ error: 'Failed to load verses' });
+  }
+}
@@ -1,21 +1,20 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import fs from 'fs';
-import path from 'path';
+import { ISO_DATE, findWordDefinition } from '../../lib/puzzleData';
 
+// ?word=ABRAHAM, optionally &date=YYYY-MM-DD to prefer that puzzle year's file
 export default function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { word } = req.query;
+  const { word, date } = req.query;
 
   if (!word || typeof word !== 'string') {
     return res.status(400).json({ error: 'Word parameter is required.' });
   }
+  if (date !== undefined && (typeof date !== 'string' || !ISO_DATE.test(date))) {
+    return res.status(400).json({ error: 'Invalid date parameter. Use YYYY-MM-DD.' });
+  }
 
   try {
-    const filePath = path.join(process.cwd(), 'lib', 'data', 'word-definitions-2025.json');
-    const fileContent = fs.readFileSync(filePath, 'utf8');
-    const definitionsData = JSON.parse(fileContent);
-
     const upperWord = word.toUpperCase();
-    const wordDefinition = definitionsData.definitions[upperWord];
+    const wordDefinition = findWordDefinition(upperWord, date ? Number(date.slice(0, 4)) : undefined);
 
     if (!wordDefinition) {
       return res.status(404).json({ error: 'Word not found in definitions.' });
@@ -26,7 +25,7 @@ export default function handler(req: NextApiRequest, res: NextApiResponse) {
       definitions: wordDefinition
     });
   } catch (error) {
-    console.error('Error reading word definitions file:', error);
+    console.error('Error reading word definitions files:', error);
     res.status(500).json({ error: 'Failed to load word definitions' });
   }
 }
@@ -1,27 +1,39 @@
 import React, { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { ChevronLeft, ChevronRight, ChevronDown } from "lucide-react";
-import { getESTDateString } from "../lib/timezone";
+import CalendarGrid from "../components/CalendarGrid";
+import { localDateISO, parseDateISO, todayISO } from "../lib/timezone";
+import { FIRST_PUZZLE_DATE, puzzleNumberFor } from "../lib/puzzleNumber";
+import { loadArchiveDays } from "../lib/daily";
+import { DIFFICULTY_LABELS } from "../lib/difficulty";
+import { ArchiveDay, DifficultyLevel, WordLength } from "../lib/types";
+import { WORD_LENGTHS, getPreferredWordLength, setPreferredWordLength } from "../lib/wordLength";
+
+// Dots under each day, one per level (see lib/difficulty.ts)
+const DIFFICULTY_DOTS: Record<DifficultyLevel, number> = { easy: 1, medium: 2, hard: 3, expert: 4 };
 
 export default function ArchivePage() {
   const [selectedDate, setSelectedDate] = useState<Date>(() => {
-    // Initialize with today's date in EST timezone
-    const todayEST = getESTDateString();
-    return new Date(todayEST + 'T00:00:00');
+    // Initialize with today's puzzle date (see lib/timezone.ts)
+    return parseDateISO(todayISO());
   });
   const [currentMonth, setCurrentMonth] = useState<Date>(() => {
-    // Initialize with current month in EST timezone
-    const todayEST = getESTDateString();
-    const today = new Date(todayEST + 'T00:00:00');
+    // Initialize with the month of today's puzzle
+    const today = parseDateISO(todayISO());
     return new Date(today.getFullYear(), today.getMonth(), 1);
   });
   const [isClient, setIsClient] = useState(false);
   
   // Cache for puzzle completion status by month
   const [puzzleCache, setPuzzleCache] = useState<Map<string, Set<string>>>(new Map());
+  // Word length and estimated difficulty by date, filled in a month at a time
+  const [days, setDays] = useState<Record<string, ArchiveDay>>({});
+  const [dayMonths, setDayMonths] = useState<Set<string>>(new Set());
+  // Only days of this length can be picked; null shows every day
+  const [wordLength, setWordLength] = useState<WordLength | null>(null);
 
-  // Start date: August 25, 2025 (when daily puzzles actually began)
-  const START_DATE = new Date(2025, 7, 25); // Month is 0-indexed, so 7 = August
+  // Start date: puzzle #1 (when daily puzzles actually began)
+  const START_DATE = parseDateISO(FIRST_PUZZLE_DATE);
 
   const months = [
     "January", "February", "March", "April", "May", "June",
@@ -33,8 +45,14 @@ export default function ArchivePage() {
   // Set client flag to prevent hydration mismatch
   useEffect(() => {
     setIsClient(true);
+    setWordLength(getPreferredWordLength());
   }, []);
 
+  const handleWordLength = (length: WordLength | null) => {
+    setWordLength(length);
+    setPreferredWordLength(length);
+  };
+
   // Get month key for caching (YYYY-MM format)
   const getMonthKey = useCallback((date: Date) => {
     return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
@@ -60,7 +78,7 @@ export default function ArchivePage() {
         // Find all completed puzzles for this month
         Object.values(puzzlesData).forEach((puzzle: any) => {
           if (puzzle.dateISO && puzzle.gameStatus === 'won') {
-            const puzzleDate = new Date(puzzle.dateISO);
+            const puzzleDate = parseDateISO(puzzle.dateISO);
             if (puzzleDate.getFullYear() === month.getFullYear() && 
                 puzzleDate.getMonth() === month.getMonth()) {
               completedDates.add(puzzle.dateISO);
@@ -76,7 +94,7 @@ export default function ArchivePage() {
         if (statsData.results) {
           statsData.results.forEach((result: any) => {
             if (result.dateISO) {
-              const resultDate = new Date(result.dateISO);
+              const resultDate = parseDateISO(result.dateISO);
               if (resultDate.getFullYear() === month.getFullYear() && 
                   resultDate.getMonth() === month.getMonth()) {
                 completedDates.add(result.dateISO);
@@ -102,27 +120,39 @@ export default function ArchivePage() {
     }
   }, [currentMonth, isClient, loadMonthPuzzleData]);
 
+  // Lengths and difficulty come from the server; the calendar works without them
+  useEffect(() => {
+    if (!isClient) return;
+    const monthKey = getMonthKey(currentMonth);
+    if (dayMonths.has(monthKey)) return;
+    setDayMonths(prev => new Set(prev).add(monthKey));
+
+    const from = `${monthKey}-01`;
+    const to = localDateISO(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0));
+    loadArchiveDays(from, to)
+      .then(loaded => setDays(prev => ({ ...prev, ...loaded })))
+      .catch(error => console.error('Error loading archive days:', error));
+  }, [currentMonth, isClient, dayMonths, getMonthKey]);
+
   const isDateSelectable = (date: Date) => {
-    // Use EST timezone for today's date comparison
-    const todayEST = getESTDateString();
-    const dateEST = getESTDateString(date);
-    const startDateEST = getESTDateString(START_DATE);
-    return dateEST >= startDateEST && dateEST <= todayEST;
+    // Calendar cells are local dates; compare them with today's puzzle date
+    const dateISO = localDateISO(date);
+    const day = days[dateISO];
+    return dateISO >= localDateISO(START_DATE) && dateISO <= todayISO() &&
+      (!wordLength || !day || day.levels[wordLength] !== undefined);
   };
 
-  const getDaysInMonth = (date: Date) => {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
-    const daysInMonth = lastDay.getDate();
-    const firstDayOfWeek = firstDay.getDay();
-    
-    return { firstDayOfWeek, daysInMonth };
+  // The puzzle a day opens: the picked length, else the day's main puzzle
+  const dayPuzzle = (date: Date): { len: WordLength; level: DifficultyLevel } | null => {
+    const day = days[localDateISO(date)];
+    if (!day) return null;
+    const len = wordLength && day.levels[wordLength] ? wordLength : day.main;
+    const level = day.levels[len];
+    return level ? { len, level } : null;
   };
 
   const formatDateKey = (date: Date) => {
-    return date.toISOString().slice(0, 10);
+    return localDateISO(date);
   };
 
   const hasPlayedPuzzle = (date: Date) => {
@@ -186,24 +216,6 @@ export default function ArchivePage() {
     });
   };
 
-  const generateCalendarDays = (month: Date) => {
-    const { firstDayOfWeek, daysInMonth } = getDaysInMonth(month);
-    const days = [];
-    
-    // Add empty cells for days before the first day of the month
-    for (let i = 0; i < firstDayOfWeek; i++) {
-      days.push(null);
-    }
-    
-    // Add days of the month
-    for (let day = 1; day <= daysInMonth; day++) {
-      const date = new Date(month.getFullYear(), month.getMonth(), day);
-      days.push(date);
-    }
-    
-    return days;
-  };
-
   if (!isClient) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -217,10 +229,27 @@ export default function ArchivePage() {
 
   return (
     <div className="max-w-md mx-auto pt-4">
-      <h1 className="text-2xl text-center mb-8">
+      <h1 className="text-2xl text-center mb-4">
         Play puzzles since August 25, 2025
       </h1>
 
+      {/* Word length filter (shared with Settings, see lib/wordLength.ts) */}
+      <div className="flex justify-center mb-8">
+        <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden">
+          {[null, ...WORD_LENGTHS].map(length => (
+            <button
+              key={length ?? 'mixed'}
+              onClick={() => handleWordLength(length)}
+              className={`px-3 py-1 text-sm font-medium transition-colors ${
+                wordLength === length ? 'bg-green-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {length ? `${length} letters` : 'All'}
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Calendar Navigation */}
       <div className="flex items-center justify-center gap-4 mb-8">
         {/* Prev button */}
@@ -300,10 +329,7 @@ export default function ArchivePage() {
         {/* Next button */}
         <button
           onClick={() => navigateMonth('next')}
-          disabled={
-            currentMonth.getMonth() === new Date().getMonth() &&
-            currentMonth.getFullYear() === new Date().getFullYear()
-          }
+          disabled={localDateISO(currentMonth).slice(0, 7) >= todayISO().slice(0, 7)}
           className="w-10 h-10 rounded-full bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center pr-2"
         >
           <ChevronRight className="w-5 h-5" />
@@ -312,40 +338,30 @@ export default function ArchivePage() {
 
       {/* Calendar Grid */}
       <div className="max-w-md mx-auto mb-8">
-        <div className="grid grid-cols-7 gap-1 mb-2">
-          {['S', 'M', 'T', 'W', 'T', 'F', 'S'].map((day, index) => (
-            <div key={`day-label-${index}`} className="w-10 h-10 flex items-center justify-center text-sm font-medium text-gray-500">
-              {day}
-            </div>
-          ))}
-        </div>
-        {/* Horizontal line under the days row */}
-        <div className="border-b border-gray-300 mb-2"></div>
-        
-        <div className="grid grid-cols-7 gap-1">
-          {generateCalendarDays(currentMonth).map((day, index) => (
+        <CalendarGrid
+          month={currentMonth}
+          renderDay={(day) => (
             <button
-              key={`${currentMonth.getFullYear()}-${currentMonth.getMonth()}-${day?.getDate() || index}`}
-              onClick={() => day && handleDateSelect(day)}
-              disabled={!day || !isDateSelectable(day)}
+              onClick={() => handleDateSelect(day)}
+              disabled={!isDateSelectable(day)}
               className={`
                 w-10 h-10 rounded-lg text-base font-medium transition-colors relative
-                ${day && isDateSelectable(day) 
+                ${isDateSelectable(day) 
                   ? 'hover:bg-gray-200 cursor-pointer' 
                   : 'text-gray-300 cursor-not-allowed'
                 }
-                ${day && selectedDate && formatDateKey(day) === formatDateKey(selectedDate) 
+                ${selectedDate && formatDateKey(day) === formatDateKey(selectedDate) 
                   ? 'bg-green-600 text-white hover:bg-green-600' 
                   : 'text-gray-800'
                 }
-                ${day && formatDateKey(day) === getESTDateString() && !selectedDate 
+                ${formatDateKey(day) === todayISO() && !selectedDate 
                   ? 'ring-2 ring-green-300' 
                   : ''
                 }
               `}
             >
               {/* Puzzle status indicator box above date - only show for selectable dates after 8/25/2025 */}
-              {day && isDateSelectable(day) && (
+              {isDateSelectable(day) && (
                 <>
                   {isClient ? (
                     <div className={`
@@ -358,26 +374,39 @@ export default function ArchivePage() {
                   )}
                 </>
               )}
-              {day?.getDate()}
+              {day.getDate()}
+              {isDateSelectable(day) && dayPuzzle(day) && (
+                <span
+                  className="absolute bottom-0.5 left-1/2 -translate-x-1/2 flex gap-0.5"
+                  title={`${dayPuzzle(day)!.len} letters, ${DIFFICULTY_LABELS[dayPuzzle(day)!.level]}`}
+                >
+                  {Array.from({ length: DIFFICULTY_DOTS[dayPuzzle(day)!.level] }, (_, i) => (
+                    <span key={i} className="w-1 h-1 rounded-full bg-current opacity-60" />
+                  ))}
+                </span>
+              )}
             </button>
-          ))}
-        </div>
+          )}
+        />
       </div>
 
       {/* Verseword Puzzle Selection */}
       {selectedDate && isDateSelectable(selectedDate) && (
         <div className="text-center">
           <Link
-            href={`/?date=${formatDateKey(selectedDate)}&archive=true`}
+            href={`/?date=${formatDateKey(selectedDate)}&archive=true${dayPuzzle(selectedDate) ? `&length=${dayPuzzle(selectedDate)!.len}` : ''}`}
             className="inline-block px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
           >
             Verseword #{(() => {
               // Calculate puzzle number (starting from 8/25/25 as puzzle #1)
-              const startDate = new Date('2025-08-25');
-              const daysDiff = Math.floor((selectedDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-              return daysDiff + 1;
+              return puzzleNumberFor(formatDateKey(selectedDate));
             })()}
           </Link>
+          {dayPuzzle(selectedDate) && (
+            <p className="mt-2 text-sm text-gray-500">
+              {dayPuzzle(selectedDate)!.len} letters · Difficulty: {DIFFICULTY_LABELS[dayPuzzle(selectedDate)!.level]}
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { ArrowLeft, ChevronLeft, ChevronRight, Search } from "lucide-react";
+import { loadEastonEntry, searchEaston } from "../lib/easton";
+import { normalizeReference } from "../lib/scriptureRef";
+import { parseDateISO } from "../lib/timezone";
+import { EastonEntry, EastonSearchResult, EastonSegment } from "../lib/types";
+
+const SEARCH_DELAY_MS = 250;
+
+function formatPuzzleDate(dateISO: string): string {
+  return parseDateISO(dateISO).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+}
+
+export default function DictionaryPage() {
+  const router = useRouter();
+  const query = typeof router.query.q === "string" ? router.query.q : "";
+  const page = Math.max(1, Number(router.query.page) || 1);
+  const term = typeof router.query.term === "string" ? router.query.term : "";
+
+  const [input, setInput] = useState("");
+  const [results, setResults] = useState<EastonSearchResult | null>(null);
+  const [entry, setEntry] = useState<EastonEntry | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const typedQuery = useRef<string | null>(null);
+
+  // Keep the box in sync when the URL changes (back button, shared links),
+  // but not when the change came from typing - that would drop newer keystrokes
+  useEffect(() => {
+    if (router.isReady && query !== typedQuery.current) setInput(query);
+  }, [router.isReady, query]);
+
+  // Search as the player types; the URL holds the query so results can be shared
+  useEffect(() => {
+    if (!router.isReady || input === query) return;
+    const timer = setTimeout(() => {
+      typedQuery.current = input;
+      router.replace({ pathname: "/dictionary", query: input ? { q: input } : {} }, undefined, { shallow: true });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [input, query, router]);
+
+  useEffect(() => {
+    if (!router.isReady || term) return;
+
+    let alive = true;
+    setIsLoading(true);
+    setError(null);
+    searchEaston(query, page)
+      .then(data => { if (alive) setResults(data); })
+      .catch(err => {
+        console.error("Error searching the dictionary:", err);
+        if (alive) setError("Failed to search the dictionary.");
+      })
+      .finally(() => { if (alive) setIsLoading(false); });
+    return () => { alive = false; };
+  }, [router.isReady, query, page, term]);
+
+  useEffect(() => {
+    if (!term) {
+      setEntry(null);
+      return;
+    }
+
+    let alive = true;
+    setIsLoading(true);
+    setError(null);
+    loadEastonEntry(term)
+      .then(data => {
+        if (!alive) return;
+        setEntry(data);
+        if (!data) setError("That term isn't in Easton's Bible Dictionary.");
+      })
+      .catch(err => {
+        console.error("Error loading dictionary entry:", err);
+        if (alive) setError("Failed to load the dictionary entry.");
+      })
+      .finally(() => { if (alive) setIsLoading(false); });
+    return () => { alive = false; };
+  }, [term]);
+
+  // Links keep the current search so "Back to results" returns to it
+  const entryHref = (slug: string) => ({ pathname: "/dictionary", query: query ? { q: query, term: slug } : { term: slug } });
+  const resultsHref = (toPage: number) => {
+    const params: Record<string, string> = {};
+    if (query) params.q = query;
+    if (toPage > 1) params.page = String(toPage);
+    return { pathname: "/dictionary", query: params };
+  };
+
+  const renderSegment = (segment: EastonSegment, index: number) => {
+    if (segment.term) {
+      return (
+        <Link key={index} href={entryHref(segment.term)} className="text-blue-700 hover:underline">
+          {segment.text}
+        </Link>
+      );
+    }
+    if (segment.ref) {
+      const reference = normalizeReference(segment.ref) ?? segment.ref;
+      return (
+        <a
+          key={index}
+          href={`https://www.biblegateway.com/passage/?search=${encodeURIComponent(reference)}&version=KJV`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-gray-900 underline decoration-gray-300 hover:decoration-gray-900"
+          title={`View ${reference} on Bible Gateway`}
+        >
+          {segment.text}
+        </a>
+      );
+    }
+    return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+  };
+
+  const totalPages = results ? Math.max(1, Math.ceil(results.total / results.pageSize)) : 1;
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 md:px-0 pt-4 pb-8">
+      <h1 className="text-2xl text-center mb-2">Easton&apos;s Bible Dictionary</h1>
+      <p className="text-center text-gray-500 mb-6">
+        Search thousands of Bible names, places and words
+      </p>
+
+      {/* Search */}
+      <div className="relative mb-6">
+        <Search className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+        <input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Search terms or definitions, e.g. Abel or burning bush"
+          aria-label="Search the dictionary"
+          className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg bg-white focus:border-gray-500 focus:ring-2 focus:ring-gray-500 focus:ring-opacity-50 focus:outline-none"
+        />
+      </div>
+
+      {error && <p className="text-center text-gray-600 mb-6">{error}</p>}
+
+      {isLoading && !entry && !results && (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+        </div>
+      )}
+
+      {/* Entry */}
+      {term && entry && (
+        <div>
+          <Link
+            href={resultsHref(1)}
+            className="inline-flex items-center gap-2 pr-2 py-2 mb-4 text-gray-500 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {query ? "Back to results" : "All terms"}
+          </Link>
+
+          <h2 className="text-4xl mb-6">{entry.term}</h2>
+
+          <div className="space-y-4 mb-8">
+            {entry.definitions.map((segments, index) => (
+              <p key={index} className="text-gray-700 leading-relaxed text-base">
+                {segments.map(renderSegment)}
+              </p>
+            ))}
+          </div>
+
+          {entry.puzzles.length > 0 && (
+            <div>
+              <h3 className="text-xl text-gray-900 mb-4">Verseword Puzzles</h3>
+              <div className="flex flex-wrap gap-3">
+                {entry.puzzles.map(puzzle => (
+                  <Link
+                    key={puzzle.date}
+                    href={`/p/${puzzle.puzzleNumber}`}
+                    className="px-4 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700 hover:bg-gray-100 hover:border-gray-300 transition-colors"
+                  >
+                    #{puzzle.puzzleNumber} · {formatPuzzleDate(puzzle.date)}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Results */}
+      {!term && results && (
+        <div>
+          <p className="text-sm text-gray-500 mb-3">
+            {results.query
+              ? `${results.total} ${results.total === 1 ? "entry" : "entries"} for "${results.query}"`
+              : `${results.total} entries`}
+          </p>
+
+          <ul className="divide-y divide-gray-100 border-y border-gray-100">
+            {results.results.map(result => (
+              <li key={result.slug}>
+                <Link href={entryHref(result.slug)} className="block py-3 hover:bg-gray-50 transition-colors">
+                  <span className="block font-medium text-gray-900">{result.term}</span>
+                  <span className="block text-sm text-gray-600 line-clamp-2">{result.preview}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-6">
+              <Link
+                href={resultsHref(results.page - 1)}
+                aria-disabled={results.page <= 1}
+                className={`w-10 h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center ${results.page <= 1 ? "opacity-50 pointer-events-none" : ""}`}
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </Link>
+              <span className="text-gray-600">
+                Page {results.page} of {totalPages}
+              </span>
+              <Link
+                href={resultsHref(results.page + 1)}
+                aria-disabled={results.page >= totalPages}
+                className={`w-10 h-10 rounded-full bg-gray-100 hover:bg-gray-200 flex items-center justify-center ${results.page >= totalPages ? "opacity-50 pointer-events-none" : ""}`}
+              >
+                <ChevronRight className="w-5 h-5" />
+              </Link>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+DictionaryPage.title = "Dictionary";  // header shows "Verseword · Dictionary"
+DictionaryPage.narrow = true;
@@ -0,0 +1,213 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import RowHistory from "../components/RowHistory";
+import Keyboard from "../components/Keyboard";
+import { loadDictionary } from "../lib/gameLogic";
+import {
+  MultiBoardState,
+  checkMultiBoardGuess,
+  keyboardLetterStates,
+  reduceMultiBoard,
+} from "../lib/engine";
+import { loadGospelsGame, loadGospelsPuzzle, loadGospelsToken, saveGospelsGame, submitGospelsGuess } from "../lib/gospels";
+import { addDays, parseDateISO, todayISO } from "../lib/timezone";
+import { GospelsPuzzle } from "../lib/types";
+
+const GRID_COLS: Record<number, string> = { 5: "grid-cols-5", 6: "grid-cols-6", 7: "grid-cols-7" };
+
+// The next Saturday on or after a date, for the weekday message
+const nextSaturday = (dateISO: string) => {
+  let date = dateISO;
+  while (new Date(`${date}T00:00:00Z`).getUTCDay() !== 6) date = addDays(date, 1);
+  return date;
+};
+
+const formatDate = (dateISO: string) =>
+  parseDateISO(dateISO).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+
+// The shared guess being typed, shown under each board still in play
+function GuessTiles({ letters }: { letters: string[] }) {
+  return (
+    <div className="flex justify-center">
+      <div className={`grid gap-1 ${GRID_COLS[letters.length]}`}>
+        {letters.map((letter, i) => (
+          <div
+            key={i}
+            className="w-12 h-12 lg:w-14 lg:h-14 rounded-lg border-2 border-gray-300 flex items-center justify-center font-semibold uppercase text-lg lg:text-xl"
+          >
+            {letter}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function GospelsPage() {
+  const [puzzle, setPuzzle] = useState<GospelsPuzzle | null>(null);
+  const [state, setState] = useState<MultiBoardState | null>(null);
+  const [dictionary, setDictionary] = useState<Set<string>>(new Set());
+  const [today, setToday] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const gameTokenRef = useRef("");
+
+  useEffect(() => {
+    // Load on the client: today depends on the player's rollover setting
+    const date = todayISO();
+    setToday(date);
+    loadGospelsPuzzle(date)
+      .then(async (loaded) => {
+        if (!loaded) return;
+        setDictionary(await loadDictionary(loaded.len));
+        setPuzzle(loaded);
+        setState(loadGospelsGame(loaded));
+        gameTokenRef.current = loadGospelsToken(loaded);
+      })
+      .catch((error) => {
+        console.error("Error loading Gospels puzzle:", error);
+        setMessage("Could not load this weekend's puzzle. Try again later.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const showMessage = useCallback((text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(null), 2000);
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!puzzle || !state || isSubmitting) return;
+    if (state.gameStatus === "won" || state.gameStatus === "lost") return;
+
+    const error = checkMultiBoardGuess(state, dictionary);
+    if (error) {
+      showMessage(error.message);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await submitGospelsGuess(puzzle.date, state.currentGuess.join(""), gameTokenRef.current);
+      gameTokenRef.current = result.gameToken;
+      const next = reduceMultiBoard(state, {
+        type: "SUBMIT",
+        dictionary,
+        evaluations: result.evaluations,
+        solutions: result.solutions,
+      });
+      setState(next);
+      saveGospelsGame(puzzle, next, result.gameToken);
+    } catch (err) {
+      console.error("Error checking guess:", err);
+      showMessage("Could not check your guess. Try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [puzzle, state, dictionary, isSubmitting, showMessage]);
+
+  const handleKey = useCallback((letter: string) => {
+    setState((prev) => (prev ? reduceMultiBoard(prev, { type: "TYPE_LETTER", letter }) : prev));
+  }, []);
+
+  const handleBackspace = useCallback(() => {
+    setState((prev) => (prev ? reduceMultiBoard(prev, { type: "DELETE_LETTER" }) : prev));
+  }, []);
+
+  // Physical keyboard
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === "Enter") handleSubmit();
+      else if (e.key === "Backspace") handleBackspace();
+      else if (/^[a-zA-Z]$/.test(e.key)) handleKey(e.key);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleSubmit, handleBackspace, handleKey]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-lg text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!puzzle || !state) {
+    return (
+      <div className="max-w-md mx-auto pt-8 text-center space-y-4">
+        <h1 className="text-2xl">Gospels</h1>
+        <p className="text-gray-600">
+          {message ?? `Four words at once, every weekend. The next set opens ${formatDate(nextSaturday(today))}.`}
+        </p>
+        <Link href="/" className="inline-block text-blue-600 hover:underline">
+          Back to today&apos;s puzzle
+        </Link>
+      </div>
+    );
+  }
+
+  const isOver = state.gameStatus === "won" || state.gameStatus === "lost";
+  const guessesUsed = Math.max(...state.boards.map((b) => b.attemptIndex));
+  const solvedCount = state.boards.filter((b) => b.gameStatus === "won").length;
+
+  return (
+    <div className="max-w-4xl mx-auto pt-4 pb-8">
+      <h1 className="text-2xl text-center">Gospels: {puzzle.name}</h1>
+      <p className="text-center text-sm text-gray-500 mb-4">
+        {isOver
+          ? state.gameStatus === "won"
+            ? `All four solved in ${guessesUsed} guesses`
+            : `${solvedCount} of 4 solved`
+          : `${solvedCount} of 4 solved · ${state.maxGuesses - guessesUsed} guesses left`}
+      </p>
+
+      {message && <div className="text-center text-sm text-yellow-700 mb-4">{message}</div>}
+
+      {/* Boards in the same order as the keyboard quadrants */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {state.boards.map((board, i) => (
+          <div
+            key={i}
+            className={`p-3 rounded-lg border ${board.gameStatus === "won" ? "border-green-600" : "border-gray-200"} space-y-1`}
+          >
+            <div className="text-xs text-gray-500 text-center mb-1">
+              {board.gameStatus === "won"
+                ? `Board ${i + 1} · solved in ${board.attemptIndex}`
+                : board.gameStatus === "lost"
+                  ? `Board ${i + 1} · ${board.secretWord}`
+                  : `Board ${i + 1}`}
+            </div>
+            {board.attempts.map((guess, row) => (
+              <RowHistory
+                key={row}
+                guess={guess}
+                evaluation={board.evaluations[row]}
+                wordLength={puzzle.len}
+                isWinningRow={board.gameStatus === "won" && row === board.attempts.length - 1}
+              />
+            ))}
+            {!isOver && board.gameStatus !== "won" && <GuessTiles letters={state.currentGuess} />}
+          </div>
+        ))}
+      </div>
+
+      {!isOver && (
+        <Keyboard
+          onKeyPress={handleKey}
+          onEnter={handleSubmit}
+          onBackspace={handleBackspace}
+          letterStates={{}}
+          boardLetterStates={state.boards.map((board) => (board.gameStatus === "won" ? {} : keyboardLetterStates(board)))}
+        />
+      )}
+    </div>
+  );
+}
+
+GospelsPage.title = "Gospels";  // header shows "Verseword · Gospels"
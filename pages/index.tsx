@@ -1,30 +1,26 @@
 'use client';
 import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
 import Game from '@/components/Game';
 import SplashScreen from '@/components/SplashScreen';
 
 type View = 'loading' | 'game' | 'splash';
 
 export default function Home() {
+  const router = useRouter();
   const [view, setView] = useState<View>('loading');
 
   useEffect(() => {
-    // Decide what to show based on localStorage
-    try {
-      const raw = localStorage.getItem('verseword:puzzles:v2'); // update key if yours differs
-      const store = raw ? JSON.parse(raw) : {};
-      const todayId = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
-      const today = store[todayId];
+    if (!router.isReady) return;
 
-      if (today && (today.gameStatus === 'playing' || today.gameStatus === 'not_started' || today.attempts?.length > 0)) {
-        setView('game');
-      } else {
-        setView('splash');
-      }
-    } catch {
+    // Practice, an archive day, or one of today's puzzles picked on the splash
+    // screen; otherwise the splash screen shows a card for each of today's puzzles
+    if (router.query.practice === 'true' || router.query.archive === 'true' || router.query.length) {
+      setView('game');
+    } else {
       setView('splash');
     }
-  }, []);
+  }, [router.isReady, router.query.practice, router.query.archive, router.query.length]);
 
   if (view === 'loading') {
     // This prevents flashing the game before decision is made
@@ -35,15 +31,13 @@ export default function Home() {
     <Game />
   ) : (
     <SplashScreen
-      onStartGame={() => {
-        const todayId = new Date().toISOString().slice(0, 10);
-        const raw = localStorage.getItem('verseword:puzzles:v2');
-        const store = raw ? JSON.parse(raw) : {};
-        if (!store[todayId]) {
-          store[todayId] = { attempts: [], gameStatus: 'not_started', won: false };
-          localStorage.setItem('verseword:puzzles:v2', JSON.stringify(store));
+      onStartGame={(length) => {
+        if (length) {
+          router.push(`/?length=${length}`);
+        } else {
+          // Game saves today's puzzle under its real id once it loads
+          setView('game'); // single click → straight into Game
         }
-        setView('game'); // single click → straight into Game
       }}
       onOpenSettings={() => {}}
     />
@@ -0,0 +1,31 @@
+import type { GetServerSideProps } from 'next';
+import { findPuzzle } from '../../lib/puzzleData';
+import { dateForPuzzleNumber, isValidPuzzleNumber, puzzleNumberFor } from '../../lib/puzzleNumber';
+import { latestReleasedDateISO } from '../../lib/timezone';
+
+// Short links to a numbered puzzle: /p/42 -> the archive puzzle for that day
+export const getServerSideProps: GetServerSideProps = async ({ params }) => {
+  const value = String(params?.number ?? '');
+  const puzzleNumber = /^\d+$/.test(value) ? Number(value) : NaN;
+  // Check the number against the latest released one before turning it into
+  // a date: a huge number is past any date addDays can represent
+  if (!isValidPuzzleNumber(puzzleNumber) || puzzleNumber > puzzleNumberFor(latestReleasedDateISO())) {
+    return { notFound: true };
+  }
+
+  const date = dateForPuzzleNumber(puzzleNumber);
+  if (!findPuzzle(date)) {
+    return { notFound: true };
+  }
+
+  return {
+    redirect: {
+      destination: `/?date=${date}&archive=true`,
+      permanent: false,
+    },
+  };
+};
+
+export default function PuzzleNumberRedirect() {
+  return null;
+}
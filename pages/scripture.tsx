@@ -1,204 +1,24 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import { ArrowLeft, Share2, Check, X } from 'lucide-react';
-import { loadStats, StatsSnapshot, GameResult } from '../lib/stats';
+import { loadStats, hardModeMarker, StatsSnapshot, GameResult } from '../lib/stats';
 import { loadAll } from '../lib/storage';
-import { evaluateGuess } from '../lib/gameLogic';
-
-// Canonical 66-book order (Protestant)
-const BOOKS_CANONICAL_ORDER: string[] = [
-  'Genesis', 'Exodus', 'Leviticus', 'Numbers', 'Deuteronomy',
-  'Joshua', 'Judges', 'Ruth', '1 Samuel', '2 Samuel',
-  '1 Kings', '2 Kings', '1 Chronicles', '2 Chronicles', 'Ezra',
-  'Nehemiah', 'Esther', 'Job', 'Psalms', 'Proverbs',
-  'Ecclesiastes', 'Song of Solomon', 'Isaiah', 'Jeremiah', 'Lamentations',
-  'Ezekiel', 'Daniel', 'Hosea', 'Joel', 'Amos',
-  'Obadiah', 'Jonah', 'Micah', 'Nahum', 'Habakkuk',
-  'Zephaniah', 'Haggai', 'Zechariah', 'Malachi',
-  'Matthew', 'Mark', 'Luke', 'John', 'Acts',
-  'Romans', '1 Corinthians', '2 Corinthians', 'Galatians', 'Ephesians',
-  'Philippians', 'Colossians', '1 Thessalonians', '2 Thessalonians', '1 Timothy',
-  '2 Timothy', 'Titus', 'Philemon', 'Hebrews', 'James',
-  '1 Peter', '2 Peter', '1 John', '2 John', '3 John',
-  'Jude', 'Revelation'
-];
-
-const BOOK_INDEX: Record<string, number> = BOOKS_CANONICAL_ORDER
-  .reduce((acc, name, idx) => { acc[name.toLowerCase()] = idx; return acc; }, {} as Record<string, number>);
-
-// Common aliases -> canonical names
-const BOOK_ALIASES: Record<string, string> = {
-  // Psalms + Song
-  'ps': 'Psalms',
-  'psa': 'Psalms',
-  'psalm': 'Psalms',
-  'psalms': 'Psalms',
-  'song of songs': 'Song of Solomon',
-  'song of solomon': 'Song of Solomon',
-  'canticles': 'Song of Solomon',
-  // Gospels and common abbrev
-  'mt': 'Matthew',
-  'matt': 'Matthew',
-  'mk': 'Mark',
-  'mrk': 'Mark',
-  'lk': 'Luke',
-  'jn': 'John',
-  'jhn': 'John',
-  // OT common abbrev
-  'gen': 'Genesis',
-  'ex': 'Exodus',
-  'exod': 'Exodus',
-  'lev': 'Leviticus',
-  'num': 'Numbers',
-  'deut': 'Deuteronomy',
-  'jos': 'Joshua',
-  'josh': 'Joshua',
-  'judg': 'Judges',
-  '1sam': '1 Samuel',
-  '2sam': '2 Samuel',
-  'samuel': 'Samuel',
-  '1kgs': '1 Kings',
-  '2kgs': '2 Kings',
-  'kgs': 'Kings',
-  '1chron': '1 Chronicles',
-  '2chron': '2 Chronicles',
-  'chronicles': 'Chronicles',
-  'neh': 'Nehemiah',
-  'esth': 'Esther',
-  'prov': 'Proverbs',
-  'eccl': 'Ecclesiastes',
-  'ecc': 'Ecclesiastes',
-  'isa': 'Isaiah',
-  'jer': 'Jeremiah',
-  'lam': 'Lamentations',
-  'ezek': 'Ezekiel',
-  'dan': 'Daniel',
-  'hos': 'Hosea',
-  'obad': 'Obadiah',
-  'jon': 'Jonah',
-  'mic': 'Micah',
-  'nah': 'Nahum',
-  'hab': 'Habakkuk',
-  'zeph': 'Zephaniah',
-  'hag': 'Haggai',
-  'zech': 'Zechariah',
-  'mal': 'Malachi',
-  // Epistles common abbrev
-  'rom': 'Romans',
-  'cor': 'Corinthians',
-  'gal': 'Galatians',
-  'eph': 'Ephesians',
-  'phil': 'Philippians',
-  'php': 'Philippians',
-  'col': 'Colossians',
-  'thess': 'Thessalonians',
-  'tim': 'Timothy',
-  'tit': 'Titus',
-  'philem': 'Philemon',
-  'phlm': 'Philemon',
-  'heb': 'Hebrews',
-  'jas': 'James',
-  'jms': 'James',
-  'pet': 'Peter',
-  'rev': 'Revelation',
-};
-
-function normalizeWhitespace(text: string): string {
-  return text.replace(/\s+/g, ' ').trim();
-}
-
-function normalizeBookName(rawBook: string): string {
-  // Remove periods and collapse whitespace
-  const noDots = rawBook.replace(/\./g, '');
-  let base = normalizeWhitespace(noDots);
-
-  // Strip leading prefixes like "Comp", "Cf", "Compare", "See"
-  base = base.replace(/^(?:comp|cf|compare|see)\s+/i, '');
-
-  // Lowercase forms for mapping
-  const lower = base.toLowerCase();
-  const ordinalNormalized = lower.replace(/\b(1st|2nd|3rd)\b/g, m => ({ '1st': '1', '2nd': '2', '3rd': '3' }[m] as string));
-
-  // Direct alias mapping
-  if (BOOK_ALIASES[ordinalNormalized]) return BOOK_ALIASES[ordinalNormalized];
-  if (BOOK_ALIASES[lower]) return BOOK_ALIASES[lower];
-
-  // Handle numeric prefix + abbreviation (e.g., "1 Sam", "2 Kgs", "1 Thess")
-  const numMatch = base.match(/^([123])\s+(.*)$/);
-  if (numMatch) {
-    const n = numMatch[1];
-    const rest = normalizeWhitespace(numMatch[2]);
-    const restLower = rest.toLowerCase();
-    const aliased = BOOK_ALIASES[restLower] || BOOK_ALIASES[restLower.replace(/\s+/g, '')];
-    if (aliased) return `${n} ${aliased}`;
-  }
-
-  // Title-case words, preserving leading number where present
-  const parts = base.split(' ');
-  const titleCased = parts.map((part, i) => {
-    if (i === 0 && /^[123]$/.test(part)) return part; // keep numeric prefix
-    if (['of', 'the', 'and'].includes(part.toLowerCase())) return part.toLowerCase();
-    return part.charAt(0).toUpperCase() + part.slice(1).toLowerCase();
-  }).join(' ');
-
-  return titleCased;
-}
-
-interface ParsedReferenceKey {
-  original: string;
-  book: string | null;
-  bookIndex: number;
-  chapter: number;
-  verse: number;
-  originalIndex: number;
-}
-
-function parseReferenceToKey(ref: string, originalIndex: number): ParsedReferenceKey {
-  const trimmed = ref.trim();
-  // Match: <book> <chapter>[:<verse>][...optional trailing range/list]
-  const match = trimmed.match(/^(.+?)\s+(\d+)(?::(\d+))?(?:[\-–,].*)?$/);
-  if (!match) {
-    return { original: ref, book: null, bookIndex: Number.MAX_SAFE_INTEGER, chapter: Number.MAX_SAFE_INTEGER, verse: Number.MAX_SAFE_INTEGER, originalIndex };
-  }
-
-  const rawBook = match[1];
-  const book = normalizeBookName(rawBook);
-  const chapter = parseInt(match[2], 10) || 0;
-  const verse = match[3] ? (parseInt(match[3], 10) || 0) : 0;
-
-  const indexKey = BOOK_INDEX[book.toLowerCase()];
-  const bookIndex = typeof indexKey === 'number' ? indexKey : Number.MAX_SAFE_INTEGER - 1; // unknown books go near end
-
-  return { original: ref, book, bookIndex, chapter, verse, originalIndex };
-}
+import { puzzleNumberFor } from '../lib/puzzleNumber';
+import { compareReferences, normalizeReference } from '../lib/scriptureRef';
+import { loadPassages } from '../lib/verse';
+import { PassageText, WordDefinition } from '../lib/types';
 
+// Canonical book/chapter/verse order; ties and unparseable refs keep their order
 function sortReferences(refs: string[]): string[] {
-  const keyed: ParsedReferenceKey[] = refs.map((r, idx) => parseReferenceToKey(r, idx));
-  keyed.sort((a, b) => {
-    if (a.bookIndex !== b.bookIndex) return a.bookIndex - b.bookIndex;
-    if (a.chapter !== b.chapter) return a.chapter - b.chapter;
-    if (a.verse !== b.verse) return a.verse - b.verse;
-    return a.originalIndex - b.originalIndex; // stable for ties/unknowns
-  });
-  return keyed.map(k => k.original);
+  return refs
+    .map((ref, index) => ({ ref, index }))
+    .sort((a, b) => compareReferences(a.ref, b.ref) || a.index - b.index)
+    .map(({ ref }) => ref);
 }
 
+// "comp. Heb. 12:2" -> "Hebrews 12:2"; left as written if it doesn't parse
 function cleanReference(ref: string): string {
-  const trimmed = ref.trim().replace(/\s+/g, ' ');
-  // Strip helper prefixes like "Comp.", "Cf.", etc. and their dot variants
-  const withoutPrefix = trimmed.replace(/^(?:Comp\.?|Cf\.?|Compare|See)\s+/i, '');
-  const match = withoutPrefix.match(/^(.+?)\s+(\d+)(?::(\d+))?(?:[\-–,].*)?$/);
-  if (!match) return withoutPrefix;
-  const book = normalizeBookName(match[1]);
-  const chapter = match[2];
-  const verse = match[3] ? `:${match[3]}` : '';
-  return `${book} ${chapter}${verse}`;
-}
-
-interface WordDefinition {
-  partOfSpeech: string;
-  definitions: string[];
-  examples: string[];
+  return normalizeReference(ref) ?? ref.trim().replace(/\s+/g, ' ').replace(/^(?:Comp\.?|Cf\.?|Compare|See)\s+/i, '');
 }
 
 interface ScripturePageProps {
@@ -213,6 +33,7 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
   const [wordData, setWordData] = useState<{ word: string; definitions: WordDefinition[] } | null>(null);
   const [stats, setStats] = useState<StatsSnapshot | null>(null);
   const [showToast, setShowToast] = useState(false);
+  const [passages, setPassages] = useState<Record<string, PassageText>>({});
 
   useEffect(() => {
     // If no word provided via props, get it from query params
@@ -227,6 +48,20 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
     setStats(loadStats());
   }, [router.query.word, word, definitions]);
 
+  // Fetch the KJV text for every cited reference in one request
+  useEffect(() => {
+    const refs = Array.from(new Set((wordData?.definitions ?? []).reduce<string[]>(
+      (all, definition) => all.concat(definition.examples ?? []), []
+    )));
+    if (refs.length === 0) return;
+
+    let alive = true;
+    loadPassages(refs)
+      .then(byRef => { if (alive) setPassages(byRef); })
+      .catch(err => console.error('Error loading verse text:', err));
+    return () => { alive = false; };
+  }, [wordData]);
+
   const fetchWordDefinitions = async (searchWord: string) => {
     setIsLoading(true);
     setError(null);
@@ -257,15 +92,6 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
     router.back();
   };
 
-  // Calculate puzzle number based on days since start date
-  const getPuzzleNumber = (dateISO: string): number => {
-    const startDate = new Date('2025-08-25'); // Puzzle start date
-    const puzzleDate = new Date(dateISO);
-    const diffTime = puzzleDate.getTime() - startDate.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-    return diffDays + 1; // Start from puzzle #1
-  };
-
   // Get puzzle number from localStorage for the actual solved puzzle
   const getCurrentPuzzleNumber = () => {
     if (!wordData?.word) return null;
@@ -279,8 +105,8 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
         // Find the puzzle that contains this word
         for (const puzzleId of puzzleIds) {
           const puzzle = puzzlesData[puzzleId];
-          if (puzzle.secretWord === wordData.word) {
-            return getPuzzleNumber(puzzleId.split(':')[0]);
+          if (puzzle.solution === wordData.word) {
+            return puzzleNumberFor(puzzleId.split(':')[0]);
           }
         }
       }
@@ -300,7 +126,7 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
     
     // Find the most recent result for this puzzle
     const currentResult = stats.results.find(result => 
-      getPuzzleNumber(result.dateISO) === currentPuzzleNumber && 
+      puzzleNumberFor(result.dateISO) === currentPuzzleNumber && 
       result.solution === wordData.word
     );
     
@@ -317,7 +143,7 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
       // Find the most recent completed puzzle for this word
       let latest: any = null;
       for (const state of Object.values(allPuzzles)) {
-        if (state && state.secretWord === wordData.word && (state.gameStatus === 'won' || state.gameStatus === 'lost')) {
+        if (state && state.solution === wordData.word && (state.gameStatus === 'won' || state.gameStatus === 'lost')) {
           if (!latest || state.dateISO > latest.dateISO) {
             latest = state;
           }
@@ -326,10 +152,10 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
 
       if (!latest || latest.gameStatus !== 'won') return; // share only for wins
 
-      const puzzleNumber = getPuzzleNumber(latest.dateISO);
+      const puzzleNumber = puzzleNumberFor(latest.dateISO);
       const guessesUsed = (typeof latest.attemptIndex === 'number' ? latest.attemptIndex + 1 : latest.attempts.length);
 
-      let emojiGrid = `Verseword #${puzzleNumber} ${guessesUsed}/6\nhttps://verseword.com\n`;
+      let emojiGrid = `Verseword #${puzzleNumber} ${guessesUsed}/6${hardModeMarker(latest)}\nhttps://verseword.com\n`;
 
       const mapping: Record<string, string> = {
         correct: '🟩',
@@ -338,7 +164,7 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
       };
 
       latest.attempts.forEach((attempt: string, attemptIndex: number) => {
-        const states = evaluateGuess(attempt, latest.secretWord);
+        const states: string[] = latest.evaluations?.[attemptIndex] || [];
         const row = states.map(s => mapping[s]).join('');
         if (attemptIndex < latest.attempts.length - 1) {
           emojiGrid += row + '\n';
@@ -493,7 +319,7 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
                         )}
                       </div>
                       <span className="whitespace-normal sm:whitespace-normal md:whitespace-nowrap">
-                        <span className="hidden sm:inline">Verseword </span>#{getPuzzleNumber(result.dateISO)} • {result.solution || 'Unknown'} • {result.won ? 'Won:' : 'Lost:'} {result.won ? `${result.guesses}/6` : 'X/6'}
+                        <span className="hidden sm:inline">Verseword </span>#{puzzleNumberFor(result.dateISO)} • {result.solution || 'Unknown'} • {result.won ? 'Won:' : 'Lost:'} {result.won ? `${result.guesses}/6` : 'X/6'}{hardModeMarker(result)}
                       </span>
                     </React.Fragment>
                   ))}
@@ -576,6 +402,7 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
                     {sortReferences(definition.examples).map((rawVerse, verseIndex) => {
                       const verse = cleanReference(rawVerse);
+                      const verseTexts = passages[rawVerse]?.verses ?? [];
                       // Create Bible Gateway URL for the verse
                       const bibleGatewayUrl = `https://www.biblegateway.com/passage/?search=${encodeURIComponent(verse)}&version=NIV`;
                       
@@ -589,6 +416,13 @@ export default function ScripturePage({ word, definitions }: ScripturePageProps)
                           title={`View ${verse} on Bible Gateway`}
                         >
                           {verse}
+                          {verseTexts.length > 0 && (
+                            <span className="block mt-1 font-normal text-gray-600 leading-relaxed line-clamp-4">
+                              {verseTexts.length === 1
+                                ? verseTexts[0].text
+                                : verseTexts.map(v => `${v.reference.split(':').pop()} ${v.text}`).join(' ')}
+                            </span>
+                          )}
                         </a>
                       );
                     })}
@@ -8,6 +8,7 @@ const STATIC_ROUTES: string[] = [
   '/privacy',
   '/terms',
   '/contact',
+  '/dictionary',
 ];
 
 function buildBaseUrl(req: any): string {
@@ -1,27 +1,26 @@
 import React, { useState, useEffect } from "react";
 import { Share2 } from "lucide-react";
-import { loadStats, winRate, StatsSnapshot, GameResult } from "../lib/stats";
-import { loadAll, makeId, toDateISO } from "../lib/storage";
-
-// Calculate puzzle number based on days since start date
-function getPuzzleNumber(dateISO: string): number {
-  const startDate = new Date('2025-08-25'); // Puzzle start date
-  const puzzleDate = new Date(dateISO);
-  const diffTime = puzzleDate.getTime() - startDate.getTime();
-  const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-  return diffDays + 1; // Start from puzzle #1
-}
+import { loadStats, winRate, averageGuesses, hardModeMarker, StatsSnapshot, GameResult } from "../lib/stats";
+import { loadAll, makeId, PuzzleStateV2 } from "../lib/storage";
+import AnalysisPanel from "../components/AnalysisPanel";
+import { practiceStats, PracticeStats } from "../lib/practice";
+import { parseDateISO } from "../lib/timezone";
+import { WORD_LENGTHS } from "../lib/wordLength";
+import { puzzleNumberFor } from "../lib/puzzleNumber";
 
 export default function StatsPage() {
   const [stats, setStats] = useState<StatsSnapshot | null>(null);
+  const [practice, setPractice] = useState<PracticeStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showToast, setShowToast] = useState(false);
   const [selectedPuzzle, setSelectedPuzzle] = useState<GameResult | null>(null);
   const [showPuzzleSnapshot, setShowPuzzleSnapshot] = useState(false);
+  const [selectedState, setSelectedState] = useState<PuzzleStateV2 | null>(null);
 
   useEffect(() => {
     // Load stats on client side to avoid hydration errors
     setStats(loadStats());
+    setPractice(practiceStats());
     setIsLoading(false);
   }, []);
 
@@ -37,24 +36,19 @@ export default function StatsPage() {
   }
 
   const generateAndShareEmojiGrid = (stats: StatsSnapshot) => {
-    // Calculate puzzle number (starting from 8/25/25 as puzzle #1)
-    const startDate = new Date('2025-08-25');
-    const today = new Date();
-    const daysDiff = Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-    const puzzleNumber = daysDiff + 1;
-
     // Get the most recent result
     if (stats.results && stats.results.length > 0) {
       const latestResult = stats.results[stats.results.length - 1];
+      const puzzleNumber = puzzleNumberFor(latestResult.dateISO);
       
       if (latestResult.won) {
         // Try to get the actual game state from new storage system for accurate emoji grid
-        let emojiGrid = `Verseword #${puzzleNumber} ${latestResult.guesses}/6\nhttps://verseword.com\n`;
+        let emojiGrid = `Verseword #${puzzleNumber} ${latestResult.guesses}/6${hardModeMarker(latestResult)}\nhttps://verseword.com\n`;
         
         try {
           // Get the puzzle state from new storage using the completed date
           // We need to find which puzzle this result belongs to
-          const allPuzzles = loadAll();
+          const allPuzzles = loadAll('player');
           let puzzleState = null;
           
           // Look for a puzzle with matching attempts and word length
@@ -66,17 +60,15 @@ export default function StatsPage() {
             }
           }
           
-          if (puzzleState && puzzleState.attempts && puzzleState.secretWord) {
-            // Generate accurate emoji grid from actual game state
+          if (puzzleState && puzzleState.attempts && puzzleState.evaluations) {
+            // Generate accurate emoji grid from the stored evaluations
             puzzleState.attempts.forEach((attempt: string, attemptIndex: number) => {
               let row = '';
+              const evaluation = puzzleState.evaluations[attemptIndex] || [];
               for (let i = 0; i < attempt.length; i++) {
-                const letter = attempt[i];
-                const secretLetter = puzzleState.secretWord[i];
-                
-                if (letter === secretLetter) {
+                if (evaluation[i] === 'correct') {
                   row += '🟩'; // Correct position
-                } else if (puzzleState.secretWord.includes(letter)) {
+                } else if (evaluation[i] === 'present') {
                   row += '🟨'; // Correct letter, wrong position
                 } else {
                   row += '⬛'; // Letter not in word
@@ -141,17 +133,19 @@ export default function StatsPage() {
 
   const handlePuzzleClick = (result: GameResult) => {
     setSelectedPuzzle(result);
+    setSelectedState(getPuzzleState(result));
     setShowPuzzleSnapshot(true);
   };
 
   const closePuzzleSnapshot = () => {
     setShowPuzzleSnapshot(false);
     setSelectedPuzzle(null);
+    setSelectedState(null);
   };
 
   const getPuzzleState = (result: GameResult) => {
     try {
-      const allPuzzles = loadAll();
+      const allPuzzles = loadAll('player');
       // Look for a puzzle with matching date and word length
       for (const [puzzleId, state] of Object.entries(allPuzzles)) {
         if (state.dateISO === result.dateISO && state.wordLength === result.wordLength) {
@@ -224,6 +218,45 @@ export default function StatsPage() {
         </div>
       </div>
 
+      {/* By Word Length (daily and archive games, each length with its own streak; practice counted on its own) */}
+      {stats.byLength && (
+        <div className="bg-white p-4 rounded-lg border border-gray-200">
+          <h3 className="text-lg text-gray-900 mb-4">By Word Length</h3>
+          <table className="w-full text-sm text-gray-600">
+            <thead>
+              <tr className="text-left text-xs text-gray-500">
+                <th className="font-normal pb-2">Letters</th>
+                <th className="font-normal pb-2 text-right">Played</th>
+                <th className="font-normal pb-2 text-right">Win Rate</th>
+                <th className="font-normal pb-2 text-right">Avg Guesses</th>
+                <th className="font-normal pb-2 text-right">Streak (Max)</th>
+                <th className="font-normal pb-2 text-right">Practice</th>
+              </tr>
+            </thead>
+            <tbody>
+              {WORD_LENGTHS.map(length => {
+                const row = stats.byLength![length];
+                const practiceRow = practice?.byLength[length];
+                return (
+                  <tr key={length}>
+                    <td className="py-1 font-medium text-gray-800">{length}</td>
+                    <td className="py-1 text-right">{row.played}</td>
+                    <td className="py-1 text-right">{winRate(row)}%</td>
+                    <td className="py-1 text-right">{row.wins > 0 ? averageGuesses(row) : '-'}</td>
+                    <td className="py-1 text-right">
+                      {row.played > 0 ? `${row.currentStreak ?? 0} (${row.maxStreak ?? 0})` : '-'}
+                    </td>
+                    <td className="py-1 text-right">
+                      {practiceRow && practiceRow.played > 0 ? `${practiceRow.wins}/${practiceRow.played} won` : '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Recent Results */}
       <div className="bg-white p-4 rounded-lg border border-gray-200">
         <div className="flex items-center justify-between mb-4">
@@ -254,7 +287,7 @@ export default function StatsPage() {
                     {result.won ? '✓' : '✗'}
                   </div>
                   <div className="flex-1 text-sm text-gray-600">
-                    Puzzle #{getPuzzleNumber(result.dateISO)} • {new Date(result.dateISO).toLocaleDateString()} • <span className="font-mono text-gray-500">{result.solution || 'Unknown'}</span> • {result.won ? 'Won:' : 'Lost:'} {result.won ? `${result.guesses}/6` : 'X/6'}
+                    Puzzle #{puzzleNumberFor(result.dateISO)} • {parseDateISO(result.dateISO).toLocaleDateString()} • <span className="font-mono text-gray-500">{result.solution || 'Unknown'}</span> • {result.won ? 'Won:' : 'Lost:'} {result.won ? `${result.guesses}/6` : 'X/6'}{hardModeMarker(result)}
                   </div>
                 </div>
               </div>
@@ -265,6 +298,27 @@ export default function StatsPage() {
         )}
       </div>
 
+      {/* Practice (kept apart from the daily stats and streak) */}
+      {practice && practice.played > 0 && (
+        <div className="bg-white p-4 rounded-lg border border-gray-200">
+          <h3 className="text-lg text-gray-900 mb-4">Practice</h3>
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <div className="text-2xl font-bold text-gray-800">{practice.played}</div>
+              <div className="text-sm text-gray-600">Played</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-800">{Math.round((practice.wins / practice.played) * 100)}%</div>
+              <div className="text-sm text-gray-600">Win Rate</div>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-800">{practice.bestRun}</div>
+              <div className="text-sm text-gray-600">Best Run</div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Puzzle Snapshot Modal */}
       {showPuzzleSnapshot && selectedPuzzle && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -285,8 +339,16 @@ export default function StatsPage() {
               <div className="mb-4">
                 <div className="text-sm text-gray-600 mb-2">Date: {new Date(selectedPuzzle.dateISO).toLocaleDateString()}</div>
                 <div className="text-sm text-gray-600 mb-2">Word Length: {selectedPuzzle.wordLength} letters</div>
-                <div className="text-sm text-gray-600 mb-4">Result: {selectedPuzzle.won ? `Won in ${selectedPuzzle.guesses} guesses` : 'Lost'}</div>
+                <div className="text-sm text-gray-600 mb-4">Result: {selectedPuzzle.won ? `Won in ${selectedPuzzle.guesses} guesses` : 'Lost'}{selectedPuzzle.hardMode ? ' (hard mode)' : ''}</div>
               </div>
+
+              {selectedState && selectedState.evaluations.length > 0 && (
+                <AnalysisPanel
+                  wordLength={selectedState.wordLength}
+                  attempts={selectedState.attempts}
+                  evaluations={selectedState.evaluations}
+                />
+              )}
               
               {selectedPuzzle.won && (
                 <div className="text-center">
@@ -0,0 +1,235 @@
+/* eslint-disable no-restricted-globals */
+/**
+ * Verseword service worker: keeps the app and today's board available offline.
+ *
+ * - App shell (pages, icons, manifest, Next static assets) is cached as it is used
+ * - The three dictionaries are precached on install
+ * - /api/offline-pack holds the released puzzles (clue and token, no answer);
+ *   while the network is down it backs /api/puzzle/[date]. Guesses and reveals
+ *   are scored by the server, so offline they get a 503 and the page keeps the guess
+ *
+ * Bump VERSION to drop every cache on the next activation.
+ */
+
+const VERSION = 'v3';
+const SHELL_CACHE = `verseword-shell-${VERSION}`;
+const DATA_CACHE = `verseword-data-${VERSION}`;
+
+const PACK_URL = '/api/offline-pack';
+const SHELL_URLS = [
+  '/',
+  '/archive',
+  '/stats',
+  '/how-to-play',
+  '/site.webmanifest',
+  '/favicon.ico',
+  '/android-chrome-192x192.png',
+  '/logo-cross2.webp',
+];
+const DICTIONARY_URLS = [5, 6, 7].map((len) => `/api/dictionary?length=${len}`);
+
+// ---- install / activate ----
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      // One missing page shouldn't stop the worker from installing
+      await Promise.all(SHELL_URLS.map((url) => shell.add(url).catch(() => undefined)));
+      await precacheData();
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keep = [SHELL_CACHE, DATA_CACHE];
+      const names = await caches.keys();
+      await Promise.all(
+        names.filter((name) => name.startsWith('verseword-') && !keep.includes(name)).map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function precacheData() {
+  const data = await caches.open(DATA_CACHE);
+  await Promise.all(DICTIONARY_URLS.map((url) => data.add(url).catch(() => undefined)));
+  await refreshPack();
+}
+
+async function refreshPack() {
+  try {
+    const response = await fetch(PACK_URL, { cache: 'no-store' });
+    if (response.ok) {
+      const data = await caches.open(DATA_CACHE);
+      await data.put(PACK_URL, response);
+    }
+  } catch (_) {
+    // Offline - keep whatever pack we already have
+  }
+}
+
+async function readPack() {
+  const data = await caches.open(DATA_CACHE);
+  const cached = await data.match(PACK_URL);
+  return cached ? cached.json() : null;
+}
+
+// Refetch the pack once the next day's puzzles are released
+async function refreshPackIfStale() {
+  const pack = await readPack();
+  if (!pack || !pack.refreshAfter || Date.now() >= Date.parse(pack.refreshAfter)) {
+    await refreshPack();
+  }
+}
+
+// ---- fetch routing ----
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, () => caches.match('/')));
+    event.waitUntil(refreshPackIfStale());
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (url.pathname === '/api/dictionary') {
+    event.respondWith(cacheFirst(request, DATA_CACHE));
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/puzzle/')) {
+    const date = decodeURIComponent(url.pathname.slice('/api/puzzle/'.length));
+    event.respondWith(networkFirst(request, DATA_CACHE, () => offlinePuzzle(date, url.searchParams.get('length'))));
+    return;
+  }
+
+  if (url.pathname === '/api/guess' || url.pathname === '/api/reveal') {
+    event.respondWith(networkOnly(request, () => json({ error: 'Offline. Try again once you are connected.' }, 503)));
+    return;
+  }
+
+  if (url.pathname === '/api/word-definitions' || url.pathname === '/api/puzzles' || url.pathname === '/api/verse' || url.pathname === '/api/easton') {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+  }
+});
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, cacheName, fallback) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(cacheName);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const offline = fallback ? await fallback() : null;
+    if (offline) return offline;
+    throw error;
+  }
+}
+
+async function networkOnly(request, fallback) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const offline = await fallback();
+    if (offline) return offline;
+    throw error;
+  }
+}
+
+// ---- offline puzzles from the pack ----
+function json(body, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'X-Verseword-Offline': '1' },
+  });
+}
+
+// The pack only holds released days. Without a length, the day's main puzzle
+async function findPackedPuzzle(date, length) {
+  if (!date) return null;
+  const pack = await readPack();
+  if (!pack) return null;
+  return pack.puzzles.find((p) => p.date === date && (length ? p.len === Number(length) : p.main !== false)) || null;
+}
+
+async function offlinePuzzle(date, length) {
+  const puzzle = await findPackedPuzzle(date, length);
+  if (!puzzle) return null;
+  return json({
+    date: puzzle.date,
+    len: puzzle.len,
+    clue: puzzle.clue,
+    puzzleNumber: puzzle.puzzleNumber,
+    answerHash: puzzle.answerHash,
+    gameToken: puzzle.gameToken,
+  });
+}
+
+// ---- cache state for the Settings panel ----
+async function cacheState() {
+  const shell = await caches.open(SHELL_CACHE);
+  const data = await caches.open(DATA_CACHE);
+  const shellEntries = await shell.keys();
+
+  const dictionaries = [];
+  for (const [i, url] of DICTIONARY_URLS.entries()) {
+    if (await data.match(url)) dictionaries.push(5 + i);
+  }
+
+  const pack = await readPack();
+  const dates = pack ? pack.puzzles.map((p) => p.date) : [];
+
+  return {
+    version: VERSION,
+    shellEntries: shellEntries.length,
+    dictionaries,
+    puzzleDays: new Set(dates).size,
+    puzzlesFrom: dates[0] || null,
+    puzzlesTo: dates[dates.length - 1] || null,
+    updatedAt: pack ? pack.generatedAt : null,
+  };
+}
+
+self.addEventListener('message', (event) => {
+  const port = event.ports && event.ports[0];
+  if (!port || !event.data) return;
+
+  if (event.data.type === 'GET_CACHE_STATE') {
+    event.waitUntil(cacheState().then((state) => port.postMessage(state)));
+  } else if (event.data.type === 'REFRESH_CACHE') {
+    event.waitUntil(
+      precacheData()
+        .then(cacheState)
+        .then((state) => port.postMessage(state))
+    );
+  }
+});
@@ -1,139 +1,506 @@
 #!/usr/bin/env ts-node
 
 /**
- * Script to build game data files from frequency lists
+ * Builds the game data files in lib/data
  * 
  * Usage:
- * npm run build-data
+ * npm run build-data -- puzzles --year 2027 [--seed 2027] [--no-repeat-days 180] [--max-hard-per-week 2] [--words a.json,b.json] [--force] [--dry-run]
+ * npm run build-data -- dictionaries
+ * npm run build-data -- definitions [--allow-fallback] [--allow-missing]
  * 
- * This script will:
- * 1. Filter words by length and ASCII letters
- * 2. Generate dictionary5.json and dictionary6.json in lib/data
- * 3. Build dated puzzles{len}-2025.json in lib/data
- * 4. Generate clues-{year}.json files in lib/data
+ * puzzles: schedules puzzles-{year}.json from the biblical word lists
+ * (biblical_words_*.json, or --words). The same seed always gives the same
+ * year. Every answer is in its dictionary{len}.json and has a clue, no answer
+ * repeats within --no-repeat-days (counting earlier years), and 5, 6 and 7
+ * letter days rotate so each length gets a third of the year. Clues for the
+ * chosen answers are copied into clues-{year}.json. An existing year is only
+ * replaced with --force, and days that are already released are kept.
+ * --max-hard-per-week caps the hard and expert answers (see lib/difficulty.ts)
+ * in each Sunday-Saturday week and keeps them off back-to-back days.
+ *
+ * dictionaries: adds every scheduled answer that is missing from its
+ * dictionary{len}.json, so it can be typed as a guess. Answers are only added
+ * when the KJV or Easton's Bible Dictionary spells them the same way; the
+ * others are listed and the build fails, so a misspelled answer gets fixed in
+ * the schedule instead of becoming a valid guess.
+ *
+ * definitions: joins every scheduled puzzle word (all puzzles-{year}.json
+ * files) with Easton's Bible Dictionary and writes word-definitions-{year}.json.
+ * A scheduled word Easton doesn't cover is an error: nothing is written and
+ * the build fails. With --allow-fallback such a word keeps the definition
+ * already in a word-definitions file, else gets a KJV usage note with a few of
+ * the verses that use them; these words are still listed, and recorded under
+ * notInEaston in the file's metadata. --allow-missing writes the files even
+ * when some words end up with no definition at all.
  */
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { DEFAULT_NO_REPEAT_DAYS } from '../lib/dataValidation';
+import { estimateDifficulty } from '../lib/difficulty';
+import { findEastonTerm } from '../lib/eastonData';
+import { findVersesWithWord, formatVerseRef } from '../lib/kjv';
+import { PuzzleFileDay, listPuzzleYears, listWordDefinitionYears, loadAllPuzzles, loadClues, loadWordDefinitions, puzzleFileWords, toPuzzleFileDay } from '../lib/puzzleData';
+import { findReferences, formatReference, parseReference } from '../lib/scriptureRef';
+import { addDays, daysBetween, latestReleasedDateISO, parseDateISO } from '../lib/timezone';
+import { CluesData, WordDefinition, WordDefinitionsData, WordLength } from '../lib/types';
 
-interface WordFrequency {
-  word: string;
-  frequency: number;
+const DATA_DIR = path.join(__dirname, '../lib/data');
+const WORD_LENGTHS: WordLength[] = [5, 6, 7];
+const WORD_LIST_FILE = /^biblical_words_.*\.json$/;
+
+// ---- arguments ----
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
 }
 
-interface PuzzleData {
-  date: string;
-  word: string;
+function getNumberOption(args: string[], name: string, fallback?: number): number | undefined {
+  const value = getOption(args, name);
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new Error(`--${name} must be a whole number, got "${value}"`);
+  }
+  return number;
+}
+
+// ---- data files ----
+
+function readJSON<T>(fileName: string): T {
+  return JSON.parse(fs.readFileSync(path.join(DATA_DIR, fileName), 'utf8')) as T;
+}
+
+function writeJSON(fileName: string, data: unknown) {
+  fs.writeFileSync(path.join(DATA_DIR, fileName), JSON.stringify(data, null, 2));
+}
+
+function loadDictionary(length: WordLength): string[] {
+  return readJSON<string[]>(`dictionary${length}.json`);
+}
+
+// Every clue file merged, with `preferYear`'s own clues winning
+function loadAllClues(preferYear: number): CluesData {
+  const years = Array.from(new Set(listPuzzleYears().concat(preferYear)));
+  const clues: CluesData = {};
+
+  years
+    .sort((a, b) => (a === preferYear ? 1 : b === preferYear ? -1 : a - b))
+    .forEach(year => {
+      Object.entries(loadClues(year)).forEach(([word, clue]) => {
+        clues[word.toUpperCase()] = clue;
+      });
+    });
+
+  return clues;
 }
 
-interface CluesData {
-  [word: string]: string;
+// Seeded PRNG (mulberry32) so a seed always produces the same schedule
+function createRandom(seed: string): () => number {
+  let state = crypto.createHash('sha256').update(seed).digest().readUInt32BE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
-function generateDatesForYear(year: number): string[] {
-  const dates: string[] = [];
-  const startDate = new Date(year, 0, 1);
-  const endDate = new Date(year, 11, 31);
-  
-  for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-    dates.push(d.toISOString().split('T')[0]);
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
   }
-  
-  return dates;
+  return result;
 }
 
-function filterWord(word: string, length: number): boolean {
-  return word.length === length && /^[A-Za-z]+$/.test(word);
+// ---- dictionaries ----
+
+async function buildDictionaries() {
+  console.log('Adding scheduled answers to the dictionaries...');
+
+  const answers = Array.from(new Set(loadAllPuzzles().map(p => p.word.toUpperCase())));
+  const unknown: string[] = [];
+
+  WORD_LENGTHS.forEach(length => {
+    const dictionary = loadDictionary(length);
+    const known = new Set(dictionary.map(word => word.toUpperCase()));
+    const added = answers.filter(word => {
+      if (word.length !== length || known.has(word)) return false;
+      if (findVersesWithWord(word).length > 0 || findEastonTerm(word)) return true;
+      unknown.push(word);
+      return false;
+    });
+
+    if (added.length > 0) {
+      writeJSON(`dictionary${length}.json`, dictionary.concat(added.map(word => word.toLowerCase())));
+    }
+    console.log(`📁 dictionary${length}.json: ${dictionary.length} words, ${added.length} answers added${added.length ? ` (${added.join(', ')})` : ''}`);
+  });
+
+  if (unknown.length > 0) {
+    console.error(`❌ Not in the KJV or Easton, check the spelling in the schedule: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+  console.log('✅ Dictionaries updated successfully!');
 }
 
-function buildDictionary(words: string[], length: number): string[] {
-  return words
-    .filter(word => filterWord(word, length))
-    .map(word => word.toUpperCase())
-    .sort();
+// ---- puzzles ----
+
+interface PuzzleOptions {
+  year: number;
+  seed: string;
+  noRepeatDays: number;
+  maxHardPerWeek?: number;
+  wordFiles: string[];
+  force: boolean;
+  dryRun: boolean;
 }
 
-function buildPuzzles(words: string[], year: number): PuzzleData[] {
-  const dates = generateDatesForYear(year);
-  const puzzles: PuzzleData[] = [];
-  
-  // Use a subset of words for puzzles (every 7th word to spread them out)
-  const puzzleWords = words.filter((_, index) => index % 7 === 0);
-  
-  dates.forEach((date, index) => {
-    const wordIndex = index % puzzleWords.length;
-    puzzles.push({
-      date,
-      word: puzzleWords[wordIndex]
+// Candidate answers by length: on a word list, A-Z only, in the dictionary and with a clue
+function loadCandidates(wordFiles: string[], clues: CluesData): Record<WordLength, string[]> {
+  const skipped = { dictionary: [] as string[], clue: [] as string[] };
+  const candidates = { 5: [], 6: [], 7: [] } as Record<WordLength, string[]>;
+  const dictionaries = WORD_LENGTHS.reduce((all, length) => {
+    all[length] = new Set(loadDictionary(length).map(word => word.toUpperCase()));
+    return all;
+  }, {} as Record<WordLength, Set<string>>);
+
+  const seen = new Set<string>();
+  wordFiles.forEach(file => {
+    readJSON<string[]>(file).forEach(raw => {
+      const word = raw.trim().toUpperCase();
+      if (seen.has(word) || !/^[A-Z]+$/.test(word)) return;
+      seen.add(word);
+
+      const length = word.length as WordLength;
+      if (!WORD_LENGTHS.includes(length)) return;
+      if (!dictionaries[length].has(word)) skipped.dictionary.push(word);
+      else if (!clues[word]) skipped.clue.push(word);
+      else candidates[length].push(word);
     });
   });
-  
-  return puzzles;
+
+  console.log(`📝 Skipped ${skipped.dictionary.length} words not in their dictionary and ${skipped.clue.length} without a clue`);
+  return candidates;
 }
 
-function buildClues(words: string[]): CluesData {
-  const clues: CluesData = {};
-  
-  // Generate simple clues (you can replace this with real clues)
+async function buildPuzzles(options: PuzzleOptions) {
+  const { year, seed, noRepeatDays, maxHardPerWeek, wordFiles, force, dryRun } = options;
+  console.log(`Building puzzles-${year}.json (seed "${seed}", no repeats within ${noRepeatDays} days)...`);
+
+  const fileName = `puzzles-${year}.json`;
+  const exists = fs.existsSync(path.join(DATA_DIR, fileName));
+  if (exists && !force) {
+    throw new Error(`${fileName} already exists; pass --force to replace its unreleased days`);
+  }
+
+  // Released days are never rescheduled
+  const released = latestReleasedDateISO();
+  const kept = loadAllPuzzles().filter(p => p.date.startsWith(`${year}-`) && p.date <= released);
+  const firstDate = kept.length > 0 ? addDays(kept[kept.length - 1].date, 1) : `${year}-01-01`;
+  const lastDate = `${year}-12-31`;
+
+  const clues = loadAllClues(year);
+  const candidates = loadCandidates(wordFiles, clues);
+  WORD_LENGTHS.forEach(length => console.log(`📁 ${length}-letter candidates: ${candidates[length].length}`));
+
+  // When each word was last an answer, from every schedule before firstDate
+  const lastUsed = new Map<string, string>();
+  loadAllPuzzles()
+    .filter(p => p.date < firstDate)
+    .forEach(p => lastUsed.set(p.word.toUpperCase(), p.date));
+
+  // Scored on demand and kept, since the same candidates come up every day
+  const dictionaries = {} as Record<WordLength, string[]>;
+  const hardness = new Map<string, boolean>();
+  const isHard = (word: string) => {
+    if (!hardness.has(word)) {
+      const length = word.length as WordLength;
+      dictionaries[length] = dictionaries[length] ?? loadDictionary(length).map(w => w.toUpperCase());
+      const { level } = estimateDifficulty(word, dictionaries[length]);
+      hardness.set(word, level === 'hard' || level === 'expert');
+    }
+    return hardness.get(word) as boolean;
+  };
+  let hardThisWeek = 0;
+  let previousWasHard = false;
+
+  const random = createRandom(`${seed}:${year}`);
+  const schedule: Record<string, PuzzleFileDay> = {};
+  // Kept days may have one answer per length (see PuzzleFileDay)
+  kept.forEach(p => {
+    schedule[p.date] = toPuzzleFileDay((schedule[p.date] ? puzzleFileWords(schedule[p.date]) : []).concat(p.word));
+  });
+
+  // Each run of three days has one word of each length, in a random order
+  let lengths: WordLength[] = [];
+  for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+    if (lengths.length === 0) lengths = shuffle(WORD_LENGTHS, random);
+    const length = lengths.shift() as WordLength;
+
+    const available = candidates[length].filter(word => {
+      const previous = lastUsed.get(word);
+      return !previous || daysBetween(previous, date) > noRepeatDays;
+    });
+    if (available.length === 0) {
+      throw new Error(`No ${length}-letter word is free on ${date}; lower --no-repeat-days or add words`);
+    }
+
+    // Words that have never been an answer go first, then the longer-rested half
+    const fresh = available.filter(word => !lastUsed.has(word));
+    let pool = fresh.length > 0
+      ? fresh
+      : available
+        .slice()
+        .sort((a, b) => (lastUsed.get(a) as string).localeCompare(lastUsed.get(b) as string))
+        .slice(0, Math.ceil(available.length / 2));
+
+    // Keep hard words apart; if the pool has nothing easier, allow one anyway
+    if (maxHardPerWeek !== undefined) {
+      if (parseDateISO(date).getDay() === 0) hardThisWeek = 0;
+      if (hardThisWeek >= maxHardPerWeek || previousWasHard) {
+        const easier = pool.filter(word => !isHard(word));
+        if (easier.length > 0) pool = easier;
+      }
+    }
+    const word = pool[Math.floor(random() * pool.length)];
+
+    if (maxHardPerWeek !== undefined) {
+      previousWasHard = isHard(word);
+      if (previousWasHard) hardThisWeek++;
+    }
+
+    schedule[date] = { word };
+    lastUsed.set(word, date);
+  }
+
+  const words = Object.values(schedule).reduce<string[]>((all, day) => all.concat(puzzleFileWords(day)), []);
+  const counts = WORD_LENGTHS.map(length => `${words.filter(w => w.length === length).length}×${length}`);
+  console.log(`📁 ${Object.keys(schedule).length} days (${new Set(kept.map(p => p.date)).size} kept), ${counts.join(', ')}, ${new Set(words).size} distinct answers`);
+  if (maxHardPerWeek !== undefined) {
+    console.log(`📁 ${words.filter(isHard).length} hard or expert answers (at most ${maxHardPerWeek} a week)`);
+  }
+
+  if (dryRun) {
+    console.log('📝 Dry run: nothing was written');
+    return;
+  }
+
+  // The API reads each year's own clue file
+  const yearClues = loadClues(year);
   words.forEach(word => {
-    clues[word] = `clue for ${word.toLowerCase()}`;
+    if (!Object.keys(yearClues).some(key => key.toUpperCase() === word)) yearClues[word] = clues[word];
   });
-  
-  return clues;
+
+  writeJSON(fileName, schedule);
+  writeJSON(`clues-${year}.json`, yearClues);
+  console.log(`✅ Wrote ${fileName} and clues-${year}.json`);
+}
+
+// ---- definitions ----
+
+// One reference per chapter passage, e.g. "Rev. 1:8, 11" -> "Revelation 1:8", "Revelation 1:11"
+function extractExamples(definitions: string[]): string[] {
+  const examples: string[] = [];
+
+  definitions.forEach(definition => {
+    findReferences(definition).forEach(({ ref }) => {
+      (parseReference(ref) ?? []).forEach(range => {
+        const example = formatReference([range]);
+        if (!examples.includes(example)) examples.push(example);
+      });
+    });
+  });
+
+  return examples;
 }
 
+const KJV_EXAMPLES = 5;
+
+// For words Easton has no entry for (mostly everyday KJV words such as SMOTE
+// or PERISH): how often the KJV uses the word, with verses spread across the
+// canon as examples. null if no verse uses it.
+function kjvUsage(word: string): WordDefinition | null {
+  const verses = findVersesWithWord(word);
+  if (verses.length === 0) return null;
+
+  const step = verses.length / Math.min(verses.length, KJV_EXAMPLES);
+  const examples: string[] = [];
+  for (let i = 0; i < verses.length && examples.length < KJV_EXAMPLES; i += step) {
+    examples.push(formatVerseRef(verses[Math.floor(i)]));
+  }
+
+  const count = verses.length === 1 ? 'one verse' : `${verses.length} verses`;
+  return {
+    partOfSpeech: '',
+    definitions: [`Not in Easton's Bible Dictionary. The King James Version uses ${word.toLowerCase()} in ${count}; ${examples.length === 1 ? 'it is' : 'some are'} listed below.`],
+    examples,
+  };
+}
+
+// Every word-definitions-{year}.json entry, newest year winning
+function loadExistingDefinitions(): Record<string, WordDefinition[]> {
+  const existing: Record<string, WordDefinition[]> = {};
+
+  listWordDefinitionYears()
+    .slice()
+    .reverse()
+    .forEach(year => Object.assign(existing, loadWordDefinitions(year).definitions));
+
+  return existing;
+}
+
+interface DefinitionOptions {
+  allowFallback: boolean;
+  allowMissing: boolean;
+}
+
+async function buildDefinitions({ allowFallback, allowMissing }: DefinitionOptions) {
+  console.log('Building word definitions...');
+
+  const existing = loadExistingDefinitions();
+
+  // Scheduled words by year, in date order
+  const wordsByYear = new Map<string, string[]>();
+  loadAllPuzzles().forEach(puzzle => {
+    const year = puzzle.date.slice(0, 4);
+    const words = wordsByYear.get(year) ?? [];
+    const word = puzzle.word.toUpperCase();
+    if (!words.includes(word)) words.push(word);
+    wordsByYear.set(year, words);
+  });
+
+  const outputs: { year: string; data: WordDefinitionsData }[] = [];
+  const missingByYear: Record<string, string[]> = {};
+  const fallbackByYear: Record<string, string[]> = {};
+
+  wordsByYear.forEach((words, year) => {
+    const definitions: Record<string, WordDefinition[]> = {};
+    const notInEaston: string[] = [];
+    const missing: string[] = [];
+    let fromEaston = 0;
+    let carriedOver = 0;
+    let fromKjv = 0;
+
+    words.forEach(word => {
+      const easton = findEastonTerm(word);
+      if (easton) {
+        definitions[word] = [{
+          partOfSpeech: '',
+          definitions: easton.definitions,
+          examples: extractExamples(easton.definitions),
+        }];
+        fromEaston++;
+        return;
+      }
+
+      notInEaston.push(word);
+      if (!allowFallback) {
+        missing.push(word);
+        return;
+      }
+
+      // A usage note written by an earlier build counts as from the KJV, not carried over
+      const usage = kjvUsage(word);
+      const isUsageNote = !!usage && JSON.stringify(existing[word]) === JSON.stringify([usage]);
+      if (existing[word] && !isUsageNote) {
+        definitions[word] = existing[word];
+        carriedOver++;
+      } else if (usage) {
+        definitions[word] = [usage];
+        fromKjv++;
+      } else {
+        missing.push(word);
+      }
+    });
+
+    if (missing.length > 0) missingByYear[year] = missing;
+    if (allowFallback && notInEaston.length > 0) fallbackByYear[year] = notInEaston.filter(word => !missing.includes(word));
+    outputs.push({
+      year,
+      data: {
+        metadata: {
+          source: 'easton.jsonl',
+          puzzlesFile: `lib/data/puzzles-${year}.json`,
+          totalWords: words.length,
+          fromEaston,
+          carriedOver,
+          fromKjv,
+          notInEaston,
+          missing,
+        },
+        definitions,
+      },
+    });
+    console.log(`📁 ${year}: ${words.length} words, ${fromEaston} from Easton, ${carriedOver} carried over, ${fromKjv} from KJV usage, ${missing.length} missing`);
+  });
+
+  Object.keys(fallbackByYear).forEach(year => {
+    console.warn(`⚠️  ${year}: not in Easton, used a fallback for ${fallbackByYear[year].join(', ')}`);
+  });
+
+  const missingYears = Object.keys(missingByYear);
+  if (missingYears.length > 0) {
+    missingYears.forEach(year => {
+      console.error(`❌ ${year}: ${allowFallback ? 'no definition' : 'no Easton entry'} for ${missingByYear[year].join(', ')}`);
+    });
+    if (!allowMissing) {
+      console.error(allowFallback
+        ? '❌ Scheduled words are missing definitions; nothing was written. Reschedule them or pass --allow-missing.'
+        : '❌ Scheduled words have no Easton entry; nothing was written. Reschedule them, or pass --allow-fallback to use an existing definition or a KJV usage note.');
+      process.exit(1);
+    }
+  }
+
+  outputs.forEach(({ year, data }) => {
+    fs.writeFileSync(path.join(DATA_DIR, `word-definitions-${year}.json`), JSON.stringify(data, null, 2));
+  });
+  console.log('✅ Word definitions built successfully!');
+}
+
+
 async function main() {
+  const args = process.argv.slice(2);
+  const command = args.find(arg => !arg.startsWith('--'));
+
   try {
-    console.log('Building game data files...');
-    
-    // This is a placeholder - you would load your actual frequency list here
-    // const frequencyList = await loadFrequencyList('path/to/frequency-list.txt');
-    
-    // For now, using sample data
-    const sampleWords5 = [
-      'HELLO', 'WORLD', 'MOUTH', 'BRAIN', 'SPACE', 'DREAM', 'LIGHT', 'WATER',
-      'EARTH', 'FIRE', 'MUSIC', 'HAPPY', 'SMILE', 'PEACE', 'LOVE', 'HOPE'
-    ];
-    
-    const sampleWords6 = [
-      'MOUNTAIN', 'OCEAN', 'SUNSHINE', 'FRIEND', 'BEAUTY', 'COURAGE', 'WISDOM',
-      'FREEDOM', 'JOURNEY', 'MYSTERY', 'HARMONY', 'SILENCE', 'WONDER', 'MAGIC'
-    ];
-    
-    const dataDir = path.join(__dirname, '../lib/data');
-    
-    // Ensure data directory exists
-    if (!fs.existsSync(dataDir)) {
-      fs.mkdirSync(dataDir, { recursive: true });
+    switch (command) {
+      case 'puzzles': {
+        const year = getNumberOption(args, 'year');
+        if (!year) throw new Error('puzzles needs --year, e.g. --year 2027');
+        const words = getOption(args, 'words');
+        await buildPuzzles({
+          year,
+          seed: getOption(args, 'seed') ?? String(year),
+          noRepeatDays: getNumberOption(args, 'no-repeat-days', DEFAULT_NO_REPEAT_DAYS) as number,
+          maxHardPerWeek: getNumberOption(args, 'max-hard-per-week'),
+          wordFiles: words
+            ? words.split(',').map(file => path.basename(file))
+            : fs.readdirSync(DATA_DIR).filter(name => WORD_LIST_FILE.test(name)).sort(),
+          force: args.includes('--force'),
+          dryRun: args.includes('--dry-run'),
+        });
+        break;
+      }
+      case 'dictionaries':
+        await buildDictionaries();
+        break;
+      case 'definitions':
+        await buildDefinitions({
+          allowFallback: args.includes('--allow-fallback'),
+          allowMissing: args.includes('--allow-missing'),
+        });
+        break;
+      default:
+        throw new Error(`Unknown command "${command ?? ''}". Use puzzles, dictionaries or definitions.`);
     }
-    
-    // Build 5-letter data
-    const dict5 = buildDictionary(sampleWords5, 5);
-    const clues5 = buildClues(dict5);
-    
-    // Build 6-letter data
-    const dict6 = buildDictionary(sampleWords6, 6);
-    const clues6 = buildClues(dict6);
-    
-    // Write dictionary files to lib/data
-    fs.writeFileSync(path.join(dataDir, 'dictionary5.json'), JSON.stringify(dict5, null, 2));
-    fs.writeFileSync(path.join(dataDir, 'dictionary6.json'), JSON.stringify(dict6, null, 2));
-    
-    // Write clues files to lib/data directory (using current year)
-    const currentYear = new Date().getFullYear();
-    fs.writeFileSync(path.join(dataDir, `clues-${currentYear}.json`), JSON.stringify({...clues5, ...clues6}, null, 2));
-    
-    // Note: Puzzle files for multiple years (2025-2030) should be created separately
-    // This script now focuses on dictionaries and clues only
-    
-    console.log('✅ Data files built successfully!');
-    console.log(`📁 5-letter: ${dict5.length} words`);
-    console.log(`📁 6-letter: ${dict6.length} words`);
-    console.log(`📁 Clues: ${Object.keys({...clues5, ...clues6}).length} total clues`);
-    console.log('📝 Note: Puzzle files for multiple years (2025-2030) should be created separately');
-    
   } catch (error) {
-    console.error('❌ Error building data files:', error);
+    console.error('❌ Error building data files:', error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
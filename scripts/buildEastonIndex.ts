@@ -0,0 +1,37 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Builds the search index for the /dictionary page
+ *
+ * Usage:
+ * npm run build-easton-index
+ *
+ * Reads lib/data/easton.jsonl and writes lib/data/easton-index.json with:
+ * 1. Every term in alphabetical order, with its URL slug and a short preview
+ * 2. A word -> entries map for full-text search
+ * Re-run it whenever easton.jsonl changes.
+ */
+
+import * as fs from 'fs';
+import { EASTON_INDEX_FILE, buildEastonIndex } from '../lib/eastonData';
+
+function main() {
+  try {
+    console.log('Building Easton index...');
+
+    const index = buildEastonIndex();
+    fs.writeFileSync(EASTON_INDEX_FILE, JSON.stringify(index));
+
+    const postings = Object.values(index.tokens).reduce((sum, positions) => sum + positions.length, 0);
+    console.log('✅ Easton index built successfully!');
+    console.log(`📁 ${index.entries.length} terms`);
+    console.log(`📁 ${Object.keys(index.tokens).length} words, ${postings} postings`);
+  } catch (error) {
+    console.error('❌ Error building Easton index:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,43 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Checks every file in lib/data for problems that would break a puzzle
+ * 
+ * Usage:
+ * npm run validate-data
+ * npm run validate-data -- --no-repeat-days 90
+ * 
+ * Prints a JSON report (see ValidationReport in lib/dataValidation.ts) to
+ * stdout and a one-line summary to stderr. Exits with 1 if there are any
+ * errors; warnings alone don't fail.
+ */
+
+import { DEFAULT_NO_REPEAT_DAYS, validateData } from '../lib/dataValidation';
+
+function main() {
+  try {
+    const args = process.argv.slice(2);
+    const index = args.indexOf('--no-repeat-days');
+    const noRepeatDays = index >= 0 ? Number(args[index + 1]) : DEFAULT_NO_REPEAT_DAYS;
+    if (!Number.isInteger(noRepeatDays) || noRepeatDays < 0) {
+      throw new Error(`--no-repeat-days must be a whole number, got "${args[index + 1]}"`);
+    }
+
+    const report = validateData({ noRepeatDays });
+    console.log(JSON.stringify(report, null, 2));
+
+    const summary = `${report.puzzles} puzzles, ${report.errors} errors, ${report.warnings} warnings`;
+    if (!report.ok) {
+      console.error(`❌ ${summary}`);
+      process.exit(1);
+    }
+    console.error(`✅ ${summary}`);
+  } catch (error) {
+    console.error('❌ Error validating data files:', error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+}
+
+if (require.main === module) {
+  main();
+}